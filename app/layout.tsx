@@ -19,7 +19,7 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "Trimflow - Free Online Video Trimmer | Trim Videos in Browser",
   description:
-    "Trim and cut videos online for free. Fast, secure browser-based video editor supporting MP4, MOV, and AVI. No upload required - your videos stay private on your device.",
+    "Trim and cut videos online for free. Fast, secure browser-based video editor supporting MP4, MOV, MKV, WebM, AVI and audio files. No upload required - your videos stay private on your device.",
   icons: {
     icon: [
       { url: "/logo.jpg", sizes: "any" },
@@ -115,7 +115,7 @@ export default function RootLayout({
               featureList: [
                 "Trim videos online",
                 "No upload required",
-                "Supports MP4, MOV, AVI",
+                "Supports MP4, MOV, MKV, WebM, AVI, TS and audio files",
                 "Client-side processing",
                 "Free to use",
               ],
@@ -26,7 +26,7 @@ export default function Home() {
               <div>
                 <h3 className="font-semibold text-foreground mb-2">Features</h3>
                 <ul className="space-y-1">
-                  <li>✓ Trim MP4, MOV, and AVI videos</li>
+                  <li>✓ Trim MP4, MOV, MKV, WebM and more, plus audio files</li>
                   <li>✓ No file size limits</li>
                   <li>✓ 100% client-side processing</li>
                   <li>✓ Your videos never leave your device</li>
@@ -0,0 +1,44 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+type AudioLevelMeterProps = {
+  getLevel: () => number
+}
+
+// Lowest level the meter shows, in dBFS
+const FLOOR_DB = -60
+
+// Peak meter for the preview. It polls the level every frame and writes to the DOM
+// directly, so playback doesn't re-render the editor.
+export function AudioLevelMeter({ getLevel }: AudioLevelMeterProps) {
+  const barRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let frame = 0
+    let shown = 0
+
+    const tick = () => {
+      const level = getLevel()
+      const db = level > 0 ? 20 * Math.log10(level) : FLOOR_DB
+      // Rises instantly and falls back slowly, like a hardware meter
+      shown = Math.max(Math.min(1, Math.max(0, 1 - db / FLOOR_DB)), shown - 0.015)
+      const bar = barRef.current
+      if (bar) {
+        bar.style.width = `${shown * 100}%`
+        bar.classList.toggle("bg-destructive", db > -1)
+        bar.classList.toggle("bg-primary", db <= -1)
+      }
+      frame = requestAnimationFrame(tick)
+    }
+
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [getLevel])
+
+  return (
+    <div className="h-1.5 w-20 shrink-0 overflow-hidden rounded-full bg-secondary" title="Preview output level">
+      <div ref={barRef} className="h-full w-0 bg-primary" />
+    </div>
+  )
+}
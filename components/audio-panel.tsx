@@ -0,0 +1,260 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { ChevronDown, Music, Volume2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { RangeControl } from "@/components/range-control"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import { ACCEPTED_EXTENSIONS, detectMediaFormat } from "@/lib/media-detect"
+import {
+  DEFAULT_AUDIO,
+  GAIN_RANGE_DB,
+  LOUDNESS_TARGET,
+  MAX_FADE_SECONDS,
+  MUSIC_MODE_LABELS,
+  createMusicTrack,
+  describeAudio,
+  isAudioEdited,
+  keepsOriginalAudio,
+  type AudioSettings,
+  type MusicMode,
+  type MusicTrack,
+} from "@/lib/audio-settings"
+
+type AudioPanelProps = {
+  settings: AudioSettings
+  hasAudio: boolean // whether the source has a sound track of its own
+  outputDuration: number
+  disabled: boolean
+  onChange: (label: string, settings: AudioSettings) => void
+  // Slider gestures preview every step and land in the history as one edit
+  onPreview: (settings: AudioSettings) => void
+  onCommit: (label: string) => void
+}
+
+const formatDb = (db: number) => `${db > 0 ? "+" : ""}${db.toFixed(1)} dB`
+
+const formatSeconds = (seconds: number) => (seconds > 0 ? `${seconds.toFixed(1)}s` : "Off")
+
+// Collapsible sound settings: gain, mute, fades, loudness and a music track
+export function AudioPanel({
+  settings,
+  hasAudio,
+  outputDuration,
+  disabled,
+  onChange,
+  onPreview,
+  onCommit,
+}: AudioPanelProps) {
+  const [open, setOpen] = useState(false)
+  const { toast } = useToast()
+  const { music } = settings
+  const maxFade = Math.max(0, Math.min(MAX_FADE_SECONDS, Math.floor((outputDuration / 2) * 10) / 10))
+  const originalHeard = hasAudio && keepsOriginalAudio(settings)
+
+  const updateMusic = (label: string, patch: Partial<MusicTrack>) => {
+    if (music) onChange(label, { ...settings, music: { ...music, ...patch } })
+  }
+
+  const handleMusicSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    const format = await detectMediaFormat(file).catch(() => null)
+    if (!format) {
+      toast({
+        title: "Invalid file format",
+        description: `${file.name} is not a supported audio or video file`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    const track = createMusicTrack(file, format)
+    // Without sound of its own, the clip has nothing to mix the music with
+    onChange("Add music", { ...settings, music: hasAudio ? track : { ...track, mode: "replace" } })
+  }
+
+  return (
+    <div className="rounded-lg ring-1 ring-border">
+      <Button
+        variant="ghost"
+        className="w-full justify-start gap-2 px-3"
+        onClick={() => setOpen((current) => !current)}
+        aria-expanded={open}
+      >
+        <Volume2 className="h-4 w-4" />
+        <span className="flex-1 text-left text-sm font-semibold">Audio</span>
+        <span className="text-sm text-muted-foreground">{describeAudio(settings)}</span>
+        <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+      </Button>
+
+      {open && (
+        <div className="space-y-5 border-t px-3 py-4">
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={settings.stripOriginal ? "secondary" : "outline"}
+              size="sm"
+              onClick={() =>
+                onChange(settings.stripOriginal ? "Restore audio" : "Strip audio", {
+                  ...settings,
+                  stripOriginal: !settings.stripOriginal,
+                })
+              }
+              disabled={disabled || !hasAudio}
+              aria-pressed={settings.stripOriginal}
+            >
+              Strip original audio
+            </Button>
+            <Button
+              variant={settings.normalize ? "secondary" : "outline"}
+              size="sm"
+              onClick={() =>
+                onChange(settings.normalize ? "Turn off normalization" : "Normalize loudness", {
+                  ...settings,
+                  normalize: !settings.normalize,
+                })
+              }
+              disabled={disabled}
+              aria-pressed={settings.normalize}
+              title={`EBU R128: ${LOUDNESS_TARGET.integrated} LUFS, ${LOUDNESS_TARGET.truePeak} dBTP true peak`}
+            >
+              Normalize loudness ({LOUDNESS_TARGET.integrated} LUFS)
+            </Button>
+            {isAudioEdited(settings) && (
+              <Button variant="ghost" size="sm" onClick={() => onChange("Reset audio", DEFAULT_AUDIO)} disabled={disabled}>
+                Reset
+              </Button>
+            )}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <RangeControl
+              id="audio-gain"
+              label="Gain"
+              value={settings.gainDb}
+              min={GAIN_RANGE_DB.min}
+              max={GAIN_RANGE_DB.max}
+              step={0.5}
+              disabled={disabled || !originalHeard}
+              format={formatDb}
+              onPreview={(gainDb) => onPreview({ ...settings, gainDb })}
+              onCommit={() => onCommit("Change gain")}
+            />
+            <RangeControl
+              id="audio-fade-in"
+              label="Fade in"
+              value={Math.min(settings.fadeIn, maxFade)}
+              min={0}
+              max={maxFade}
+              step={0.1}
+              disabled={disabled || maxFade === 0}
+              format={formatSeconds}
+              onPreview={(fadeIn) => onPreview({ ...settings, fadeIn })}
+              onCommit={() => onCommit("Change fade in")}
+            />
+            <RangeControl
+              id="audio-fade-out"
+              label="Fade out"
+              value={Math.min(settings.fadeOut, maxFade)}
+              min={0}
+              max={maxFade}
+              step={0.1}
+              disabled={disabled || maxFade === 0}
+              format={formatSeconds}
+              onPreview={(fadeOut) => onPreview({ ...settings, fadeOut })}
+              onCommit={() => onCommit("Change fade out")}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <h5 className="text-sm font-semibold">Music</h5>
+              {music ? (
+                <>
+                  <span className="flex min-w-0 flex-1 items-center gap-1 text-sm text-muted-foreground">
+                    <Music className="h-3.5 w-3.5 shrink-0" />
+                    <span className="truncate">{music.name}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => onChange("Remove music", { ...settings, music: null })}
+                    disabled={disabled}
+                    aria-label="Remove music"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <Button asChild variant="outline" size="sm" disabled={disabled}>
+                  <label className="cursor-pointer">
+                    <Music className="mr-1 h-4 w-4" />
+                    Add music...
+                    <input
+                      type="file"
+                      className="hidden"
+                      accept={["audio/*", "video/*", ...ACCEPTED_EXTENSIONS].join(",")}
+                      onChange={handleMusicSelect}
+                    />
+                  </label>
+                </Button>
+              )}
+            </div>
+
+            {music && (
+              <div className="grid items-end gap-4 sm:grid-cols-3">
+                <Select
+                  value={music.mode}
+                  onValueChange={(mode) => updateMusic("Change music mode", { mode: mode as MusicMode })}
+                  disabled={disabled || !hasAudio}
+                >
+                  <SelectTrigger size="sm" className="w-full" aria-label="Music mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(MUSIC_MODE_LABELS) as MusicMode[]).map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {MUSIC_MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <RangeControl
+                  id="audio-music-volume"
+                  label="Music volume"
+                  value={music.volumeDb}
+                  min={GAIN_RANGE_DB.min}
+                  max={GAIN_RANGE_DB.max}
+                  step={0.5}
+                  disabled={disabled}
+                  format={formatDb}
+                  onPreview={(volumeDb) => onPreview({ ...settings, music: { ...music, volumeDb } })}
+                  onCommit={() => onCommit("Change music volume")}
+                />
+                <Button
+                  variant={music.ducking ? "secondary" : "outline"}
+                  size="sm"
+                  onClick={() => updateMusic(music.ducking ? "Turn off ducking" : "Turn on ducking", { ducking: !music.ducking })}
+                  disabled={disabled || !originalHeard}
+                  aria-pressed={music.ducking}
+                  title="Lower the music while the clip's own sound is loud"
+                >
+                  Duck under the clip's sound
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Changes play in the preview. Loudness normalization needs the whole clip, so it is only heard in the export.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
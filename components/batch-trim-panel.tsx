@@ -0,0 +1,368 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Archive, Download, Loader2, RotateCcw, RotateCw, Scissors, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ExportDialog } from "@/components/export-dialog"
+import { JobStatusIcon, formatEta } from "@/components/job-queue-panel"
+import { useFFmpegQueue } from "@/hooks/use-ffmpeg-queue"
+import { useToast } from "@/hooks/use-toast"
+import {
+  BATCH_RULE_LABELS,
+  describeBatchRule,
+  getBatchOutputName,
+  resolveBatchRange,
+  type BatchRule,
+  type BatchRuleKind,
+} from "@/lib/batch-trim"
+import { downloadBlob } from "@/lib/download"
+import { exportRanges, type ExportResult } from "@/lib/export"
+import { getDefaultExportSettings, type ExportSettings } from "@/lib/export-format"
+import { JobCancelledError, getInputPath, type JobSnapshot } from "@/lib/ffmpeg-queue"
+import { detectMediaFormat, getInputExtension, type InputFormat } from "@/lib/media-detect"
+import { readMediaDuration } from "@/lib/media-duration"
+import { probeMedia } from "@/lib/probe"
+import { formatClock, parseTime } from "@/lib/time"
+import { TRIM_MODE_OPTIONS, type TrimMode } from "@/lib/trim"
+import { createZip } from "@/lib/zip"
+
+type BatchTrimPanelProps = {
+  files: File[]
+  onReset: () => void
+}
+
+type BatchItem = {
+  id: string
+  file: File
+  duration: number | null // null until the metadata has been read
+  format: InputFormat | null
+  error: string | null
+}
+
+type RuleField = "head" | "tail" | "start" | "end"
+
+const RULE_FIELDS: Record<BatchRuleKind, { field: RuleField; label: string }[]> = {
+  "trim-ends": [
+    { field: "head", label: "Drop from start" },
+    { field: "tail", label: "Drop from end" },
+  ],
+  "keep-range": [
+    { field: "start", label: "Keep from" },
+    { field: "end", label: "Keep until" },
+  ],
+}
+
+const DEFAULT_RULE_TEXT: Record<RuleField, string> = { head: "5", tail: "3", start: "0:10", end: "1:00" }
+
+// Null while any field of the selected rule isn't a valid time
+function parseRule(kind: BatchRuleKind, text: Record<RuleField, string>): BatchRule | null {
+  const [first, second] = RULE_FIELDS[kind].map(({ field }) => parseTime(text[field]))
+  if (first === null || second === null) return null
+
+  if (kind === "trim-ends") {
+    return { kind, head: first, tail: second }
+  }
+  return second > first ? { kind, start: first, end: second } : null
+}
+
+const isActive = (job: JobSnapshot | undefined) => job?.status === "queued" || job?.status === "running"
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024 ? `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+// Trims every file of a multi-file drop with one shared rule and export preset.
+// Files run one after another on the shared FFmpeg queue.
+export function BatchTrimPanel({ files, onReset }: BatchTrimPanelProps) {
+  const { queue, jobs } = useFFmpegQueue()
+  const { toast } = useToast()
+
+  const [items, setItems] = useState<BatchItem[]>(() =>
+    files.map((file, index) => ({ id: `file-${index}`, file, duration: null, format: null, error: null })),
+  )
+  const [ruleKind, setRuleKind] = useState<BatchRuleKind>("trim-ends")
+  const [ruleText, setRuleText] = useState(DEFAULT_RULE_TEXT)
+  const [trimMode, setTrimMode] = useState<TrimMode>("fast")
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(() => getDefaultExportSettings(files[0].name))
+  const [jobIds, setJobIds] = useState<Record<string, string>>({})
+  const [results, setResults] = useState<Record<string, ExportResult>>({})
+  const [isZipping, setIsZipping] = useState(false)
+
+  useEffect(() => {
+    queue.load().catch((error) => console.error("[v0] FFmpeg load error:", error))
+  }, [queue])
+
+  // Durations are read one file at a time so dozens of clips don't all decode metadata at once.
+  // FFmpeg probes the files whose codec the browser can't open.
+  useEffect(() => {
+    let cancelled = false
+
+    const probeDuration = (file: File, index: number, format: InputFormat | null) => {
+      const inputName = `probe-${index}.${getInputExtension(format)}`
+      return queue.enqueue({
+        label: `Probe ${file.name}`,
+        background: true,
+        run: async ({ ffmpeg }) => {
+          await queue.registerInput(inputName, file)
+          try {
+            return (await probeMedia(ffmpeg, getInputPath(inputName)))?.duration ?? null
+          } finally {
+            await queue.releaseInput(inputName)
+          }
+        },
+      }).result
+    }
+
+    const readDurations = async () => {
+      for (const [index, file] of files.entries()) {
+        const format = await detectMediaFormat(file).catch(() => null)
+        const url = URL.createObjectURL(file)
+        const browserDuration = await readMediaDuration(url).catch(() => null)
+        URL.revokeObjectURL(url)
+
+        const duration =
+          browserDuration !== null && Number.isFinite(browserDuration)
+            ? browserDuration
+            : await probeDuration(file, index, format).catch(() => null)
+        if (cancelled) return
+        const update = { duration, format, error: duration === null ? "Could not read this file" : null }
+        setItems((prev) => prev.map((item, itemIndex) => (itemIndex === index ? { ...item, ...update } : item)))
+      }
+    }
+
+    readDurations()
+    return () => {
+      cancelled = true
+    }
+  }, [files, queue])
+
+  const rule = parseRule(ruleKind, ruleText)
+  const getJob = (item: BatchItem) => jobs.find((job) => job.id === jobIds[item.id])
+  const isRunning = items.some((item) => isActive(getJob(item)))
+  const settledCount = items.filter((item) => getJob(item) && !isActive(getJob(item))).length
+  const finishedCount = items.filter((item) => results[item.id]).length
+  const trimmableCount = rule
+    ? items.filter((item) => item.duration !== null && resolveBatchRange(rule, item.duration)).length
+    : 0
+
+  const handleStart = () => {
+    if (!rule) return
+
+    // Every job captures the rule and settings as they are now
+    const mode = trimMode
+    const settings = exportSettings
+    const nextJobIds: Record<string, string> = {}
+    console.log(`[v0] Queueing batch trim of ${trimmableCount} file(s)...`)
+
+    for (const item of items) {
+      const range = item.duration !== null ? resolveBatchRange(rule, item.duration) : null
+      if (!range) continue
+
+      const inputName = `batch-${item.id}.${getInputExtension(item.format)}`
+      const { id } = queue.enqueue({
+        label: `Trim ${item.file.name}`,
+        run: async ({ ffmpeg, setStep }) => {
+          await queue.registerInput(inputName, item.file)
+          try {
+            return await exportRanges(ffmpeg, getInputPath(inputName), [range], { mode, settings, onStep: setStep })
+          } finally {
+            await queue.releaseInput(inputName)
+          }
+        },
+        onSuccess: (result) => setResults((prev) => ({ ...prev, [item.id]: result })),
+        onError: (error) => {
+          if (error instanceof JobCancelledError) return
+          console.error(`[v0] Batch trim failed for ${item.file.name}:`, error)
+        },
+      })
+      nextJobIds[item.id] = id
+    }
+
+    setResults({})
+    setJobIds(nextJobIds)
+  }
+
+  const handleDownloadZip = async () => {
+    const taken = new Set<string>()
+    const entries = items
+      .filter((item) => results[item.id])
+      .map((item) => ({
+        name: getBatchOutputName(item.file.name, results[item.id].extension, taken),
+        data: results[item.id].file,
+      }))
+
+    setIsZipping(true)
+    try {
+      downloadBlob(await createZip(entries), "trimmed-videos.zip")
+    } catch (error) {
+      console.error("[v0] ZIP error:", error)
+      toast({
+        title: "Failed to create ZIP",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsZipping(false)
+    }
+  }
+
+  const handleDownloadItem = (item: BatchItem) => {
+    const result = results[item.id]
+    if (result) {
+      downloadBlob(result.file, getBatchOutputName(item.file.name, result.extension, new Set()))
+    }
+  }
+
+  const handleReset = () => {
+    items.forEach((item) => {
+      const job = getJob(item)
+      if (job && isActive(job)) queue.cancel(job.id)
+    })
+    onReset()
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between gap-4 px-2">
+        <div>
+          <h3 className="text-lg font-semibold">Batch Trim</h3>
+          <p className="text-sm text-muted-foreground">
+            {items.length} files · {rule ? describeBatchRule(rule, formatClock) : "Enter a valid trim rule"}
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleReset} className="shrink-0 bg-transparent">
+          <RotateCcw className="mr-2 h-4 w-4" />
+          New Video
+        </Button>
+      </div>
+
+      <div className="grid gap-4 px-2 sm:grid-cols-3">
+        <div className="grid gap-2">
+          <Label htmlFor="batch-rule">Rule</Label>
+          <Select value={ruleKind} onValueChange={(value) => setRuleKind(value as BatchRuleKind)}>
+            <SelectTrigger id="batch-rule" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(BATCH_RULE_LABELS) as BatchRuleKind[]).map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {BATCH_RULE_LABELS[kind]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {RULE_FIELDS[ruleKind].map(({ field, label }) => (
+          <div key={field} className="grid gap-2">
+            <Label htmlFor={`batch-${field}`}>{label}</Label>
+            <Input
+              id={`batch-${field}`}
+              value={ruleText[field]}
+              placeholder="mm:ss"
+              aria-invalid={parseTime(ruleText[field]) === null}
+              onChange={(e) => setRuleText((prev) => ({ ...prev, [field]: e.target.value }))}
+              className="tabular-nums"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 px-2">
+        <div className="inline-flex rounded-lg p-1 ring-1 ring-border">
+          {TRIM_MODE_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={trimMode === option.value ? "secondary" : "ghost"}
+              onClick={() => setTrimMode(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <p className="flex-1 text-sm text-muted-foreground">
+          {TRIM_MODE_OPTIONS.find((option) => option.value === trimMode)?.hint}
+        </p>
+        <ExportDialog settings={exportSettings} sourceFileName={files[0].name} onChange={setExportSettings} />
+      </div>
+
+      <div className="flex gap-4 px-2">
+        <Button onClick={handleStart} disabled={!rule || trimmableCount === 0 || isRunning} size="lg" className="flex-1">
+          {isRunning ? (
+            <>
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Trimming {settledCount + 1} of {Object.keys(jobIds).length}...
+            </>
+          ) : (
+            <>
+              <Scissors className="mr-2 h-5 w-5" />
+              Trim {trimmableCount} {trimmableCount === 1 ? "File" : "Files"}
+            </>
+          )}
+        </Button>
+
+        {finishedCount > 0 && (
+          <Button
+            onClick={handleDownloadZip}
+            disabled={isRunning || isZipping}
+            size="lg"
+            variant="outline"
+            className="flex-1 bg-transparent"
+          >
+            {isZipping ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Archive className="mr-2 h-5 w-5" />}
+            Download ZIP ({finishedCount})
+          </Button>
+        )}
+      </div>
+
+      <ul className="divide-y rounded-lg ring-1 ring-border mx-2">
+        {items.map((item) => {
+          const job = getJob(item)
+          const range = rule && item.duration !== null ? resolveBatchRange(rule, item.duration) : null
+
+          return (
+            <li key={item.id} className="space-y-2 px-3 py-2 text-sm">
+              <div className="flex items-center gap-3">
+                {job && <JobStatusIcon status={job.status} />}
+                <span className="flex-1 truncate">{item.file.name}</span>
+                <span className="text-xs text-muted-foreground tabular-nums">
+                  {item.error ??
+                    (item.duration === null
+                      ? "Reading..."
+                      : job?.status === "running"
+                        ? `${Math.round(job.progress * 100)}%${job.eta !== null ? ` · ${formatEta(job.eta)}` : ""}`
+                        : job && job.status !== "done"
+                          ? job.status
+                          : range
+                            ? `${formatClock(item.duration)} → ${formatClock(range.end - range.start)} · ${formatFileSize(item.file.size)}`
+                            : "Too short for this rule")}
+                </span>
+                {job && isActive(job) && (
+                  <Button variant="ghost" size="icon-sm" onClick={() => queue.cancel(job.id)} aria-label="Cancel">
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+                {job && (job.status === "failed" || job.status === "cancelled") && (
+                  <Button variant="ghost" size="icon-sm" onClick={() => queue.retry(job.id)} aria-label="Retry">
+                    <RotateCw className="h-4 w-4" />
+                  </Button>
+                )}
+                {results[item.id] && (
+                  <Button variant="ghost" size="icon-sm" onClick={() => handleDownloadItem(item)} aria-label="Download">
+                    <Download className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {job?.status === "running" && <Progress value={job.progress * 100} className="h-1.5" />}
+              {job?.status === "failed" && job.error && <p className="text-xs text-destructive">{job.error}</p>}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
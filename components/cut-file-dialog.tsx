@@ -0,0 +1,146 @@
+"use client"
+
+import type React from "react"
+import { useRef } from "react"
+import { FileDown, FileUp, ListVideo } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import {
+  CUT_FILE_FORMATS,
+  buildFfmpegScript,
+  parseCutFile,
+  serializeCutJson,
+  serializeEdl,
+  type CutFileFormat,
+  type CutImportResult,
+  type CutSource,
+} from "@/lib/cut-file"
+import type { CutSegment, TimeRange } from "@/lib/cut-list"
+import { downloadBlob } from "@/lib/download"
+import type { ExportFilters, ExportSettings } from "@/lib/export-format"
+import type { TrimMode } from "@/lib/trim"
+
+type CutFileDialogProps = {
+  segments: CutSegment[]
+  keepRanges: TimeRange[]
+  source: CutSource
+  trimMode: TrimMode
+  exportSettings: ExportSettings
+  exportFilters: ExportFilters
+  disabled: boolean
+  onImport: (result: CutImportResult) => void
+}
+
+// Exports the cut list for other tools and imports one from JSON, EDL or CSV
+export function CutFileDialog({
+  segments,
+  keepRanges,
+  source,
+  trimMode,
+  exportSettings,
+  exportFilters,
+  disabled,
+  onImport,
+}: CutFileDialogProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const handleExport = (format: CutFileFormat) => {
+    const text =
+      format === "json"
+        ? serializeCutJson(segments, source)
+        : format === "edl"
+          ? serializeEdl(keepRanges, source)
+          : buildFfmpegScript(keepRanges, source, { mode: trimMode, settings: exportSettings, filters: exportFilters })
+    const { extension, mimeType } = CUT_FILE_FORMATS[format]
+
+    downloadBlob(new Blob([text], { type: mimeType }), `${source.name.replace(/\.[^.]+$/, "")}.${extension}`)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      const result = parseCutFile(await file.text(), file.name, source)
+      onImport(result)
+      toast({
+        title: "Cut list imported",
+        description: `${result.segments.length} ${result.segments.length === 1 ? "segment" : "segments"} from ${file.name}${
+          result.skipped > 0 ? `, ${result.skipped} skipped` : ""
+        }`,
+      })
+    } catch (error) {
+      console.error("[v0] Cut list import error:", error)
+      toast({
+        title: "Failed to import cut list",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <ListVideo className="mr-1 h-4 w-4" />
+          Import / Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Decision List</DialogTitle>
+          <DialogDescription>
+            Take the cut list to a desktop editor or ffmpeg, or load cut points from another tool.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Export</h4>
+          <div className="grid gap-2 sm:grid-cols-3">
+            {(Object.keys(CUT_FILE_FORMATS) as CutFileFormat[]).map((format) => (
+              <Button
+                key={format}
+                variant="outline"
+                onClick={() => handleExport(format)}
+                disabled={keepRanges.length === 0}
+              >
+                <FileDown className="mr-1 h-4 w-4" />
+                {CUT_FILE_FORMATS[format].label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Import</h4>
+          <p className="text-sm text-muted-foreground">
+            Trimflow JSON, a CMX3600 EDL, or a CSV with start and end times per row (seconds, mm:ss or timecode).
+            This replaces the current segments and can be undone.
+          </p>
+          <Button variant="outline" onClick={() => inputRef.current?.click()}>
+            <FileUp className="mr-1 h-4 w-4" />
+            Choose File
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            className="hidden"
+            accept=".json,.edl,.csv,.txt"
+            onChange={handleImport}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
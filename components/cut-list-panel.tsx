@@ -0,0 +1,118 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, Minus, SplitSquareHorizontal, Trash2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { sortSegments, type CutSegment, type SegmentKind } from "@/lib/cut-list"
+import { SPEED_PRESETS, formatSpeed } from "@/lib/speed"
+
+type CutListPanelProps = {
+  segments: CutSegment[]
+  selectedId: string | null
+  disabled: boolean
+  formatTime: (seconds: number) => string
+  onSelect: (id: string) => void
+  onAdd: (kind: SegmentKind) => void
+  onSplit: () => void
+  onToggleKind: (id: string) => void
+  onSpeedChange: (id: string, speed: number) => void
+  onDelete: (id: string) => void
+}
+
+export function CutListPanel({
+  segments,
+  selectedId,
+  disabled,
+  formatTime,
+  onSelect,
+  onAdd,
+  onSplit,
+  onToggleKind,
+  onSpeedChange,
+  onDelete,
+}: CutListPanelProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => onAdd("keep")} disabled={disabled}>
+          <Plus className="mr-1 h-4 w-4" />
+          Keep Segment
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onAdd("remove")} disabled={disabled}>
+          <Minus className="mr-1 h-4 w-4" />
+          Remove Segment
+        </Button>
+        <Button variant="outline" size="sm" onClick={onSplit} disabled={disabled}>
+          <SplitSquareHorizontal className="mr-1 h-4 w-4" />
+          Split at Playhead
+        </Button>
+      </div>
+
+      <ul className="divide-y rounded-lg ring-1 ring-border">
+        {sortSegments(segments).map((segment, index) => (
+          <li
+            key={segment.id}
+            className={cn(
+              "flex items-center gap-3 px-3 py-2 text-sm cursor-pointer",
+              segment.id === selectedId && "bg-secondary/60",
+            )}
+            onClick={() => onSelect(segment.id)}
+          >
+            <span className="w-6 text-muted-foreground tabular-nums">{index + 1}</span>
+            <button
+              type="button"
+              className={cn(
+                "rounded px-2 py-0.5 text-xs font-semibold uppercase",
+                segment.kind === "keep" ? "bg-primary/15 text-primary" : "bg-destructive/15 text-destructive",
+              )}
+              onClick={(e) => {
+                e.stopPropagation()
+                onToggleKind(segment.id)
+              }}
+              disabled={disabled}
+              title="Toggle keep/remove"
+            >
+              {segment.kind}
+            </button>
+            <span className="flex-1 tabular-nums text-muted-foreground">
+              {formatTime(segment.start)} → {formatTime(segment.end)} ({formatTime(segment.end - segment.start)})
+            </span>
+            {segment.kind === "keep" && (
+              <div onClick={(e) => e.stopPropagation()}>
+                <Select
+                  value={String(segment.speed ?? 1)}
+                  onValueChange={(value) => onSpeedChange(segment.id, Number(value))}
+                  disabled={disabled}
+                >
+                  <SelectTrigger size="sm" className="h-7 w-20 text-xs" aria-label="Segment speed">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SPEED_PRESETS.map((speed) => (
+                      <SelectItem key={speed} value={String(speed)}>
+                        {formatSpeed(speed)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={(e) => {
+                e.stopPropagation()
+                onDelete(segment.id)
+              }}
+              disabled={disabled || segments.length <= 1}
+              aria-label="Delete segment"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+"use client"
+
+import { Settings2, AlertTriangle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogClose,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  ANIMATION_FPS,
+  ANIMATION_PLAYS,
+  ANIMATION_WIDTHS,
+  AUDIO_CODEC_LABELS,
+  CONTAINERS,
+  GIF_DITHER_LABELS,
+  QUALITY_LABELS,
+  RESOLUTION_LABELS,
+  VIDEO_CODEC_LABELS,
+  describeExportSettings,
+  estimateAnimationSize,
+  formatPlays,
+  getEffectiveVideoCodec,
+  getExportWarnings,
+  withContainer,
+  type AudioCodec,
+  type ContainerFormat,
+  type ExportFilters,
+  type ExportSettings,
+  type GifDither,
+  type QualityPreset,
+  type ResolutionPreset,
+  type VideoCodec,
+} from "@/lib/export-format"
+import type { MediaInfo } from "@/lib/media-info"
+
+type ExportDialogProps = {
+  settings: ExportSettings
+  sourceFileName: string
+  mediaInfo?: MediaInfo | null // Makes the copy warnings exact once the source has been analysed
+  filters?: ExportFilters
+  // Length and full picture size of the export, for the size estimate of animated formats
+  output?: { duration: number; width: number; height: number } | null
+  onChange: (settings: ExportSettings) => void
+}
+
+type SettingSelectProps<T extends string> = {
+  id: string
+  label: string
+  value: T
+  options: Record<T, string>
+  values: T[]
+  onChange: (value: T) => void
+}
+
+function SettingSelect<T extends string>({ id, label, value, options, values, onChange }: SettingSelectProps<T>) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={(next) => onChange(next as T)}>
+        <SelectTrigger id={id} className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {values.map((option) => (
+            <SelectItem key={option} value={option}>
+              {options[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+const keysOf = <T extends string>(record: Record<T, unknown>) => Object.keys(record) as T[]
+
+// Number options as the string-keyed records SettingSelect takes
+const numberOptions = (values: number[], label: (value: number) => string) =>
+  Object.fromEntries(values.map((value) => [String(value), label(value)])) as Record<string, string>
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+export function ExportDialog({
+  settings,
+  sourceFileName,
+  mediaInfo = null,
+  filters,
+  output,
+  onChange,
+}: ExportDialogProps) {
+  const container = CONTAINERS[settings.container]
+  const { animation } = settings
+  const setAnimation = (patch: Partial<ExportSettings["animation"]>) =>
+    onChange({ ...settings, animation: { ...animation, ...patch } })
+  const estimatedSize = output ? estimateAnimationSize(settings, output.duration, output) : null
+  const warnings = getExportWarnings(settings, sourceFileName, mediaInfo, filters)
+  const containerLabels = Object.fromEntries(
+    keysOf(CONTAINERS).map((format) => [format, CONTAINERS[format].label]),
+  ) as Record<ContainerFormat, string>
+  const reencodesVideo = container.kind !== "audio" && getEffectiveVideoCodec(settings, filters) !== "copy"
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="mr-1 h-4 w-4" />
+          {describeExportSettings(settings)}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Settings</DialogTitle>
+          <DialogDescription>Choose the output format. Copy keeps the original streams and is fastest.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <SettingSelect
+            id="export-container"
+            label="Format"
+            value={settings.container}
+            options={containerLabels}
+            values={keysOf(CONTAINERS)}
+            onChange={(format) => onChange(withContainer(settings, format))}
+          />
+
+          {container.kind === "video" && (
+            <SettingSelect<VideoCodec>
+              id="export-video-codec"
+              label="Video codec"
+              value={settings.videoCodec}
+              options={VIDEO_CODEC_LABELS}
+              values={container.videoCodecs}
+              onChange={(videoCodec) => onChange({ ...settings, videoCodec })}
+            />
+          )}
+
+          {container.audioCodecs.length > 0 && (
+            <SettingSelect<AudioCodec>
+              id="export-audio-codec"
+              label="Audio codec"
+              value={settings.audioCodec}
+              options={AUDIO_CODEC_LABELS}
+              values={container.audioCodecs}
+              onChange={(audioCodec) => onChange({ ...settings, audioCodec })}
+            />
+          )}
+
+          {container.kind === "video" && (
+            <SettingSelect<ResolutionPreset>
+              id="export-resolution"
+              label="Resolution"
+              value={settings.resolution}
+              options={RESOLUTION_LABELS}
+              values={keysOf(RESOLUTION_LABELS)}
+              onChange={(resolution) => onChange({ ...settings, resolution })}
+            />
+          )}
+
+          {reencodesVideo && container.kind === "video" && (
+            <SettingSelect<QualityPreset>
+              id="export-quality"
+              label="Quality"
+              value={settings.quality}
+              options={QUALITY_LABELS}
+              values={keysOf(QUALITY_LABELS)}
+              onChange={(quality) => onChange({ ...settings, quality })}
+            />
+          )}
+
+          {container.kind === "image" && (
+            <>
+              <SettingSelect
+                id="export-animation-width"
+                label="Width"
+                value={String(animation.width ?? "source")}
+                options={{ source: "Source width", ...numberOptions(ANIMATION_WIDTHS, (width) => `${width}px`) }}
+                values={["source", ...ANIMATION_WIDTHS.map(String)]}
+                onChange={(width) => setAnimation({ width: width === "source" ? null : Number(width) })}
+              />
+              <SettingSelect
+                id="export-animation-fps"
+                label="Frame rate"
+                value={String(animation.fps)}
+                options={numberOptions(ANIMATION_FPS, (fps) => `${fps} fps`)}
+                values={ANIMATION_FPS.map(String)}
+                onChange={(fps) => setAnimation({ fps: Number(fps) })}
+              />
+              <SettingSelect
+                id="export-animation-plays"
+                label="Looping"
+                value={String(animation.plays)}
+                options={numberOptions(ANIMATION_PLAYS, formatPlays)}
+                values={ANIMATION_PLAYS.map(String)}
+                onChange={(plays) => setAnimation({ plays: Number(plays) })}
+              />
+              {settings.container === "gif" && (
+                <SettingSelect<GifDither>
+                  id="export-animation-dither"
+                  label="Dithering"
+                  value={animation.dither}
+                  options={GIF_DITHER_LABELS}
+                  values={keysOf(GIF_DITHER_LABELS)}
+                  onChange={(dither) => setAnimation({ dither })}
+                />
+              )}
+            </>
+          )}
+        </div>
+
+        {estimatedSize !== null && (
+          <p className="text-sm text-muted-foreground">
+            Estimated size: about {formatFileSize(estimatedSize)}. Fewer frames or a smaller width shrink it the most.
+          </p>
+        )}
+
+        {warnings.length > 0 && <ExportWarnings warnings={warnings} />}
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button>Done</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function ExportWarnings({ warnings }: { warnings: string[] }) {
+  return (
+    <ul className="space-y-2 rounded-lg bg-amber-500/10 p-3 text-sm text-amber-700 dark:text-amber-400">
+      {warnings.map((warning) => (
+        <li key={warning} className="flex gap-2">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+          <span>{warning}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
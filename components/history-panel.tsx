@@ -0,0 +1,63 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Redo2, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { History } from "@/lib/history"
+
+type HistoryPanelProps = {
+  history: History<unknown>
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onJump: (index: number) => void
+}
+
+const formatEntryTime = (time: number) =>
+  new Date(time).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit", second: "2-digit" })
+
+export function HistoryPanel({ history, canUndo, canRedo, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  const listRef = useRef<HTMLUListElement>(null)
+
+  // Keep the current entry in view without scrolling the page
+  useEffect(() => {
+    const list = listRef.current
+    const current = list?.children[history.index] as HTMLElement | undefined
+    if (list && current) {
+      list.scrollTop = current.offsetTop - list.clientHeight / 2
+    }
+  }, [history.index, history.entries.length])
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <h4 className="flex-1 text-sm font-semibold">History</h4>
+        <Button variant="outline" size="icon-sm" onClick={onUndo} disabled={!canUndo} aria-label="Undo">
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon-sm" onClick={onRedo} disabled={!canRedo} aria-label="Redo">
+          <Redo2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ul ref={listRef} className="relative max-h-48 divide-y overflow-y-auto rounded-lg ring-1 ring-border">
+        {history.entries.map((entry, index) => (
+          <li
+            key={`${entry.time}-${index}`}
+            className={cn(
+              "flex cursor-pointer items-center gap-3 px-3 py-1.5 text-sm",
+              index === history.index && "bg-secondary/60 font-medium",
+              index > history.index && "text-muted-foreground line-through decoration-muted-foreground/50",
+            )}
+            onClick={() => onJump(index)}
+          >
+            <span className="flex-1 truncate">{entry.label}</span>
+            <span className="text-xs text-muted-foreground tabular-nums">{formatEntryTime(entry.time)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { X, RotateCw, CheckCircle2, AlertCircle, Loader2, Clock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import type { JobSnapshot } from "@/lib/ffmpeg-queue"
+
+type JobQueuePanelProps = {
+  jobs: JobSnapshot[]
+  onCancel: (id: string) => void
+  onRetry: (id: string) => void
+  onClearFinished: () => void
+}
+
+export const formatEta = (seconds: number) => {
+  if (seconds < 60) return `${Math.ceil(seconds)}s left`
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.ceil(seconds % 60)
+  return `${mins}m ${secs.toString().padStart(2, "0")}s left`
+}
+
+export function JobStatusIcon({ status }: { status: JobSnapshot["status"] }) {
+  switch (status) {
+    case "queued":
+      return <Clock className="h-4 w-4 text-muted-foreground" />
+    case "running":
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />
+    case "done":
+      return <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-500" />
+    default:
+      return <AlertCircle className="h-4 w-4 text-destructive" />
+  }
+}
+
+export function JobQueuePanel({ jobs, onCancel, onRetry, onClearFinished }: JobQueuePanelProps) {
+  const visibleJobs = jobs.filter((job) => !job.background)
+  if (visibleJobs.length === 0) return null
+
+  const hasFinished = visibleJobs.some((job) => job.status !== "queued" && job.status !== "running")
+
+  return (
+    <div className="space-y-2 px-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold">Jobs</h4>
+        {hasFinished && (
+          <Button variant="ghost" size="sm" onClick={onClearFinished}>
+            Clear finished
+          </Button>
+        )}
+      </div>
+
+      <ul className="divide-y rounded-lg ring-1 ring-border">
+        {visibleJobs.map((job) => (
+          <li key={job.id} className="space-y-2 px-3 py-2 text-sm">
+            <div className="flex items-center gap-3">
+              <JobStatusIcon status={job.status} />
+              <span className="flex-1 truncate">{job.label}</span>
+              <span className="text-xs text-muted-foreground tabular-nums">
+                {job.status === "running"
+                  ? `${Math.round(job.progress * 100)}%${job.eta !== null ? ` · ${formatEta(job.eta)}` : ""}`
+                  : job.status}
+              </span>
+              {(job.status === "queued" || job.status === "running") && (
+                <Button variant="ghost" size="icon-sm" onClick={() => onCancel(job.id)} aria-label="Cancel job">
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+              {(job.status === "failed" || job.status === "cancelled") && (
+                <Button variant="ghost" size="icon-sm" onClick={() => onRetry(job.id)} aria-label="Retry job">
+                  <RotateCw className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            {job.status === "running" && <Progress value={job.progress * 100} className="h-1.5" />}
+            {job.status === "failed" && job.error && <p className="text-xs text-destructive">{job.error}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
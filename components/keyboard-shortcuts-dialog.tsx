@@ -0,0 +1,101 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import {
+  ACTION_LABELS,
+  DEFAULT_KEY_BINDINGS,
+  eventToCombo,
+  formatCombo,
+  rebindAction,
+  type EditorAction,
+  type KeyBindings,
+} from "@/lib/keybindings"
+
+type KeyboardShortcutsDialogProps = {
+  open: boolean
+  bindings: KeyBindings
+  onOpenChange: (open: boolean) => void
+  onChange: (bindings: KeyBindings) => void
+}
+
+// Lists every binding; clicking a key captures the next key press as its new combo
+export function KeyboardShortcutsDialog({ open, bindings, onOpenChange, onChange }: KeyboardShortcutsDialogProps) {
+  const [capturing, setCapturing] = useState<EditorAction | null>(null)
+
+  useEffect(() => {
+    if (!capturing) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      if (e.key === "Escape") {
+        setCapturing(null)
+        return
+      }
+      const combo = eventToCombo(e)
+      if (!combo) return
+      onChange(rebindAction(bindings, capturing, combo))
+      setCapturing(null)
+    }
+
+    // Capture phase so the dialog's own Escape handling doesn't close it mid-capture
+    window.addEventListener("keydown", handleKeyDown, true)
+    return () => window.removeEventListener("keydown", handleKeyDown, true)
+  }, [capturing, bindings, onChange])
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setCapturing(null)
+        onOpenChange(next)
+      }}
+    >
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>Click a key to remap it, then press the new key. Escape cancels.</DialogDescription>
+        </DialogHeader>
+
+        <ul className="max-h-[60vh] divide-y overflow-y-auto rounded-lg ring-1 ring-border">
+          {(Object.keys(ACTION_LABELS) as EditorAction[]).map((action) => (
+            <li key={action} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+              <span>{ACTION_LABELS[action]}</span>
+              <button
+                type="button"
+                className={cn(
+                  "min-w-24 rounded-md border px-2 py-1 font-mono text-xs transition-colors",
+                  capturing === action ? "border-primary bg-primary/10 text-primary" : "bg-secondary/60 hover:border-primary/50",
+                )}
+                onClick={() => setCapturing(action)}
+              >
+                {capturing === action
+                  ? "Press a key…"
+                  : bindings[action].length > 0
+                    ? bindings[action].map(formatCombo).join(", ")
+                    : "Unassigned"}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onChange(DEFAULT_KEY_BINDINGS)}>
+            Reset to Defaults
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
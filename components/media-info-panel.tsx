@@ -0,0 +1,141 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, Info, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { formatBitrate, type MediaInfo, type StreamDetails } from "@/lib/media-info"
+
+type MediaInfoPanelProps = {
+  info: MediaInfo | null
+  isAnalyzing: boolean
+  formatTime: (seconds: number) => string
+}
+
+const STREAM_TYPE_LABELS: Record<StreamDetails["type"], string> = {
+  video: "Video",
+  audio: "Audio",
+  subtitle: "Subtitles",
+  data: "Data",
+  attachment: "Attachment",
+}
+
+function describeStream(stream: StreamDetails): string[] {
+  const parts = [stream.profile ? `${stream.codec} (${stream.profile})` : stream.codec]
+
+  if (stream.type === "video") {
+    if (stream.isCoverArt) parts.push("cover art")
+    if (stream.width > 0) parts.push(`${stream.width}×${stream.height}`)
+    if (stream.frameRate) parts.push(`${stream.frameRate} fps`)
+    if (stream.pixelFormat) parts.push(stream.pixelFormat)
+    if (stream.rotation !== 0) parts.push(`rotated ${stream.rotation}°`)
+  } else if (stream.type === "audio") {
+    if (stream.sampleRate) parts.push(`${stream.sampleRate / 1000} kHz`)
+    if (stream.channelLayout) {
+      parts.push(stream.channels ? `${stream.channelLayout} (${stream.channels} ch)` : stream.channelLayout)
+    }
+  }
+
+  if (stream.bitrate) parts.push(formatBitrate(stream.bitrate))
+  if (stream.language) parts.push(stream.language)
+  if (stream.title) parts.push(`"${stream.title}"`)
+  return parts
+}
+
+// Average keyframe spacing, which is how far a fast (stream copy) cut can move
+const describeKeyframes = (keyframes: number[]) => {
+  if (keyframes.length < 2) return `${keyframes.length}`
+  const interval = (keyframes[keyframes.length - 1] - keyframes[0]) / (keyframes.length - 1)
+  return `${keyframes.length}, about every ${interval.toFixed(2)}s`
+}
+
+// Collapsible summary of the source: container, streams, keyframes and chapters
+export function MediaInfoPanel({ info, isAnalyzing, formatTime }: MediaInfoPanelProps) {
+  const [open, setOpen] = useState(false)
+  const hasVideo = info?.streams.some((stream) => stream.type === "video" && !stream.isCoverArt)
+
+  const rows: [string, string][] = info
+    ? [
+        ["Container", info.container],
+        ["Duration", info.duration !== null ? formatTime(info.duration) : "Unknown"],
+        ["Overall bitrate", formatBitrate(info.bitrate)],
+        ...(info.startTime !== 0 ? [["Start time", `${info.startTime.toFixed(3)}s`] as [string, string]] : []),
+        ...(hasVideo
+          ? [["Keyframes", info.keyframes ? describeKeyframes(info.keyframes) : "Analyzing..."] as [string, string]]
+          : []),
+        ...Object.entries(info.tags),
+      ]
+    : []
+
+  return (
+    <div className="rounded-lg ring-1 ring-border">
+      <Button
+        variant="ghost"
+        className="w-full justify-start gap-2 px-3"
+        onClick={() => setOpen((current) => !current)}
+        aria-expanded={open}
+      >
+        <Info className="h-4 w-4" />
+        <span className="flex-1 text-left text-sm font-semibold">Media Info</span>
+        {isAnalyzing && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+      </Button>
+
+      {open && (
+        <div className="space-y-4 border-t px-3 py-3 text-sm">
+          {!info ? (
+            <p className="text-muted-foreground">
+              {isAnalyzing ? "Analyzing the file..." : "No stream information is available for this file."}
+            </p>
+          ) : (
+            <>
+              <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1">
+                {rows.map(([label, value]) => (
+                  <div key={label} className="contents">
+                    <dt className="text-muted-foreground">{label}</dt>
+                    <dd className="truncate" title={value}>
+                      {value}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+
+              <div className="space-y-1">
+                <h5 className="font-semibold">Streams</h5>
+                <ul className="space-y-1">
+                  {info.streams.map((stream) => (
+                    <li key={stream.index} className="flex gap-2">
+                      <span className="w-24 shrink-0 text-muted-foreground">
+                        #{stream.index} {STREAM_TYPE_LABELS[stream.type]}
+                      </span>
+                      <span>
+                        {describeStream(stream).join(" · ")}
+                        {stream.isDefault && <span className="text-muted-foreground"> · default</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {info.chapters.length > 0 && (
+                <div className="space-y-1">
+                  <h5 className="font-semibold">Chapters</h5>
+                  <ol className="space-y-1">
+                    {info.chapters.map((chapter, index) => (
+                      <li key={`${chapter.start}-${index}`} className="flex gap-2">
+                        <span className="shrink-0 text-muted-foreground tabular-nums">
+                          {formatTime(chapter.start)} – {formatTime(chapter.end)}
+                        </span>
+                        <span className="truncate">{chapter.title ?? `Chapter ${index + 1}`}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
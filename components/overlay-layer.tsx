@@ -0,0 +1,123 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { cn } from "@/lib/utils"
+import {
+  OVERLAY_FONTS,
+  WATERMARK_MARGIN,
+  isTextVisible,
+  type OverlaySettings,
+  type TextOverlay,
+} from "@/lib/overlays"
+
+type OverlayLayerProps = {
+  settings: OverlaySettings
+  time: number | null // output time under the playhead; null between kept ranges
+  disabled: boolean
+  onPreview: (settings: OverlaySettings) => void
+  onCommit: (label: string) => void
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+// The texts and watermark over the preview, laid out on the exported frame. Sizes use
+// container units, so they scale with the frame like the drawtext expressions do.
+// Visible texts can be dragged into place.
+export function OverlayLayer({ settings, time, disabled, onPreview, onCommit }: OverlayLayerProps) {
+  const layerRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ x: number; y: number; overlay: TextOverlay } | null>(null)
+  const [watermarkUrl, setWatermarkUrl] = useState<string | null>(null)
+  const { watermark } = settings
+
+  useEffect(() => {
+    if (!watermark) {
+      setWatermarkUrl(null)
+      return
+    }
+    const url = URL.createObjectURL(watermark.file)
+    setWatermarkUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [watermark?.id])
+
+  const toLayerPoint = (clientX: number, clientY: number) => {
+    const rect = layerRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0 || rect.height === 0) return { x: 0, y: 0 }
+    return { x: (clientX - rect.left) / rect.width, y: (clientY - rect.top) / rect.height }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, overlay: TextOverlay) => {
+    if (disabled) return
+    e.preventDefault()
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragRef.current = { ...toLayerPoint(e.clientX, e.clientY), overlay }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+
+    const point = toLayerPoint(e.clientX, e.clientY)
+    const x = clamp(drag.overlay.x + point.x - drag.x)
+    const y = clamp(drag.overlay.y + point.y - drag.y)
+    onPreview({
+      ...settings,
+      texts: settings.texts.map((overlay) => (overlay.id === drag.overlay.id ? { ...overlay, x, y } : overlay)),
+    })
+  }
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return
+    dragRef.current = null
+    onCommit("Move text")
+  }
+
+  const margin = `${WATERMARK_MARGIN * 100}cqw`
+
+  return (
+    <div ref={layerRef} className="absolute inset-0 overflow-hidden">
+      {time !== null &&
+        settings.texts
+          .filter((overlay) => overlay.text.trim() !== "" && isTextVisible(overlay, time))
+          .map((overlay) => (
+            <div
+              key={overlay.id}
+              className={cn(
+                "absolute whitespace-pre leading-none select-none",
+                !disabled && "pointer-events-auto cursor-move touch-none",
+              )}
+              style={{
+                left: `${overlay.x * 100}%`,
+                top: `${overlay.y * 100}%`,
+                transform: "translate(-50%, -50%)",
+                color: overlay.color,
+                fontFamily: `'${OVERLAY_FONTS[overlay.font].family}'`,
+                fontWeight: OVERLAY_FONTS[overlay.font].weight,
+                fontSize: `${overlay.size * 100}cqh`,
+              }}
+              onPointerDown={(e) => handlePointerDown(e, overlay)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              {overlay.text}
+            </div>
+          ))}
+
+      {watermark && watermarkUrl && (
+        <img
+          src={watermarkUrl}
+          alt=""
+          className="absolute h-auto"
+          style={{
+            width: `${watermark.width * 100}%`,
+            opacity: watermark.opacity,
+            ...(watermark.corner.startsWith("top") ? { top: margin } : { bottom: margin }),
+            ...(watermark.corner.endsWith("left") ? { left: margin } : { right: margin }),
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,291 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { ChevronDown, ImageIcon, Plus, Trash2, Type, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { RangeControl } from "@/components/range-control"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import {
+  OVERLAY_FONTS,
+  TEXT_SIZE_RANGE,
+  WATERMARK_CORNER_LABELS,
+  WATERMARK_WIDTH_RANGE,
+  createTextOverlay,
+  createWatermark,
+  describeOverlays,
+  type OverlayFont,
+  type OverlaySettings,
+  type TextOverlay,
+  type Watermark,
+  type WatermarkCorner,
+} from "@/lib/overlays"
+
+type OverlayPanelProps = {
+  settings: OverlaySettings
+  time: number // output time under the playhead, where new texts start
+  outputDuration: number
+  disabled: boolean
+  formatTime: (seconds: number) => string
+  onChange: (label: string, settings: OverlaySettings) => void
+  // Typing, colour picking and slider gestures preview and land in the history as one edit
+  onPreview: (settings: OverlaySettings) => void
+  onCommit: (label: string) => void
+}
+
+const WATERMARK_TYPES = ["image/png", "image/jpeg", "image/webp"]
+
+// How long a new text stays on screen
+const DEFAULT_TEXT_DURATION = 3
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`
+
+// Collapsible overlay settings: text boxes with their timing, and an image watermark
+export function OverlayPanel({
+  settings,
+  time,
+  outputDuration,
+  disabled,
+  formatTime,
+  onChange,
+  onPreview,
+  onCommit,
+}: OverlayPanelProps) {
+  const [open, setOpen] = useState(false)
+  const { toast } = useToast()
+  const { texts, watermark } = settings
+  const summary = describeOverlays(settings)
+
+  const withText = (id: string, patch: Partial<TextOverlay>): OverlaySettings => ({
+    ...settings,
+    texts: texts.map((overlay) => (overlay.id === id ? { ...overlay, ...patch } : overlay)),
+  })
+
+  const withWatermark = (patch: Partial<Watermark>): OverlaySettings => ({
+    ...settings,
+    watermark: watermark ? { ...watermark, ...patch } : null,
+  })
+
+  const handleAddText = () => {
+    const start = Math.min(time, Math.max(0, outputDuration - DEFAULT_TEXT_DURATION))
+    const end = Math.min(outputDuration, start + DEFAULT_TEXT_DURATION)
+    onChange("Add text", { ...settings, texts: [...texts, createTextOverlay(start, end)] })
+  }
+
+  const handleWatermarkSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    if (!WATERMARK_TYPES.includes(file.type)) {
+      toast({
+        title: "Invalid file format",
+        description: `${file.name} is not a PNG, JPEG or WebP image`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    onChange("Add watermark", { ...settings, watermark: createWatermark(file) })
+  }
+
+  return (
+    <div className="rounded-lg ring-1 ring-border">
+      <Button
+        variant="ghost"
+        className="w-full justify-start gap-2 px-3"
+        onClick={() => setOpen((current) => !current)}
+        aria-expanded={open}
+      >
+        <Type className="h-4 w-4" />
+        <span className="flex-1 text-left text-sm font-semibold">Overlays</span>
+        {summary && <span className="text-sm text-muted-foreground">{summary}</span>}
+        <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+      </Button>
+
+      {open && (
+        <div className="space-y-5 border-t px-3 py-4">
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <h5 className="flex-1 text-sm font-semibold">Text</h5>
+              <Button variant="outline" size="sm" onClick={handleAddText} disabled={disabled || outputDuration <= 0}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add text
+              </Button>
+            </div>
+
+            {texts.map((overlay, index) => (
+              <div key={overlay.id} className="space-y-3 rounded-md p-3 ring-1 ring-border">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={overlay.text}
+                    onChange={(e) => onPreview(withText(overlay.id, { text: e.target.value }))}
+                    onBlur={() => onCommit("Edit text")}
+                    disabled={disabled}
+                    aria-label={`Text ${index + 1}`}
+                    className="h-8"
+                  />
+                  <input
+                    type="color"
+                    value={overlay.color}
+                    onChange={(e) => onPreview(withText(overlay.id, { color: e.target.value }))}
+                    onBlur={() => onCommit("Change text color")}
+                    disabled={disabled}
+                    aria-label="Text color"
+                    className="h-8 w-10 shrink-0 cursor-pointer rounded-md bg-transparent disabled:opacity-50"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() =>
+                      onChange("Remove text", { ...settings, texts: texts.filter((other) => other.id !== overlay.id) })
+                    }
+                    disabled={disabled}
+                    aria-label="Remove text"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="grid items-end gap-4 sm:grid-cols-3">
+                  <Select
+                    value={overlay.font}
+                    onValueChange={(font) => onChange("Change font", withText(overlay.id, { font: font as OverlayFont }))}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger size="sm" className="w-full" aria-label="Font">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(OVERLAY_FONTS) as OverlayFont[]).map((font) => (
+                        <SelectItem key={font} value={font}>
+                          {OVERLAY_FONTS[font].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <RangeControl
+                    id={`overlay-size-${overlay.id}`}
+                    label="Size"
+                    value={overlay.size}
+                    min={TEXT_SIZE_RANGE.min}
+                    max={TEXT_SIZE_RANGE.max}
+                    step={0.005}
+                    disabled={disabled}
+                    format={formatPercent}
+                    onPreview={(size) => onPreview(withText(overlay.id, { size }))}
+                    onCommit={() => onCommit("Change text size")}
+                  />
+                  <div className="flex items-center gap-1 text-sm">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onChange("Set text start", withText(overlay.id, { start: Math.min(time, overlay.end) }))}
+                      disabled={disabled}
+                      title="Start at the playhead"
+                    >
+                      {formatTime(overlay.start)}
+                    </Button>
+                    <span className="text-muted-foreground">→</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onChange("Set text end", withText(overlay.id, { end: Math.max(time, overlay.start) }))}
+                      disabled={disabled}
+                      title="End at the playhead"
+                    >
+                      {formatTime(overlay.end)}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <h5 className="text-sm font-semibold">Watermark</h5>
+              {watermark ? (
+                <>
+                  <span className="flex min-w-0 flex-1 items-center gap-1 text-sm text-muted-foreground">
+                    <ImageIcon className="h-3.5 w-3.5 shrink-0" />
+                    <span className="truncate">{watermark.name}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => onChange("Remove watermark", { ...settings, watermark: null })}
+                    disabled={disabled}
+                    aria-label="Remove watermark"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <Button asChild variant="outline" size="sm" disabled={disabled}>
+                  <label className="cursor-pointer">
+                    <ImageIcon className="mr-1 h-4 w-4" />
+                    Add image...
+                    <input type="file" className="hidden" accept={WATERMARK_TYPES.join(",")} onChange={handleWatermarkSelect} />
+                  </label>
+                </Button>
+              )}
+            </div>
+
+            {watermark && (
+              <div className="grid items-end gap-4 sm:grid-cols-3">
+                <Select
+                  value={watermark.corner}
+                  onValueChange={(corner) => onChange("Move watermark", withWatermark({ corner: corner as WatermarkCorner }))}
+                  disabled={disabled}
+                >
+                  <SelectTrigger size="sm" className="w-full" aria-label="Watermark corner">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(WATERMARK_CORNER_LABELS) as WatermarkCorner[]).map((corner) => (
+                      <SelectItem key={corner} value={corner}>
+                        {WATERMARK_CORNER_LABELS[corner]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <RangeControl
+                  id="overlay-watermark-width"
+                  label="Width"
+                  value={watermark.width}
+                  min={WATERMARK_WIDTH_RANGE.min}
+                  max={WATERMARK_WIDTH_RANGE.max}
+                  step={0.01}
+                  disabled={disabled}
+                  format={formatPercent}
+                  onPreview={(width) => onPreview(withWatermark({ width }))}
+                  onCommit={() => onCommit("Resize watermark")}
+                />
+                <RangeControl
+                  id="overlay-watermark-opacity"
+                  label="Opacity"
+                  value={watermark.opacity}
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  disabled={disabled}
+                  format={formatPercent}
+                  onPreview={(opacity) => onPreview(withWatermark({ opacity }))}
+                  onCommit={() => onCommit("Change watermark opacity")}
+                />
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Drag texts on the preview to place them. Times are in the exported clip, after cuts and speed changes.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+
+type RangeControlProps = {
+  id: string
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  disabled: boolean
+  format: (value: number) => string
+  onPreview: (value: number) => void
+  onCommit: () => void
+}
+
+// Labelled slider whose drag previews every step and is committed once when it ends
+export function RangeControl({ id, label, value, min, max, step, disabled, format, onPreview, onCommit }: RangeControlProps) {
+  return (
+    <div className="grid gap-1.5">
+      <div className="flex items-center justify-between text-sm">
+        <Label htmlFor={id}>{label}</Label>
+        <span className="text-muted-foreground tabular-nums">{format(value)}</span>
+      </div>
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onPreview(Number(e.target.value))}
+        onPointerUp={onCommit}
+        onKeyUp={onCommit}
+        onBlur={onCommit}
+        className="w-full accent-primary disabled:opacity-50"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { FileVideo, History, Loader2, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import type { Project } from "@/lib/project"
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["day", 86_400_000],
+  ["hour", 3_600_000],
+  ["minute", 60_000],
+]
+
+const formatEditedAt = (timestamp: number) => {
+  const elapsed = timestamp - Date.now()
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" })
+  for (const [unit, ms] of RELATIVE_TIME_UNITS) {
+    if (Math.abs(elapsed) >= ms) return format.format(Math.round(elapsed / ms), unit)
+  }
+  return "just now"
+}
+
+const describeProject = (project: Project) => {
+  const segments = project.edits?.segments.length ?? 0
+  return `${segments} ${segments === 1 ? "segment" : "segments"} · edited ${formatEditedAt(project.updatedAt)}`
+}
+
+function ProjectThumbnail({ project }: { project: Project }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!project.thumbnail) return
+    const objectUrl = URL.createObjectURL(project.thumbnail)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [project.thumbnail])
+
+  return (
+    <div className="flex aspect-video w-full items-center justify-center overflow-hidden rounded-md bg-secondary">
+      {url ? (
+        <img src={url} alt="" className="h-full w-full object-cover" />
+      ) : (
+        <FileVideo className="h-8 w-8 text-muted-foreground" />
+      )}
+    </div>
+  )
+}
+
+type ResumeSessionPromptProps = {
+  project: Project
+  isOpening: boolean
+  onResume: () => void
+  onDismiss: () => void
+}
+
+export function ResumeSessionPrompt({ project, isOpening, onResume, onDismiss }: ResumeSessionPromptProps) {
+  return (
+    <Card className="flex flex-row items-center gap-4 p-4">
+      <div className="w-24 shrink-0">
+        <ProjectThumbnail project={project} />
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="font-semibold">Resume last session?</p>
+        <p className="truncate text-sm text-muted-foreground">
+          {project.name} · {describeProject(project)}
+        </p>
+      </div>
+      <Button onClick={onResume} disabled={isOpening}>
+        {isOpening ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <History className="mr-2 h-4 w-4" />}
+        Resume
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onDismiss} aria-label="Dismiss">
+        <X className="h-4 w-4" />
+      </Button>
+    </Card>
+  )
+}
+
+type RecentProjectsListProps = {
+  projects: Project[]
+  openingId: string | null
+  onOpen: (project: Project) => void
+  onDelete: (project: Project) => void
+}
+
+export function RecentProjectsList({ projects, openingId, onOpen, onDelete }: RecentProjectsListProps) {
+  if (projects.length === 0) return null
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold">Recent Projects</h3>
+      <ul className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {projects.map((project) => (
+          <li key={project.id} className="group relative">
+            <button
+              type="button"
+              className="w-full space-y-2 rounded-lg p-2 text-left transition-colors hover:bg-secondary/60 disabled:opacity-60"
+              onClick={() => onOpen(project)}
+              disabled={openingId !== null}
+            >
+              <ProjectThumbnail project={project} />
+              <p className="truncate text-sm font-medium">{project.name}</p>
+              <p className="truncate text-xs text-muted-foreground">{describeProject(project)}</p>
+            </button>
+            {openingId === project.id && (
+              <Loader2 className="absolute top-1/3 left-1/2 h-6 w-6 -translate-x-1/2 animate-spin text-white" />
+            )}
+            <Button
+              variant="secondary"
+              size="icon-sm"
+              className="absolute top-3 right-3 opacity-0 transition-opacity group-hover:opacity-100"
+              onClick={() => onDelete(project)}
+              aria-label={`Delete ${project.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
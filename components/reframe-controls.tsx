@@ -0,0 +1,183 @@
+"use client"
+
+import { Crop, FlipHorizontal2, FlipVertical2, RotateCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  ASPECT_PRESETS,
+  DEFAULT_REFRAME,
+  PAD_FILL_LABELS,
+  describeReframe,
+  getRotatedSize,
+  isReframed,
+  rotateClockwise,
+  withAspect,
+  withRotation,
+  type AspectPreset,
+  type FitMode,
+  type PadFill,
+  type ReframeSettings,
+} from "@/lib/reframe"
+
+type ReframeControlsProps = {
+  settings: ReframeSettings
+  frameSize: { width: number; height: number } | null
+  editing: boolean
+  disabled: boolean
+  onEditingChange: (editing: boolean) => void
+  onChange: (label: string, settings: ReframeSettings) => void
+}
+
+const FIT_LABELS: Record<FitMode, string> = {
+  crop: "Crop to fill",
+  pad: "Pad to fit",
+}
+
+// Toolbar for rotation, flips, crop editing and the output aspect ratio
+export function ReframeControls({
+  settings,
+  frameSize,
+  editing,
+  disabled,
+  onEditingChange,
+  onChange,
+}: ReframeControlsProps) {
+  // Aspect presets are fitted to the frame as it looks after rotation
+  const aspectAfter = (rotation: ReframeSettings["rotation"]) => {
+    if (!frameSize || frameSize.height === 0) return 16 / 9
+    const rotated = getRotatedSize(frameSize.width, frameSize.height, rotation)
+    return rotated.width / rotated.height
+  }
+  const description = describeReframe(settings)
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button
+        variant={editing ? "secondary" : "outline"}
+        size="sm"
+        onClick={() => onEditingChange(!editing)}
+        disabled={disabled}
+        aria-pressed={editing}
+      >
+        <Crop className="mr-1 h-4 w-4" />
+        {editing ? "Done Cropping" : "Crop"}
+      </Button>
+
+      <Select
+        value={settings.aspect}
+        onValueChange={(aspect) =>
+          onChange(`Set aspect ${aspect}`, withAspect(settings, aspect as AspectPreset, aspectAfter(settings.rotation)))
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" aria-label="Aspect ratio">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(ASPECT_PRESETS) as AspectPreset[]).map((aspect) => (
+            <SelectItem key={aspect} value={aspect}>
+              {ASPECT_PRESETS[aspect].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {settings.aspect !== "free" && (
+        <Select
+          value={settings.fit}
+          onValueChange={(fit) =>
+            onChange(
+              fit === "pad" ? "Pad to aspect" : "Crop to aspect",
+              withAspect({ ...settings, fit: fit as FitMode }, settings.aspect, aspectAfter(settings.rotation)),
+            )
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger size="sm" aria-label="Fit">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(FIT_LABELS) as FitMode[]).map((fit) => (
+              <SelectItem key={fit} value={fit}>
+                {FIT_LABELS[fit]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {settings.aspect !== "free" && settings.fit === "pad" && (
+        <Select
+          value={settings.padFill}
+          onValueChange={(padFill) => onChange("Change padding", { ...settings, padFill: padFill as PadFill })}
+          disabled={disabled}
+        >
+          <SelectTrigger size="sm" aria-label="Padding">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(PAD_FILL_LABELS) as PadFill[]).map((padFill) => (
+              <SelectItem key={padFill} value={padFill}>
+                {PAD_FILL_LABELS[padFill]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="inline-flex rounded-lg p-0.5 ring-1 ring-border">
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => {
+            const rotation = rotateClockwise(settings.rotation)
+            onChange("Rotate 90°", withRotation(settings, rotation, aspectAfter(rotation)))
+          }}
+          disabled={disabled}
+          aria-label="Rotate 90° clockwise"
+          title="Rotate 90° clockwise"
+        >
+          <RotateCw className="h-4 w-4" />
+        </Button>
+        <Button
+          variant={settings.flipH ? "secondary" : "ghost"}
+          size="icon-sm"
+          onClick={() => onChange("Flip horizontally", { ...settings, flipH: !settings.flipH })}
+          disabled={disabled}
+          aria-pressed={settings.flipH}
+          aria-label="Flip horizontally"
+          title="Flip horizontally"
+        >
+          <FlipHorizontal2 className="h-4 w-4" />
+        </Button>
+        <Button
+          variant={settings.flipV ? "secondary" : "ghost"}
+          size="icon-sm"
+          onClick={() => onChange("Flip vertically", { ...settings, flipV: !settings.flipV })}
+          disabled={disabled}
+          aria-pressed={settings.flipV}
+          aria-label="Flip vertically"
+          title="Flip vertically"
+        >
+          <FlipVertical2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isReframed(settings) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            onEditingChange(false)
+            onChange("Reset framing", DEFAULT_REFRAME)
+          }}
+          disabled={disabled}
+        >
+          Reset
+        </Button>
+      )}
+
+      {description && <span className="text-sm text-muted-foreground">{description}</span>}
+    </div>
+  )
+}
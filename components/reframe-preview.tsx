@@ -0,0 +1,178 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { cn } from "@/lib/utils"
+import {
+  ASPECT_PRESETS,
+  getOutputFrame,
+  getPreviewLayout,
+  getRotatedSize,
+  isFullFrame,
+  moveCrop,
+  resizeCrop,
+  type CropHandle,
+  type CropRect,
+  type ReframeSettings,
+} from "@/lib/reframe"
+
+type ReframePreviewProps = {
+  settings: ReframeSettings
+  frameSize: { width: number; height: number } | null // null until metadata has loaded, and for audio
+  editing: boolean
+  onCropPreview: (crop: CropRect) => void
+  onCropCommit: () => void
+  overlay?: React.ReactNode // laid over the exported frame, including any padding
+  children: React.ReactNode
+}
+
+const HANDLES: { handle: CropHandle; className: string }[] = [
+  { handle: "nw", className: "-left-1.5 -top-1.5 cursor-nwse-resize" },
+  { handle: "ne", className: "-right-1.5 -top-1.5 cursor-nesw-resize" },
+  { handle: "sw", className: "-left-1.5 -bottom-1.5 cursor-nesw-resize" },
+  { handle: "se", className: "-right-1.5 -bottom-1.5 cursor-nwse-resize" },
+]
+
+// Shows the video rotated and flipped as it will be exported, with the crop box on top.
+// Outside of crop editing the box only dims what will be cut away.
+export function ReframePreview({
+  settings,
+  frameSize,
+  editing,
+  onCropPreview,
+  onCropCommit,
+  overlay,
+  children,
+}: ReframePreviewProps) {
+  const boxRef = useRef<HTMLDivElement>(null)
+  const frameRef = useRef<HTMLDivElement>(null)
+  const cropRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ mode: "move" | CropHandle; x: number; y: number; crop: CropRect } | null>(null)
+  const [boxSize, setBoxSize] = useState({ width: 0, height: 0 })
+
+  useEffect(() => {
+    const element = boxRef.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) =>
+      setBoxSize({ width: entry.contentRect.width, height: entry.contentRect.height }),
+    )
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  const layout =
+    frameSize && frameSize.width > 0 && boxSize.width > 0 ? getPreviewLayout(boxSize, frameSize, settings.rotation) : null
+  const rotated = frameSize ? getRotatedSize(frameSize.width, frameSize.height, settings.rotation) : null
+  const frameAspect = rotated ? rotated.width / rotated.height : 1
+  const lockedRatio = settings.fit === "crop" ? ASPECT_PRESETS[settings.aspect].ratio : null
+  const { crop } = settings
+  const output = getOutputFrame(settings, frameAspect)
+
+  const toFramePoint = (clientX: number, clientY: number) => {
+    const rect = frameRef.current?.getBoundingClientRect()
+    if (!rect) return { x: 0, y: 0 }
+    return { x: (clientX - rect.left) / rect.width, y: (clientY - rect.top) / rect.height }
+  }
+
+  const startDrag = (e: React.PointerEvent, mode: "move" | CropHandle) => {
+    e.preventDefault()
+    e.stopPropagation()
+    cropRef.current?.setPointerCapture(e.pointerId)
+    dragRef.current = { mode, ...toFramePoint(e.clientX, e.clientY), crop }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+
+    const point = toFramePoint(e.clientX, e.clientY)
+    // The crop lands in the history as one step when the drag ends
+    onCropPreview(
+      drag.mode === "move"
+        ? moveCrop(drag.crop, point.x - drag.x, point.y - drag.y)
+        : resizeCrop(drag.crop, drag.mode, point.x, point.y, lockedRatio, frameAspect),
+    )
+  }
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return
+    dragRef.current = null
+    onCropCommit()
+  }
+
+  return (
+    <div ref={boxRef} className="absolute inset-0">
+      <div
+        className="absolute"
+        style={
+          layout
+            ? {
+                left: "50%",
+                top: "50%",
+                width: layout.video.width,
+                height: layout.video.height,
+                // Rotate first, then flip on screen, in the same order as the export filters
+                transform: `translate(-50%, -50%) scale(${settings.flipH ? -1 : 1}, ${settings.flipV ? -1 : 1}) rotate(${settings.rotation}deg)`,
+              }
+            : { inset: 0 }
+        }
+      >
+        {children}
+      </div>
+
+      {layout && (editing || !isFullFrame(crop)) && (
+        <div ref={frameRef} className="absolute overflow-hidden pointer-events-none" style={layout.frame}>
+          <div
+            ref={cropRef}
+            className={cn("absolute ring-1 ring-white/80", editing && "pointer-events-auto cursor-move touch-none")}
+            style={{
+              left: `${crop.x * 100}%`,
+              top: `${crop.y * 100}%`,
+              width: `${crop.width * 100}%`,
+              height: `${crop.height * 100}%`,
+              boxShadow: `0 0 0 9999px rgba(0, 0, 0, ${editing ? 0.5 : 0.8})`,
+            }}
+            onPointerDown={editing ? (e) => startDrag(e, "move") : undefined}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {editing && (
+              <>
+                <div className="absolute inset-0 grid grid-cols-3 grid-rows-3 pointer-events-none">
+                  {Array.from({ length: 9 }, (_, index) => (
+                    <div key={index} className="border border-white/20" />
+                  ))}
+                </div>
+                {HANDLES.map(({ handle, className }) => (
+                  <div
+                    key={handle}
+                    className={cn("absolute h-3 w-3 rounded-sm bg-white shadow", className)}
+                    onPointerDown={(e) => startDrag(e, handle)}
+                  />
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {layout && overlay && (
+        <div
+          className="absolute pointer-events-none"
+          style={{
+            // Overlays size themselves in container units of the exported frame
+            containerType: "size",
+            left: layout.frame.left + output.x * layout.frame.width,
+            top: layout.frame.top + output.y * layout.frame.height,
+            width: output.width * layout.frame.width,
+            height: output.height * layout.frame.height,
+          }}
+        >
+          {overlay}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { RangeControl } from "@/components/range-control"
+import { cn } from "@/lib/utils"
+import type { SegmentEdge } from "@/lib/cut-list"
+import { timeToViewPercent, type TimelineView } from "@/lib/timeline-view"
+
+type SceneLaneProps = {
+  boundaries: number[]
+  view: TimelineView
+  selected: number | null
+  sensitivity: number
+  disabled: boolean
+  formatTime: (seconds: number) => string
+  onSelect: (time: number) => void
+  onSplit: (time: number) => void
+  onSetEdge: (time: number, edge: SegmentEdge) => void
+  onSensitivityChange: (sensitivity: number) => void
+}
+
+// Detected scene changes on their own lane under the trim timeline. Click one to jump
+// there; the selected one offers to become an in point, a split or an out point.
+export function SceneLane({
+  boundaries,
+  view,
+  selected,
+  sensitivity,
+  disabled,
+  formatTime,
+  onSelect,
+  onSplit,
+  onSetEdge,
+  onSensitivityChange,
+}: SceneLaneProps) {
+  const visible = boundaries.filter((time) => time >= view.start && time <= view.end)
+
+  return (
+    <div className="space-y-2">
+      <div className="relative h-6 overflow-hidden rounded-md bg-secondary/30 ring-1 ring-border">
+        {visible.map((time) => (
+          <button
+            key={time}
+            type="button"
+            className="group absolute top-0 bottom-0 w-3 -translate-x-1/2 disabled:cursor-default"
+            style={{ left: `${timeToViewPercent(time, view)}%` }}
+            onClick={() => onSelect(time)}
+            disabled={disabled}
+            aria-label={`Scene change at ${formatTime(time)}`}
+            title={`Scene change at ${formatTime(time)}`}
+          >
+            <span
+              className={cn(
+                "absolute inset-y-1 left-1/2 -translate-x-1/2 rounded-full transition-all",
+                time === selected ? "w-1 bg-amber-500" : "w-0.5 bg-amber-500/60 group-hover:w-1",
+              )}
+            />
+          </button>
+        ))}
+      </div>
+
+      {selected !== null && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground tabular-nums">Scene change at {formatTime(selected)}:</span>
+          <Button variant="outline" size="sm" onClick={() => onSetEdge(selected, "start")} disabled={disabled}>
+            Set in
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onSplit(selected)} disabled={disabled}>
+            Split here
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onSetEdge(selected, "end")} disabled={disabled}>
+            Set out
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <div className="w-full max-w-xs">
+          <RangeControl
+            id="scene-sensitivity"
+            label="Scene sensitivity"
+            value={sensitivity}
+            min={0}
+            max={1}
+            step={0.05}
+            disabled={disabled}
+            format={(value) => `${Math.round(value * 100)}%`}
+            onPreview={onSensitivityChange}
+            onCommit={() => {}}
+          />
+        </div>
+        <span className="text-sm text-muted-foreground tabular-nums">
+          {boundaries.length} {boundaries.length === 1 ? "scene change" : "scene changes"}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+"use client"
+
+import { useState } from "react"
+import { Check, ChevronDown, Loader2, Play, Scissors, VolumeX, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { RangeControl } from "@/components/range-control"
+import { cn } from "@/lib/utils"
+import { getRangesDuration } from "@/lib/cut-list"
+import {
+  SILENCE_DURATION_RANGE,
+  SILENCE_PADDING_RANGE,
+  SILENCE_THRESHOLD_RANGE,
+  getAcceptedCuts,
+  type SilenceSettings,
+  type SilentRange,
+} from "@/lib/silence"
+
+type SilencePanelProps = {
+  settings: SilenceSettings
+  ranges: SilentRange[] | null
+  isDetecting: boolean
+  duration: number
+  disabled: boolean
+  formatTime: (seconds: number) => string
+  onSettingsChange: (settings: SilenceSettings) => void
+  onDetect: () => void
+  onAcceptedChange: (id: string, accepted: boolean) => void
+  onAllAcceptedChange: (accepted: boolean) => void
+  onPlay: (range: SilentRange) => void
+  onApply: () => void
+  onApplyAndExport: () => void
+}
+
+// Collapsible dead-air removal: detect pauses, review them one by one or in a list, then
+// cut the accepted ones from the timeline
+export function SilencePanel({
+  settings,
+  ranges,
+  isDetecting,
+  duration,
+  disabled,
+  formatTime,
+  onSettingsChange,
+  onDetect,
+  onAcceptedChange,
+  onAllAcceptedChange,
+  onPlay,
+  onApply,
+  onApplyAndExport,
+}: SilencePanelProps) {
+  const [open, setOpen] = useState(false)
+  const [reviewIndex, setReviewIndex] = useState(0)
+  const cuts = ranges ? getAcceptedCuts(ranges, settings.padding, duration) : []
+  const summary = ranges ? `${cuts.length} of ${ranges.length} to cut, ${formatTime(getRangesDuration(cuts))}` : null
+  const reviewed = ranges && ranges.length > 0 ? ranges[Math.min(reviewIndex, ranges.length - 1)] : null
+
+  const review = (index: number) => {
+    if (!ranges || index < 0 || index >= ranges.length) return
+    setReviewIndex(index)
+    onPlay(ranges[index])
+  }
+
+  // Deciding on a silence moves the review on to the next one
+  const decide = (accepted: boolean) => {
+    if (!ranges || !reviewed) return
+    onAcceptedChange(reviewed.id, accepted)
+    review(ranges.indexOf(reviewed) + 1)
+  }
+
+  return (
+    <div className="rounded-lg ring-1 ring-border">
+      <Button
+        variant="ghost"
+        className="w-full justify-start gap-2 px-3"
+        onClick={() => setOpen((current) => !current)}
+        aria-expanded={open}
+      >
+        <VolumeX className="h-4 w-4" />
+        <span className="flex-1 text-left text-sm font-semibold">Silence removal</span>
+        {summary && <span className="text-sm text-muted-foreground tabular-nums">{summary}</span>}
+        <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+      </Button>
+
+      {open && (
+        <div className="space-y-5 border-t px-3 py-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <RangeControl
+              id="silence-threshold"
+              label="Threshold"
+              value={settings.thresholdDb}
+              {...SILENCE_THRESHOLD_RANGE}
+              disabled={disabled || isDetecting}
+              format={(value) => `${value} dB`}
+              onPreview={(thresholdDb) => onSettingsChange({ ...settings, thresholdDb })}
+              onCommit={() => {}}
+            />
+            <RangeControl
+              id="silence-min-duration"
+              label="Minimum length"
+              value={settings.minDuration}
+              {...SILENCE_DURATION_RANGE}
+              disabled={disabled || isDetecting}
+              format={(value) => `${value.toFixed(1)}s`}
+              onPreview={(minDuration) => onSettingsChange({ ...settings, minDuration })}
+              onCommit={() => {}}
+            />
+            <RangeControl
+              id="silence-padding"
+              label="Padding"
+              value={settings.padding}
+              {...SILENCE_PADDING_RANGE}
+              disabled={disabled}
+              format={(value) => `${value.toFixed(2)}s`}
+              onPreview={(padding) => onSettingsChange({ ...settings, padding })}
+              onCommit={() => {}}
+            />
+          </div>
+
+          <Button variant="outline" size="sm" onClick={onDetect} disabled={disabled || isDetecting}>
+            {isDetecting ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <VolumeX className="mr-1 h-4 w-4" />}
+            {ranges ? "Detect again" : "Detect silence"}
+          </Button>
+
+          {ranges && ranges.length > 0 && reviewed && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 rounded-md p-3 text-sm ring-1 ring-border">
+                <span className="mr-auto tabular-nums">
+                  Silence {ranges.indexOf(reviewed) + 1} of {ranges.length}: {formatTime(reviewed.start)} –{" "}
+                  {formatTime(reviewed.end)}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => review(ranges.indexOf(reviewed))} disabled={disabled}>
+                  <Play className="mr-1 h-4 w-4" />
+                  Play
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => decide(false)} disabled={disabled}>
+                  <X className="mr-1 h-4 w-4" />
+                  Keep
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => decide(true)} disabled={disabled}>
+                  <Check className="mr-1 h-4 w-4" />
+                  Cut
+                </Button>
+              </div>
+
+              <div className="max-h-48 space-y-1 overflow-y-auto">
+                {ranges.map((range, index) => (
+                  <div
+                    key={range.id}
+                    className={cn(
+                      "flex items-center gap-3 rounded-md px-2 py-1 text-sm",
+                      range === reviewed ? "bg-secondary" : "hover:bg-secondary/50",
+                    )}
+                  >
+                    <button
+                      type="button"
+                      className="flex-1 text-left font-mono text-xs tabular-nums"
+                      onClick={() => review(index)}
+                    >
+                      {formatTime(range.start)} – {formatTime(range.end)}
+                      <span className="ml-2 text-muted-foreground">{(range.end - range.start).toFixed(1)}s</span>
+                    </button>
+                    <Button
+                      variant={range.accepted ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7 w-16"
+                      onClick={() => onAcceptedChange(range.id, !range.accepted)}
+                      disabled={disabled}
+                      aria-pressed={range.accepted}
+                    >
+                      {range.accepted ? "Cut" : "Keep"}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button variant="ghost" size="sm" onClick={() => onAllAcceptedChange(true)} disabled={disabled}>
+                  Cut all
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onAllAcceptedChange(false)} disabled={disabled}>
+                  Keep all
+                </Button>
+                <div className="flex-1" />
+                <Button variant="outline" size="sm" onClick={onApply} disabled={disabled || cuts.length === 0}>
+                  <Scissors className="mr-1 h-4 w-4" />
+                  Cut {cuts.length} from timeline
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={onApplyAndExport}
+                  disabled={disabled || cuts.length === 0}
+                  title="Exports in Precise mode, so short pauses don't come back at keyframes"
+                >
+                  Cut and export
+                </Button>
+              </div>
+            </>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Cut silences become remove segments, so they can be undone or adjusted like any other cut.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
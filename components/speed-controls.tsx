@@ -0,0 +1,48 @@
+"use client"
+
+import { FastForward, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SPEED_PRESETS, formatSpeed, type SpeedSettings } from "@/lib/speed"
+
+type SpeedControlsProps = {
+  settings: SpeedSettings
+  disabled: boolean
+  onChange: (label: string, settings: SpeedSettings) => void
+}
+
+// Export speed for the whole clip and the reverse toggle; segments can add their own speed on top
+export function SpeedControls({ settings, disabled, onChange }: SpeedControlsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <FastForward className="h-4 w-4 text-muted-foreground" />
+      <Select
+        value={String(settings.rate)}
+        onValueChange={(value) => onChange(`Set export speed ${formatSpeed(Number(value))}`, { ...settings, rate: Number(value) })}
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" aria-label="Export speed" title="Export speed, with pitch-preserved audio">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SPEED_PRESETS.map((speed) => (
+            <SelectItem key={speed} value={String(speed)}>
+              {speed === 1 ? "Normal speed" : formatSpeed(speed)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant={settings.reverse ? "secondary" : "outline"}
+        size="sm"
+        onClick={() => onChange(settings.reverse ? "Play forwards" : "Reverse", { ...settings, reverse: !settings.reverse })}
+        disabled={disabled}
+        aria-pressed={settings.reverse}
+        title="Play the exported clip backwards. The whole clip is held in memory, so keep reversed clips short."
+      >
+        <Undo2 className="mr-1 h-4 w-4" />
+        Reverse
+      </Button>
+    </div>
+  )
+}
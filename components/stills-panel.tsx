@@ -0,0 +1,215 @@
+"use client"
+
+import { useState } from "react"
+import { Camera, ChevronDown, Grid3x3, Images } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import type { TimeRange } from "@/lib/cut-list"
+import {
+  CONTACT_SHEET_SIZES,
+  CONTACT_SHEET_TILE_WIDTHS,
+  DEFAULT_CONTACT_SHEET,
+  DEFAULT_FRAME_SEQUENCE,
+  FRAME_SEQUENCE_STEPS,
+  MAX_SEQUENCE_FRAMES,
+  STILL_FORMATS,
+  getSequenceFrameCount,
+  type ContactSheetOptions,
+  type FrameSequenceOptions,
+  type StillFormat,
+} from "@/lib/stills"
+
+type StillsPanelProps = {
+  stillFormat: StillFormat
+  range: TimeRange // the selected segment, or the whole video
+  rangeLabel: string
+  frameRate: number | null
+  disabled: boolean
+  formatTime: (seconds: number) => string
+  onStillFormatChange: (format: StillFormat) => void
+  onGrabFrame: () => void
+  onContactSheet: (options: ContactSheetOptions) => void
+  onFrameSequence: (options: FrameSequenceOptions) => void
+}
+
+type OptionSelectProps = {
+  id: string
+  label: string
+  value: string
+  options: { value: string; label: string }[]
+  disabled: boolean
+  onChange: (value: string) => void
+}
+
+function OptionSelect({ id, label, value, options, disabled, onChange }: OptionSelectProps) {
+  return (
+    <div className="grid gap-1.5">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <Select value={value} onValueChange={onChange} disabled={disabled}>
+        <SelectTrigger id={id} size="sm" className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+const formatOptions = (Object.keys(STILL_FORMATS) as StillFormat[]).map((format) => ({
+  value: format,
+  label: STILL_FORMATS[format].label,
+}))
+
+const numberOptions = (values: number[], label: (value: number) => string) =>
+  values.map((value) => ({ value: String(value), label: label(value) }))
+
+// Collapsible still export: the current frame, a contact sheet and image sequences
+export function StillsPanel({
+  stillFormat,
+  range,
+  rangeLabel,
+  frameRate,
+  disabled,
+  formatTime,
+  onStillFormatChange,
+  onGrabFrame,
+  onContactSheet,
+  onFrameSequence,
+}: StillsPanelProps) {
+  const [open, setOpen] = useState(false)
+  const [sheet, setSheet] = useState<ContactSheetOptions>(DEFAULT_CONTACT_SHEET)
+  const [sequence, setSequence] = useState<FrameSequenceOptions>(DEFAULT_FRAME_SEQUENCE)
+  const frameCount = frameRate ? getSequenceFrameCount(range, frameRate, sequence.every) : null
+
+  return (
+    <div className="rounded-lg ring-1 ring-border">
+      <Button
+        variant="ghost"
+        className="w-full justify-start gap-2 px-3"
+        onClick={() => setOpen((current) => !current)}
+        aria-expanded={open}
+      >
+        <Images className="h-4 w-4" />
+        <span className="flex-1 text-left text-sm font-semibold">Stills</span>
+        <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+      </Button>
+
+      {open && (
+        <div className="space-y-5 border-t px-3 py-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="w-28">
+              <OptionSelect
+                id="still-format"
+                label="Frame format"
+                value={stillFormat}
+                options={formatOptions}
+                disabled={disabled}
+                onChange={(format) => onStillFormatChange(format as StillFormat)}
+              />
+            </div>
+            <Button variant="outline" size="sm" onClick={onGrabFrame} disabled={disabled}>
+              <Camera className="mr-1 h-4 w-4" />
+              Save current frame
+            </Button>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {rangeLabel}: {formatTime(range.start)} – {formatTime(range.end)}
+          </p>
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              <OptionSelect
+                id="sheet-columns"
+                label="Columns"
+                value={String(sheet.columns)}
+                options={numberOptions(CONTACT_SHEET_SIZES, String)}
+                disabled={disabled}
+                onChange={(columns) => setSheet({ ...sheet, columns: Number(columns) })}
+              />
+              <OptionSelect
+                id="sheet-rows"
+                label="Rows"
+                value={String(sheet.rows)}
+                options={numberOptions(CONTACT_SHEET_SIZES, String)}
+                disabled={disabled}
+                onChange={(rows) => setSheet({ ...sheet, rows: Number(rows) })}
+              />
+              <OptionSelect
+                id="sheet-tile-width"
+                label="Frame width"
+                value={String(sheet.tileWidth)}
+                options={numberOptions(CONTACT_SHEET_TILE_WIDTHS, (width) => `${width}px`)}
+                disabled={disabled}
+                onChange={(tileWidth) => setSheet({ ...sheet, tileWidth: Number(tileWidth) })}
+              />
+              <OptionSelect
+                id="sheet-format"
+                label="Format"
+                value={sheet.format}
+                options={formatOptions}
+                disabled={disabled}
+                onChange={(format) => setSheet({ ...sheet, format: format as StillFormat })}
+              />
+            </div>
+            <Button variant="outline" size="sm" onClick={() => onContactSheet(sheet)} disabled={disabled}>
+              <Grid3x3 className="mr-1 h-4 w-4" />
+              Export {sheet.columns}×{sheet.rows} contact sheet
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              <OptionSelect
+                id="sequence-every"
+                label="Keep"
+                value={String(sequence.every)}
+                options={numberOptions(FRAME_SEQUENCE_STEPS, (every) =>
+                  every === 1 ? "Every frame" : `1 in ${every} frames`,
+                )}
+                disabled={disabled}
+                onChange={(every) => setSequence({ ...sequence, every: Number(every) })}
+              />
+              <OptionSelect
+                id="sequence-format"
+                label="Format"
+                value={sequence.format}
+                options={formatOptions}
+                disabled={disabled}
+                onChange={(format) => setSequence({ ...sequence, format: format as StillFormat })}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <Button variant="outline" size="sm" onClick={() => onFrameSequence(sequence)} disabled={disabled}>
+                <Images className="mr-1 h-4 w-4" />
+                Export frames as ZIP
+              </Button>
+              {frameCount !== null && (
+                <span
+                  className={cn(
+                    "text-xs",
+                    frameCount > MAX_SEQUENCE_FRAMES ? "text-amber-600 dark:text-amber-400" : "text-muted-foreground",
+                  )}
+                >
+                  {frameCount > MAX_SEQUENCE_FRAMES
+                    ? `About ${frameCount} frames; only the first ${MAX_SEQUENCE_FRAMES} are exported`
+                    : `About ${frameCount} ${frameCount === 1 ? "frame" : "frames"}`}
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+"use client"
+
+import type React from "react"
+import { useRef } from "react"
+import { cn } from "@/lib/utils"
+import { getCueDisplayText, type SubtitleCue } from "@/lib/subtitles"
+import { getViewSpan, timeToViewPercent, type TimelineView } from "@/lib/timeline-view"
+
+type SubtitleLaneProps = {
+  cues: SubtitleCue[]
+  view: TimelineView
+  duration: number
+  selectedId: string | null
+  disabled: boolean
+  onSelect: (id: string) => void
+  // Dragging a cue previews every step and lands in the history as one move
+  onPreview: (id: string, start: number, end: number) => void
+  onCommit: (label: string) => void
+}
+
+// Pointer travel before a press on a cue counts as a drag rather than a click
+const DRAG_THRESHOLD_PX = 3
+
+// Subtitle cues on their own lane under the trim timeline, on the same zoomed view.
+// Click a cue to select it and jump there; drag it to move it in time.
+export function SubtitleLane({ cues, view, duration, selectedId, disabled, onSelect, onPreview, onCommit }: SubtitleLaneProps) {
+  const laneRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ cue: SubtitleCue; x: number; moved: boolean } | null>(null)
+  const span = getViewSpan(view)
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, cue: SubtitleCue) => {
+    if (disabled) return
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragRef.current = { cue, x: e.clientX, moved: false }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    const width = laneRef.current?.getBoundingClientRect().width ?? 0
+    if (!drag || width === 0) return
+    if (!drag.moved && Math.abs(e.clientX - drag.x) < DRAG_THRESHOLD_PX) return
+
+    drag.moved = true
+    const length = drag.cue.end - drag.cue.start
+    const start = Math.min(Math.max(0, drag.cue.start + ((e.clientX - drag.x) / width) * span), duration - length)
+    onPreview(drag.cue.id, start, start + length)
+  }
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current
+    if (!drag) return
+    dragRef.current = null
+    if (drag.moved) {
+      onCommit("Move cue")
+    } else {
+      onSelect(drag.cue.id)
+    }
+  }
+
+  return (
+    <div ref={laneRef} className="relative h-8 overflow-hidden rounded-md bg-secondary/30 ring-1 ring-border">
+      {cues
+        .filter((cue) => cue.end >= view.start && cue.start <= view.end)
+        .map((cue) => (
+          <div
+            key={cue.id}
+            className={cn(
+              "absolute top-1 bottom-1 truncate rounded-sm px-1 text-[10px] leading-6 touch-none",
+              cue.id === selectedId
+                ? "bg-primary text-primary-foreground ring-2 ring-primary"
+                : "bg-foreground/15 text-foreground hover:bg-foreground/25",
+              !disabled && "cursor-grab",
+            )}
+            style={{
+              left: `${timeToViewPercent(cue.start, view)}%`,
+              width: `${((cue.end - cue.start) / span) * 100}%`,
+            }}
+            title={getCueDisplayText(cue)}
+            onPointerDown={(e) => handlePointerDown(e, cue)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {getCueDisplayText(cue).replace(/\n/g, " ")}
+          </div>
+        ))}
+    </div>
+  )
+}
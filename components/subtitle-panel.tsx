@@ -0,0 +1,278 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Captions, ChevronDown, Download, Plus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import {
+  SUBTITLE_EXTENSIONS,
+  SUBTITLE_MODE_LABELS,
+  SubtitleFileError,
+  addCueAt,
+  describeSubtitles,
+  getCueDisplayText,
+  parseSubtitleFile,
+  removeCue,
+  updateCue,
+  type SubtitleCue,
+  type SubtitleMode,
+  type SubtitleSettings,
+} from "@/lib/subtitles"
+
+type SubtitlePanelProps = {
+  settings: SubtitleSettings
+  selectedCueId: string | null
+  currentTime: number
+  duration: number
+  hasVideo: boolean
+  disabled: boolean
+  formatTime: (seconds: number) => string
+  onSelectCue: (cue: SubtitleCue) => void
+  onChange: (label: string, settings: SubtitleSettings) => void
+  // Typing previews and lands in the history as one edit
+  onPreview: (settings: SubtitleSettings) => void
+  onCommit: (label: string) => void
+  onDownload: () => void
+}
+
+// Nudge for the cue timing buttons
+const NUDGE_SECONDS = 0.1
+
+// Collapsible subtitle settings: load a file, edit the cues and pick how they are exported
+export function SubtitlePanel({
+  settings,
+  selectedCueId,
+  currentTime,
+  duration,
+  hasVideo,
+  disabled,
+  formatTime,
+  onSelectCue,
+  onChange,
+  onPreview,
+  onCommit,
+  onDownload,
+}: SubtitlePanelProps) {
+  const [open, setOpen] = useState(false)
+  const { toast } = useToast()
+  const { track } = settings
+  const selectedCue = track?.cues.find((cue) => cue.id === selectedCueId) ?? null
+  const summary = describeSubtitles(settings)
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      const loaded = parseSubtitleFile(await file.text(), file.name)
+      onChange("Load subtitles", { ...settings, track: loaded })
+      setOpen(true)
+      toast({
+        title: "Subtitles loaded",
+        description: `${loaded.cues.length} ${loaded.cues.length === 1 ? "cue" : "cues"} from ${file.name}`,
+      })
+    } catch (error) {
+      console.error("[v0] Subtitle import error:", error)
+      toast({
+        title: "Could not load subtitles",
+        description: error instanceof SubtitleFileError ? error.message : "The file could not be read",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const editCue = (label: string, patch: Partial<Omit<SubtitleCue, "id">>) => {
+    if (track && selectedCue) onChange(label, { ...settings, track: updateCue(track, selectedCue.id, patch) })
+  }
+
+  const handleAddCue = () => {
+    if (!track) return
+    const added = addCueAt(track, currentTime, duration)
+    onChange("Add cue", { ...settings, track: added.track })
+    const cue = added.track.cues.find((other) => other.id === added.id)
+    if (cue) onSelectCue(cue)
+  }
+
+  return (
+    <div className="rounded-lg ring-1 ring-border">
+      <Button
+        variant="ghost"
+        className="w-full justify-start gap-2 px-3"
+        onClick={() => setOpen((current) => !current)}
+        aria-expanded={open}
+      >
+        <Captions className="h-4 w-4" />
+        <span className="flex-1 text-left text-sm font-semibold">Subtitles</span>
+        {summary && <span className="text-sm text-muted-foreground">{summary}</span>}
+        <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} />
+      </Button>
+
+      {open && (
+        <div className="space-y-5 border-t px-3 py-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {track ? (
+              <>
+                <span className="min-w-0 flex-1 truncate text-sm text-muted-foreground">{track.name}</span>
+                <Select
+                  value={settings.mode}
+                  onValueChange={(mode) => onChange("Change subtitle export", { ...settings, mode: mode as SubtitleMode })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger size="sm" aria-label="Export subtitles as">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SUBTITLE_MODE_LABELS) as SubtitleMode[])
+                      .filter((mode) => hasVideo || mode !== "burn")
+                      .map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {SUBTITLE_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onDownload}
+                  disabled={disabled}
+                  title="Download the cues timed to the current cut"
+                >
+                  <Download className="mr-1 h-4 w-4" />
+                  Retimed .{track.format}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => onChange("Remove subtitles", { ...settings, track: null })}
+                  disabled={disabled}
+                  aria-label="Remove subtitles"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              <Button asChild variant="outline" size="sm" disabled={disabled}>
+                <label className="cursor-pointer">
+                  <Captions className="mr-1 h-4 w-4" />
+                  Load subtitles...
+                  <input
+                    type="file"
+                    className="hidden"
+                    accept={SUBTITLE_EXTENSIONS.join(",")}
+                    onChange={handleFileSelect}
+                  />
+                </label>
+              </Button>
+            )}
+          </div>
+
+          {track && (
+            <>
+              <div className="max-h-48 space-y-1 overflow-y-auto">
+                {track.cues.map((cue) => (
+                  <button
+                    key={cue.id}
+                    type="button"
+                    onClick={() => onSelectCue(cue)}
+                    className={cn(
+                      "flex w-full gap-3 rounded-md px-2 py-1 text-left text-sm transition-colors",
+                      cue.id === selectedCueId ? "bg-secondary" : "hover:bg-secondary/50",
+                    )}
+                  >
+                    <span className="shrink-0 font-mono text-xs leading-5 text-muted-foreground tabular-nums">
+                      {formatTime(cue.start)}
+                    </span>
+                    <span className="truncate">{getCueDisplayText(cue).replace(/\n/g, " ") || "(empty)"}</span>
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="sm" onClick={handleAddCue} disabled={disabled}>
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add cue at playhead
+                </Button>
+                {selectedCue && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange("Delete cue", { ...settings, track: removeCue(track, selectedCue.id) })}
+                    disabled={disabled}
+                  >
+                    <Trash2 className="mr-1 h-4 w-4" />
+                    Delete cue
+                  </Button>
+                )}
+              </div>
+
+              {selectedCue && (
+                <div className="space-y-3 rounded-md p-3 ring-1 ring-border">
+                  <textarea
+                    value={selectedCue.text}
+                    onChange={(e) =>
+                      onPreview({ ...settings, track: updateCue(track, selectedCue.id, { text: e.target.value }) })
+                    }
+                    onBlur={() => onCommit("Edit cue text")}
+                    disabled={disabled}
+                    rows={2}
+                    aria-label="Cue text"
+                    className="w-full resize-y rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50 disabled:opacity-50"
+                  />
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+                    {(["start", "end"] as const).map((edge) => (
+                      <div key={edge} className="flex items-center gap-1">
+                        <span className="w-10 text-muted-foreground">{edge === "start" ? "In" : "Out"}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            editCue(`Nudge cue ${edge}`, { [edge]: Math.max(0, selectedCue[edge] - NUDGE_SECONDS) })
+                          }
+                          disabled={disabled}
+                          aria-label={`Move cue ${edge} earlier`}
+                        >
+                          −
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="font-mono tabular-nums"
+                          onClick={() => editCue(`Set cue ${edge}`, { [edge]: currentTime })}
+                          disabled={disabled}
+                          title={`Set the cue ${edge} to the playhead`}
+                        >
+                          {formatTime(selectedCue[edge])}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            editCue(`Nudge cue ${edge}`, { [edge]: Math.min(duration, selectedCue[edge] + NUDGE_SECONDS) })
+                          }
+                          disabled={disabled}
+                          aria-label={`Move cue ${edge} later`}
+                        >
+                          +
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                Cues follow the cut on export: removed parts drop out and the rest moves up. Subtitle tracks need MP4,
+                MOV, MKV or WebM.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+"use client"
+
+import { findCueAt, getCueDisplayText, type SubtitleCue } from "@/lib/subtitles"
+
+type SubtitlePreviewProps = {
+  cues: SubtitleCue[]
+  time: number // source time under the playhead
+}
+
+// The cue under the playhead, captioned along the bottom of the preview
+export function SubtitlePreview({ cues, time }: SubtitlePreviewProps) {
+  const cue = findCueAt(cues, time)
+  if (!cue) return null
+
+  return (
+    <div className="absolute inset-x-0 bottom-[6%] flex justify-center px-[5%] pointer-events-none">
+      <span
+        className="whitespace-pre-line text-center leading-tight text-white [text-shadow:0_0_3px_black,0_1px_2px_black]"
+        style={{ fontFamily: "'Trimflow Lato'", fontSize: "5.5cqh" }}
+      >
+        {getCueDisplayText(cue)}
+      </span>
+    </div>
+  )
+}
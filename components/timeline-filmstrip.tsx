@@ -0,0 +1,71 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { getViewSpan, type TimelineView } from "@/lib/timeline-view"
+
+type TimelineFilmstripProps = {
+  thumbnails: string[]
+  peaks: Float32Array | null
+  peakGain?: number // the export's gain, so the waveform shows the level that will be heard
+  view: TimelineView
+  duration: number
+}
+
+// Background layer of the trim timeline: a thumbnail strip with the audio waveform below it
+export function TimelineFilmstrip({ thumbnails, peaks, peakGain = 1, view, duration }: TimelineFilmstripProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !peaks || duration <= 0) return
+
+    const draw = () => {
+      const { width, height } = canvas.getBoundingClientRect()
+      const ratio = window.devicePixelRatio || 1
+      canvas.width = Math.round(width * ratio)
+      canvas.height = Math.round(height * ratio)
+
+      const context = canvas.getContext("2d")
+      if (!context) return
+
+      context.clearRect(0, 0, canvas.width, canvas.height)
+      context.fillStyle = getComputedStyle(canvas).color
+
+      // Only the peaks inside the visible window are drawn, stretched to the full width
+      const firstPeak = Math.floor((view.start / duration) * peaks.length)
+      const lastPeak = Math.min(peaks.length, Math.ceil((view.end / duration) * peaks.length))
+      const middle = canvas.height / 2
+      const barWidth = canvas.width / Math.max(1, lastPeak - firstPeak)
+      for (let index = firstPeak; index < lastPeak; index++) {
+        const barHeight = Math.max(1, Math.min(1, peaks[index] * peakGain) * canvas.height)
+        context.fillRect((index - firstPeak) * barWidth, middle - barHeight / 2, Math.max(1, barWidth), barHeight)
+      }
+    }
+
+    draw()
+    const observer = new ResizeObserver(draw)
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [peaks, peakGain, view, duration])
+
+  const span = getViewSpan(view)
+
+  return (
+    <div className="absolute inset-0 flex flex-col overflow-hidden rounded-xl pointer-events-none">
+      <div className="relative flex-[2] min-h-0">
+        <div
+          className="absolute inset-y-0 flex opacity-70"
+          style={{
+            left: `${span > 0 ? (-view.start / span) * 100 : 0}%`,
+            width: `${span > 0 ? (duration / span) * 100 : 100}%`,
+          }}
+        >
+          {thumbnails.map((url) => (
+            <img key={url} src={url} alt="" className="h-full min-w-0 flex-1 object-cover" />
+          ))}
+        </div>
+      </div>
+      {peaks && <canvas ref={canvasRef} className="w-full flex-1 min-h-0 text-primary/50" />}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { findPreviousIndex } from "@/lib/snapping"
+import { getViewSpan, type TimelineView } from "@/lib/timeline-view"
+
+type TimelineKeyframesProps = {
+  keyframes: number[]
+  view: TimelineView
+}
+
+const TICK_HEIGHT = 8
+
+// Keyframe ticks along the top of the trim timeline. Drawn on a canvas because a long
+// file can have thousands of keyframes.
+export function TimelineKeyframes({ keyframes, view }: TimelineKeyframesProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const draw = () => {
+      const { width, height } = canvas.getBoundingClientRect()
+      const ratio = window.devicePixelRatio || 1
+      canvas.width = Math.round(width * ratio)
+      canvas.height = Math.round(height * ratio)
+
+      const context = canvas.getContext("2d")
+      const span = getViewSpan(view)
+      if (!context || span <= 0) return
+
+      context.clearRect(0, 0, canvas.width, canvas.height)
+      context.fillStyle = getComputedStyle(canvas).color
+
+      const first = Math.max(0, findPreviousIndex(keyframes, view.start))
+      for (let index = first; index < keyframes.length && keyframes[index] <= view.end; index++) {
+        const x = ((keyframes[index] - view.start) / span) * canvas.width
+        context.fillRect(Math.round(x), 0, Math.max(1, ratio), TICK_HEIGHT * ratio)
+      }
+    }
+
+    draw()
+    const observer = new ResizeObserver(draw)
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [keyframes, view])
+
+  return <canvas ref={canvasRef} className="absolute inset-0 h-full w-full pointer-events-none text-foreground/70" />
+}
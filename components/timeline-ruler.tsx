@@ -0,0 +1,43 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { formatRulerLabel, getRulerTicks } from "@/lib/time"
+import { timeToViewPercent, type TimelineView } from "@/lib/timeline-view"
+
+type TimelineRulerProps = {
+  view: TimelineView
+}
+
+// Time ruler above the trim timeline; tick density adapts to the zoom level
+export function TimelineRuler({ view }: TimelineRulerProps) {
+  const rulerRef = useRef<HTMLDivElement>(null)
+  const [width, setWidth] = useState(0)
+
+  useEffect(() => {
+    const element = rulerRef.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  const { step, ticks } = getRulerTicks(view.start, view.end, width)
+
+  return (
+    <div ref={rulerRef} className="relative h-6 overflow-hidden select-none text-[10px] text-muted-foreground tabular-nums">
+      {ticks.map((tick) => (
+        <div
+          key={tick.time}
+          className="absolute bottom-0"
+          style={{ left: `${timeToViewPercent(tick.time, view)}%` }}
+        >
+          <div className={tick.major ? "h-2.5 w-px bg-muted-foreground" : "h-1.5 w-px bg-muted-foreground/50"} />
+          {tick.major && (
+            <span className="absolute bottom-3 left-0.5 whitespace-nowrap">{formatRulerLabel(tick.time, step)}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import type React from "react"
+import { useRef } from "react"
+import { ZoomIn, ZoomOut, Maximize2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { getViewSpan, panView, type TimelineView } from "@/lib/timeline-view"
+
+type TimelineZoomControlsProps = {
+  view: TimelineView
+  duration: number
+  onViewChange: (view: TimelineView) => void
+  onZoomIn: () => void
+  onZoomOut: () => void
+  onZoomToFit: () => void
+}
+
+// Zoom buttons plus an overview bar whose thumb marks, and drags, the visible window
+export function TimelineZoomControls({
+  view,
+  duration,
+  onViewChange,
+  onZoomIn,
+  onZoomOut,
+  onZoomToFit,
+}: TimelineZoomControlsProps) {
+  const trackRef = useRef<HTMLDivElement>(null)
+  const span = getViewSpan(view)
+  const zoom = span > 0 ? duration / span : 1
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const track = trackRef.current
+    if (!track || duration <= 0) return
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const startX = e.clientX
+    const startView = view
+    const secondsPerPixel = duration / track.getBoundingClientRect().width
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      onViewChange(panView(startView, (moveEvent.clientX - startX) * secondsPerPixel, duration))
+    }
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove)
+      window.removeEventListener("pointerup", handleUp)
+    }
+
+    window.addEventListener("pointermove", handleMove)
+    window.addEventListener("pointerup", handleUp)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button variant="ghost" size="icon-sm" onClick={onZoomOut} disabled={zoom <= 1} aria-label="Zoom out">
+        <ZoomOut className="h-4 w-4" />
+      </Button>
+      <div ref={trackRef} className="relative h-2 flex-1 rounded-full bg-secondary">
+        <div
+          className="absolute top-0 bottom-0 rounded-full bg-primary/50 cursor-grab active:cursor-grabbing touch-none"
+          style={{
+            left: `${duration > 0 ? (view.start / duration) * 100 : 0}%`,
+            width: `${duration > 0 ? (span / duration) * 100 : 100}%`,
+          }}
+          onPointerDown={handlePointerDown}
+        />
+      </div>
+      <Button variant="ghost" size="icon-sm" onClick={onZoomIn} aria-label="Zoom in">
+        <ZoomIn className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon-sm" onClick={onZoomToFit} disabled={zoom <= 1} aria-label="Zoom to fit">
+        <Maximize2 className="h-4 w-4" />
+      </Button>
+      <span className="w-12 text-right text-xs text-muted-foreground tabular-nums">{zoom.toFixed(zoom < 10 ? 1 : 0)}×</span>
+    </div>
+  )
+}
@@ -1,47 +1,176 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { VideoUpload } from "@/components/video-upload"
 import { VideoTimeline } from "@/components/video-timeline"
+import { BatchTrimPanel } from "@/components/batch-trim-panel"
+import { RecentProjectsList, ResumeSessionPrompt } from "@/components/recent-projects"
 import { Card } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { useRecentProjects } from "@/hooks/use-recent-projects"
+import { useFFmpegQueue } from "@/hooks/use-ffmpeg-queue"
+import { clearStoredOutputs } from "@/lib/output-storage"
+import type { InputFormat } from "@/lib/media-detect"
+import { importMedia } from "@/lib/media-import"
+import {
+  capturePoster,
+  createProject,
+  findProjectForFile,
+  openProjectSource,
+  pruneProjects,
+  storeProjectSource,
+  updateProject,
+  type Project,
+} from "@/lib/project"
 
 export type VideoFile = {
-  url: string // Blob URL for video preview
+  url: string // Blob URL for preview: the file itself, or a proxy when the browser can't play it
   filename: string
   size: number
   type: string
   duration?: number
-  file: File // Original file object
-  data?: ArrayBuffer // Optional: loaded lazily when needed for trimming
+  file: File // Original file object, streamed into FFmpeg without copying
+  handle?: FileSystemFileHandle | null // Set when the browser exposes one for a dropped file
+  format: InputFormat | null // Detected from the file's contents; null if only FFmpeg recognised it
+  hasVideo: boolean // False for audio-only files
+  isProxy: boolean
+}
+
+type EditorSession = {
+  videoFile: VideoFile
+  project: Project
 }
 
 export function VideoEditor() {
-  const [videoFile, setVideoFile] = useState<VideoFile | null>(null)
-  const [isProcessing, setIsProcessing] = useState(false)
+  const [session, setSession] = useState<EditorSession | null>(null)
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null)
+  const [openingProjectId, setOpeningProjectId] = useState<string | null>(null)
+  // The resume prompt is only offered when the page loads, not after "New Video"
+  const [resumeDismissed, setResumeDismissed] = useState(false)
+  const recentProjects = useRecentProjects()
+  const { queue } = useFFmpegQueue()
+  const { toast } = useToast()
+
+  // Exports from a previous visit are only reachable through blob URLs that no longer exist
+  useEffect(() => {
+    clearStoredOutputs()
+  }, [])
+
+  // Saves the project record, then stores the source and a thumbnail in the background
+  const persistProject = async (project: Project, videoFile: VideoFile) => {
+    try {
+      await updateProject(project)
+      await pruneProjects()
+
+      if (!project.thumbnail && videoFile.hasVideo) {
+        const thumbnail = await capturePoster(videoFile.url)
+        if (thumbnail) await updateProject(project, { thumbnail })
+      }
+      if (!project.source) {
+        const source = await storeProjectSource(project, videoFile.file, videoFile.handle ?? null)
+        if (source) await updateProject(project, { source })
+      }
+    } catch (error) {
+      console.warn("[v0] Could not save project:", error)
+    }
+  }
+
+  const handleVideoUpload = async (videoFile: VideoFile) => {
+    // Opening a file that already has a project continues that project
+    const existing = await findProjectForFile(videoFile.file).catch(() => undefined)
+    const project = existing ?? createProject(videoFile.file)
+
+    setResumeDismissed(true)
+    setSession({ videoFile, project })
+    persistProject(project, videoFile)
+  }
+
+  const handleOpenProject = async (project: Project) => {
+    setOpeningProjectId(project.id)
+    try {
+      const file = await openProjectSource(project)
+      const media = await importMedia(file, queue, {
+        onProxyJob: () =>
+          toast({
+            title: "Creating a preview",
+            description: `${file.name} uses a codec your browser can't play, so a preview copy is being made`,
+          }),
+      })
+
+      setResumeDismissed(true)
+      setSession({
+        videoFile: {
+          url: media.previewUrl,
+          filename: file.name,
+          size: file.size,
+          type: file.type,
+          duration: media.duration,
+          file,
+          format: media.format,
+          hasVideo: media.hasVideo,
+          isProxy: media.isProxy,
+        },
+        project,
+      })
+    } catch (error) {
+      console.error("[v0] Project open error:", error)
+      toast({
+        title: "Failed to open project",
+        description: error instanceof Error ? error.message : "The source video could not be found",
+        variant: "destructive",
+      })
+    } finally {
+      setOpeningProjectId(null)
+    }
+  }
 
-  const handleVideoUpload = (file: VideoFile) => {
-    setVideoFile(file)
+  const handleDeleteProject = (project: Project) => {
+    recentProjects.remove(project).catch((error) => console.warn("[v0] Could not delete project:", error))
   }
 
   const handleReset = () => {
-    if (videoFile?.url) {
-      URL.revokeObjectURL(videoFile.url)
+    if (session?.videoFile.url) {
+      URL.revokeObjectURL(session.videoFile.url)
     }
-    setVideoFile(null)
-    setIsProcessing(false)
+    setSession(null)
+    setBatchFiles(null)
+    clearStoredOutputs()
+    recentProjects.refresh()
   }
 
+  const lastProject = recentProjects.projects[0]
+
   return (
     <div className="space-y-6">
-      {!videoFile ? (
-        <VideoUpload onUploadComplete={handleVideoUpload} />
+      {batchFiles ? (
+        <Card className="p-6">
+          <BatchTrimPanel files={batchFiles} onReset={handleReset} />
+        </Card>
+      ) : !session ? (
+        <>
+          {lastProject && !resumeDismissed && (
+            <ResumeSessionPrompt
+              project={lastProject}
+              isOpening={openingProjectId === lastProject.id}
+              onResume={() => handleOpenProject(lastProject)}
+              onDismiss={() => setResumeDismissed(true)}
+            />
+          )}
+          <VideoUpload onUploadComplete={handleVideoUpload} onBatchSelected={setBatchFiles} />
+          <RecentProjectsList
+            projects={recentProjects.projects}
+            openingId={openingProjectId}
+            onOpen={handleOpenProject}
+            onDelete={handleDeleteProject}
+          />
+        </>
       ) : (
         <Card className="p-6">
           <VideoTimeline
-            videoFile={videoFile}
+            key={session.project.id}
+            videoFile={session.videoFile}
+            project={session.project}
             onReset={handleReset}
-            isProcessing={isProcessing}
-            setIsProcessing={setIsProcessing}
           />
         </Card>
       )}
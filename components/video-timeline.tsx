@@ -1,37 +1,222 @@
 "use client"
 
 import type React from "react"
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
-import { Scissors, RotateCcw, Play, Pause, Download, Loader2 } from "lucide-react"
+import {
+  Scissors,
+  RotateCcw,
+  Play,
+  Pause,
+  Download,
+  Loader2,
+  Keyboard,
+  Music,
+  Magnet,
+  Camera,
+  ScanSearch,
+} from "lucide-react"
 import type { VideoFile } from "@/components/video-editor"
-import { FFmpeg } from "@ffmpeg/ffmpeg"
 import { useToast } from "@/hooks/use-toast"
-import { Progress } from "@/components/ui/progress"
+import { cn } from "@/lib/utils"
+import { CutListPanel } from "@/components/cut-list-panel"
+import {
+  createInitialCutList,
+  createSegment,
+  getOutputTime,
+  getRangesDuration,
+  moveSegmentEdge,
+  resolveKeepRanges,
+  splitSegmentAt,
+  type CutSegment,
+  type SegmentEdge,
+  type SegmentKind,
+} from "@/lib/cut-list"
+import {
+  KEYFRAME_TOLERANCE,
+  TRIM_METHOD_LABELS,
+  TRIM_MODE_OPTIONS,
+  getCopyCutStart,
+  type TrimMode,
+  type TrimResult,
+} from "@/lib/trim"
+import { buildEditFilters, exportRanges } from "@/lib/export"
+import {
+  getDefaultExportSettings,
+  getFileExtension,
+  needsExactCuts,
+  withExportDefaults,
+  type ExportSettings,
+} from "@/lib/export-format"
+import { ExportDialog } from "@/components/export-dialog"
+import { TimelineFilmstrip } from "@/components/timeline-filmstrip"
+import { TimelineKeyframes } from "@/components/timeline-keyframes"
+import { useTimelineMedia } from "@/hooks/use-timeline-media"
+import { useMediaInfo } from "@/hooks/use-media-info"
+import { useTimelineZoom } from "@/hooks/use-timeline-zoom"
+import { TimelineRuler } from "@/components/timeline-ruler"
+import { TimelineZoomControls } from "@/components/timeline-zoom-controls"
+import { formatTimecode, type TimeFormat } from "@/lib/time"
+import { getViewSpan, revealTime, timeToViewPercent } from "@/lib/timeline-view"
+import {
+  SNAP_DISTANCE_PX,
+  SNAP_TARGET_LABELS,
+  findSnapTarget,
+  getSnapTargets,
+  type SnapTarget,
+} from "@/lib/snapping"
+import { getInputExtension } from "@/lib/media-detect"
+import { getPrimaryAudioStream, getPrimaryVideoStream } from "@/lib/media-info"
+import { loadKeyBindings, saveKeyBindings, type KeyBindings } from "@/lib/keybindings"
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts"
+import { useShuttle } from "@/hooks/use-shuttle"
+import { KeyboardShortcutsDialog } from "@/components/keyboard-shortcuts-dialog"
+import { JobCancelledError, getInputPath, type JobContext } from "@/lib/ffmpeg-queue"
+import { useFFmpegQueue } from "@/hooks/use-ffmpeg-queue"
+import { JobQueuePanel } from "@/components/job-queue-panel"
+import { restoreHistory, type Project, type ProjectEdits } from "@/lib/project"
+import { useProjectAutosave } from "@/hooks/use-project-autosave"
+import { useEditHistory } from "@/hooks/use-edit-history"
+import { createHistory } from "@/lib/history"
+import { HistoryPanel } from "@/components/history-panel"
+import { MediaInfoPanel } from "@/components/media-info-panel"
+import { CutFileDialog } from "@/components/cut-file-dialog"
+import type { CutImportResult } from "@/lib/cut-file"
+import { DEFAULT_REFRAME, getOutputSize, type CropRect, type ReframeSettings } from "@/lib/reframe"
+import { ReframePreview } from "@/components/reframe-preview"
+import { ReframeControls } from "@/components/reframe-controls"
+import { DEFAULT_AUDIO, dbToGain, keepsOriginalAudio, type AudioSettings } from "@/lib/audio-settings"
+import { AudioPanel } from "@/components/audio-panel"
+import { AudioLevelMeter } from "@/components/audio-level-meter"
+import { useAudioPreview } from "@/hooks/use-audio-preview"
+import {
+  DEFAULT_SPEED,
+  PLAYBACK_RATES,
+  describeSpeed,
+  formatSpeed,
+  getRetimePieces,
+  getRetimedDuration,
+  getRetimedTime,
+  type SpeedSettings,
+} from "@/lib/speed"
+import { SpeedControls } from "@/components/speed-controls"
+import { DEFAULT_OVERLAYS, OVERLAY_FONTS, type OverlayFont, type OverlaySettings } from "@/lib/overlays"
+import { OverlayLayer } from "@/components/overlay-layer"
+import { OverlayPanel } from "@/components/overlay-panel"
+import { useOverlayInputs } from "@/hooks/use-overlay-inputs"
+import {
+  DEFAULT_SUBTITLES,
+  buildSubtitleFile,
+  updateCue,
+  type SubtitleCue,
+  type SubtitleSettings,
+} from "@/lib/subtitles"
+import { SubtitleLane } from "@/components/subtitle-lane"
+import { SubtitlePanel } from "@/components/subtitle-panel"
+import { SubtitlePreview } from "@/components/subtitle-preview"
+import { downloadBlob } from "@/lib/download"
+import {
+  STILL_FORMATS,
+  createContactSheet,
+  exportFrameSequence,
+  grabFrame,
+  type ContactSheetOptions,
+  type FrameSequenceOptions,
+  type StillFormat,
+} from "@/lib/stills"
+import { StillsPanel } from "@/components/stills-panel"
+import { useSceneDetection } from "@/hooks/use-scene-detection"
+import { SceneLane } from "@/components/scene-lane"
+import { useSilenceDetection } from "@/hooks/use-silence-detection"
+import { SilencePanel } from "@/components/silence-panel"
+import { getAcceptedCuts, toRemoveSegments, type SilentRange } from "@/lib/silence"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 
 type VideoTimelineProps = {
   videoFile: VideoFile
+  project: Project
   onReset: () => void
-  isProcessing: boolean
-  setIsProcessing: (processing: boolean) => void
 }
 
-export function VideoTimeline({ videoFile, onReset, isProcessing, setIsProcessing }: VideoTimelineProps) {
+export function VideoTimeline({ videoFile, project, onReset }: VideoTimelineProps) {
   const videoRef = useRef<HTMLVideoElement>(null)
   const timelineRef = useRef<HTMLDivElement>(null)
-  const ffmpegRef = useRef<FFmpeg | null>(null)
+  const { queue, coreStatus, jobs } = useFFmpegQueue()
   const { toast } = useToast()
+  // Named after the detected container rather than the file name, which may be wrong or missing
+  const inputName = `input.${getInputExtension(videoFile.format)}`
 
   const [duration, setDuration] = useState(0)
+  const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null)
   const [currentTime, setCurrentTime] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
-  const [startTime, setStartTime] = useState(0)
-  const [endTime, setEndTime] = useState(0)
-  const [isDraggingStart, setIsDraggingStart] = useState(false)
-  const [isDraggingEnd, setIsDraggingEnd] = useState(false)
+  const [playbackRate, setPlaybackRate] = useState(1)
+  const shuttle = useShuttle(videoRef, playbackRate)
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(loadKeyBindings)
+  const [shortcutsOpen, setShortcutsOpen] = useState(false)
+  const editHistory = useEditHistory<ProjectEdits>(
+    {
+      segments: [],
+      exportSettings: project.edits
+        ? withExportDefaults(project.edits.exportSettings)
+        : getDefaultExportSettings(inputName),
+      trimMode: project.edits?.trimMode ?? "fast",
+      reframe: project.edits?.reframe ?? DEFAULT_REFRAME,
+      audio: project.edits?.audio ?? DEFAULT_AUDIO,
+      speed: project.edits?.speed ?? DEFAULT_SPEED,
+      overlays: project.edits?.overlays ?? DEFAULT_OVERLAYS,
+      subtitles: project.edits?.subtitles ?? DEFAULT_SUBTITLES,
+    },
+    "Opened video",
+  )
+  const { segments, exportSettings, trimMode, reframe, audio, speed, overlays, subtitles } = editHistory.state
+  const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null)
+  const [dragging, setDragging] = useState<{ id: string; edge: SegmentEdge } | null>(null)
+  const [snapping, setSnapping] = useState(false)
+  const [snapTarget, setSnapTarget] = useState<SnapTarget | null>(null)
+  const [cropEditing, setCropEditing] = useState(false)
+  const [selectedCueId, setSelectedCueId] = useState<string | null>(null)
+  const [stillFormat, setStillFormat] = useState<StillFormat>("png")
   const [trimmedVideoUrl, setTrimmedVideoUrl] = useState<string | null>(null)
-  const [ffmpegLoaded, setFfmpegLoaded] = useState(false)
-  const [processingProgress, setProcessingProgress] = useState(0)
+  const [trimmedOutput, setTrimmedOutput] = useState<{ mimeType: string; extension: string } | null>(null)
+  // The retimed subtitle file that goes with the export, when subtitles are exported separately
+  const [trimmedSubtitles, setTrimmedSubtitles] = useState<{ content: string; extension: string } | null>(null)
+  const [timeFormat, setTimeFormat] = useState<TimeFormat>("clock")
+  const [trimResult, setTrimResult] = useState<TrimResult | null>(null)
+  const [exportJobIds, setExportJobIds] = useState<string[]>([])
+  const [inputReady, setInputReady] = useState(false)
+  const [readyMusicInput, setReadyMusicInput] = useState<string | null>(null)
+  const inputFileName = getInputPath(inputName)
+  const mediaInfo = useMediaInfo(queue, inputReady ? inputFileName : null, videoFile.file)
+  const frameRate = getPrimaryVideoStream(mediaInfo.info)?.frameRate ?? null
+  // Until the analysis is in, the source is assumed to have sound
+  const hasAudio = mediaInfo.info ? getPrimaryAudioStream(mediaInfo.info) !== null : true
+  const silence = useSilenceDetection(
+    queue,
+    inputReady && hasAudio ? inputFileName : null,
+    videoFile.filename,
+    duration,
+  )
+  // Set when "Cut and export" has edited the cut list; the export starts once the edit has rendered
+  const [exportAfterEdit, setExportAfterEdit] = useState(false)
+  const keyframes = mediaInfo.info?.keyframes ?? null
+  const { thumbnails, peaks } = useTimelineMedia(
+    queue,
+    inputReady ? inputFileName : null,
+    videoFile.file,
+    duration,
+    videoFile.hasVideo,
+  )
+  const { view, setView, clientXToTime, zoomIn, zoomOut, zoomToFit } = useTimelineZoom(timelineRef, duration)
+  const scenes = useSceneDetection(
+    queue,
+    inputReady && videoFile.hasVideo ? inputFileName : null,
+    videoFile.file,
+    videoFile.filename,
+  )
+  const [selectedScene, setSelectedScene] = useState<number | null>(null)
+  // A new sensitivity can drop the selected boundary
+  const activeScene = selectedScene !== null && scenes.boundaries?.includes(selectedScene) ? selectedScene : null
 
 
   useEffect(() => {
@@ -58,37 +243,97 @@ export function VideoTimeline({ videoFile, onReset, isProcessing, setIsProcessin
 }, [toast])
 
   useEffect(() => {
-    const loadFFmpeg = async () => {
-      try {
-        console.log("[v0] Starting FFmpeg load...")
-        const ffmpeg = new FFmpeg()
-        ffmpegRef.current = ffmpeg
-
-        ffmpeg.on("progress", ({ progress }) => {
-          setProcessingProgress(Math.round(progress * 100))
-        })
+    console.log("[v0] Starting FFmpeg load...")
+    queue.load().catch((error) => {
+      console.error("[v0] FFmpeg load error:", error)
+      toast({
+        title: "Failed to load video editor",
+        description: "The FFmpeg core could not be loaded from this site or any fallback. Please refresh the page",
+        variant: "destructive",
+      })
+    })
+  }, [queue, toast])
 
-        const baseURL = "https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd"
+  // An export's URL is let go when the next export replaces it or the editor closes (also on reset)
+  useEffect(() => {
+    if (!trimmedVideoUrl) return
+    return () => URL.revokeObjectURL(trimmedVideoUrl)
+  }, [trimmedVideoUrl])
 
-        await ffmpeg.load({
-          coreURL: `${baseURL}/ffmpeg-core.js`,
-          wasmURL: `${baseURL}/ffmpeg-core.wasm`,
+  // The source is registered with the queue once and shared by every job
+  useEffect(() => {
+    let cancelled = false
+
+    console.log("[v0] Mounting file in FFmpeg...")
+    queue
+      .registerInput(inputName, videoFile.file)
+      .then(() => {
+        if (!cancelled) setInputReady(true)
+      })
+      .catch((error) => {
+        console.error("[v0] Input write error:", error)
+        toast({
+          title: "Failed to prepare video",
+          description: error instanceof Error ? error.message : "Please re-upload the video",
+          variant: "destructive",
         })
+      })
+
+    return () => {
+      cancelled = true
+      queue.releaseInput(inputName)
+    }
+  }, [queue, videoFile, inputName, toast])
 
-        console.log("[v0] FFmpeg loaded successfully")
-        setFfmpegLoaded(true)
-      } catch (error) {
-        console.error("[v0] FFmpeg load error:", error)
+  // The music track is mounted next to the source for the finishing pass
+  const music = audio.music
+  const musicInputName = music ? `${music.id}.${getInputExtension(music.format)}` : null
+  useEffect(() => {
+    if (!music || !musicInputName) return
+    let cancelled = false
+
+    queue
+      .registerInput(musicInputName, music.file)
+      .then(() => {
+        if (!cancelled) setReadyMusicInput(musicInputName)
+      })
+      .catch((error) => {
+        console.error("[v0] Music input error:", error)
         toast({
-          title: "Failed to load video editor",
-          description: "Please check your internet connection and refresh the page",
+          title: "Failed to prepare music",
+          description: error instanceof Error ? error.message : "Please add the music file again",
           variant: "destructive",
         })
-      }
+      })
+
+    return () => {
+      cancelled = true
+      queue.releaseInput(musicInputName)
     }
+  }, [queue, musicInputName, toast])
 
-    loadFFmpeg()
-  }, [toast])
+  // Burned-in subtitles are set in the bundled sans font
+  const burnSubtitles = subtitles.track !== null && subtitles.mode === "burn"
+  // Contact sheets stamp their frames in the mono font
+  const overlayInputs = useOverlayInputs(queue, overlays, [
+    ...(burnSubtitles ? (["sans"] as const) : []),
+    ...(videoFile.hasVideo ? (["mono"] as const) : []),
+  ])
+
+  // The shuttle sets its own rates and returns to this one when it stops
+  useEffect(() => {
+    const video = videoRef.current
+    if (video && shuttle.speed === 0) {
+      video.playbackRate = playbackRate
+    }
+  }, [playbackRate, shuttle.speed])
+
+  // Keep the playhead on screen while playing a zoomed-in timeline
+  useEffect(() => {
+    if (isPlaying) {
+      setView((current) => revealTime(current, currentTime, duration))
+    }
+  }, [isPlaying, currentTime, duration, setView])
 
   useEffect(() => {
     const video = videoRef.current
@@ -97,7 +342,34 @@ export function VideoTimeline({ videoFile, onReset, isProcessing, setIsProcessin
     const handleLoadedMetadata = () => {
       const videoDuration = video.duration
       setDuration(videoDuration)
-      setEndTime(videoDuration)
+      setFrameSize(video.videoWidth > 0 ? { width: video.videoWidth, height: video.videoHeight } : null)
+      // A restored project picks up where it left off, undo history included
+      const fitsVideo = (edits: ProjectEdits) =>
+        edits.segments.length > 0 && edits.segments.every((segment) => segment.end <= videoDuration + 0.001)
+      const savedHistory = project.history
+      const history =
+        savedHistory && savedHistory.entries.every((entry) => fitsVideo(entry.state))
+          ? restoreHistory(savedHistory)
+          : createHistory<ProjectEdits>(
+              {
+                segments:
+                  project.edits && fitsVideo(project.edits)
+                    ? project.edits.segments
+                    : createInitialCutList(videoDuration),
+                exportSettings: project.edits
+                  ? withExportDefaults(project.edits.exportSettings)
+                  : getDefaultExportSettings(inputName),
+                trimMode: project.edits?.trimMode ?? "fast",
+                reframe: project.edits?.reframe ?? DEFAULT_REFRAME,
+                audio: project.edits?.audio ?? DEFAULT_AUDIO,
+                speed: project.edits?.speed ?? DEFAULT_SPEED,
+                overlays: project.edits?.overlays ?? DEFAULT_OVERLAYS,
+                subtitles: project.edits?.subtitles ?? DEFAULT_SUBTITLES,
+              },
+              "Opened video",
+            )
+      editHistory.reset(history)
+      setSelectedSegmentId(history.entries[history.index].state.segments[0]?.id ?? null)
     }
 
     const handleTimeUpdate = () => {
@@ -108,198 +380,522 @@ export function VideoTimeline({ videoFile, onReset, isProcessing, setIsProcessin
       setIsPlaying(false)
     }
 
+    const handlePlay = () => {
+      setIsPlaying(true)
+    }
+
+    const handlePause = () => {
+      setIsPlaying(false)
+    }
+
     video.addEventListener("loadedmetadata", handleLoadedMetadata)
     video.addEventListener("timeupdate", handleTimeUpdate)
     video.addEventListener("ended", handleEnded)
+    video.addEventListener("play", handlePlay)
+    video.addEventListener("pause", handlePause)
 
     return () => {
       video.removeEventListener("loadedmetadata", handleLoadedMetadata)
       video.removeEventListener("timeupdate", handleTimeUpdate)
       video.removeEventListener("ended", handleEnded)
+      video.removeEventListener("play", handlePlay)
+      video.removeEventListener("pause", handlePause)
     }
   }, [])
 
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.code === "Space" && !isProcessing) {
-        e.preventDefault()
-        togglePlayPause()
-      }
-    }
-
-    window.addEventListener("keydown", handleKeyPress)
-    return () => window.removeEventListener("keydown", handleKeyPress)
-  }, [isPlaying, isProcessing])
-
   const togglePlayPause = () => {
     const video = videoRef.current
     if (!video) return
 
-    if (isPlaying) {
-      video.pause()
+    if (isPlaying || shuttle.speed !== 0) {
+      shuttle.stop()
     } else {
       video.play()
     }
-    setIsPlaying(!isPlaying)
   }
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60)
-    const secs = Math.floor(seconds % 60)
-    return `${mins}:${secs.toString().padStart(2, "0")}`
+  const seekTo = (time: number) => {
+    const video = videoRef.current
+    if (!video) return
+
+    const clamped = Math.max(0, Math.min(duration, time))
+    video.currentTime = clamped
+    setCurrentTime(clamped)
+  }
+
+  const stepBy = (seconds: number) => {
+    shuttle.stop()
+    seekTo((videoRef.current?.currentTime ?? currentTime) + seconds)
+  }
+
+  // In/out keys edit the selected segment, or the one under the playhead
+  const updateSegments = (label: string, update: (segments: CutSegment[]) => CutSegment[]) => {
+    editHistory.edit(label, (state) => ({ ...state, segments: update(state.segments) }))
+  }
+
+  const getEditTarget = () =>
+    segments.find((segment) => segment.id === selectedSegmentId) ??
+    segments.find((segment) => currentTime >= segment.start && currentTime <= segment.end)
+
+  const setEdgeAtPlayhead = (edge: SegmentEdge) => {
+    const target = getEditTarget()
+    if (!target) return
+
+    setSelectedSegmentId(target.id)
+    updateSegments(`Set ${edge === "start" ? "in" : "out"} point`, (prev) =>
+      moveSegmentEdge(prev, target.id, edge, currentTime, duration),
+    )
+  }
+
+  const jumpToEdge = (edge: SegmentEdge) => {
+    const target = getEditTarget()
+    if (target) {
+      seekTo(edge === "start" ? target.start : target.end)
+    }
+  }
+
+  const handleBindingsChange = (bindings: KeyBindings) => {
+    setKeyBindings(bindings)
+    saveKeyBindings(bindings)
   }
 
+  const formatTime = (seconds: number) => formatTimecode(seconds, timeFormat, frameRate)
+
   const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>) => {
     if (!timelineRef.current || !videoRef.current) return
+    // Two-finger touches are pinch zoom, not seeks
+    if ("touches" in e && e.touches.length > 1) return
 
-    const rect = timelineRef.current.getBoundingClientRect()
     const clientX = "touches" in e ? e.touches[0].clientX : e.clientX
-    const x = clientX - rect.left
-    const percentage = x / rect.width
-    const time = percentage * duration
+    const time = clientXToTime(clientX)
 
     videoRef.current.currentTime = time
     setCurrentTime(time)
   }
 
-  const handleMarkerDrag = (clientX: number, isStart: boolean) => {
+  const handleMarkerDrag = (clientX: number, id: string, edge: SegmentEdge) => {
     if (!timelineRef.current) return
 
-    const rect = timelineRef.current.getBoundingClientRect()
-    const x = clientX - rect.left
-    const percentage = Math.max(0, Math.min(1, x / rect.width))
-    const time = percentage * duration
-
-    if (isStart) {
-      setStartTime(Math.min(time, endTime - 0.1))
-    } else {
-      setEndTime(Math.max(time, startTime + 0.1))
+    let time = clientXToTime(clientX)
+
+    if (snapping) {
+      const tolerance = (SNAP_DISTANCE_PX / timelineRef.current.getBoundingClientRect().width) * getViewSpan(view)
+      const targets = getSnapTargets(time, {
+        keyframes,
+        scenes: scenes.boundaries,
+        playhead: currentTime,
+        segments,
+        dragged: { id, edge },
+      })
+      const target = findSnapTarget(time, targets, tolerance)
+      if (target) time = target.time
+      setSnapTarget(target)
     }
+
+    // The drag lands in the history as one step when it ends
+    editHistory.preview((state) => ({ ...state, segments: moveSegmentEdge(state.segments, id, edge, time, duration) }))
   }
 
   const handleMove = (e: MouseEvent | TouchEvent) => {
     e.preventDefault() // Prevent scrolling on mobile
     const clientX = "touches" in e ? e.touches[0].clientX : e.clientX
 
-    if (isDraggingStart) {
-      handleMarkerDrag(clientX, true)
-    } else if (isDraggingEnd) {
-      handleMarkerDrag(clientX, false)
+    if (dragging) {
+      handleMarkerDrag(clientX, dragging.id, dragging.edge)
     }
   }
 
   const handleEnd = () => {
-    setIsDraggingStart(false)
-    setIsDraggingEnd(false)
+    if (dragging) {
+      editHistory.commit(`Move ${dragging.edge === "start" ? "in" : "out"} point`)
+    }
+    setDragging(null)
+    setSnapTarget(null)
+  }
+
+  const startDragging = (id: string, edge: SegmentEdge) => {
+    setSelectedSegmentId(id)
+    setDragging({ id, edge })
   }
 
+  // The window listeners outlive the render that added them, so they go through a ref to reach
+  // the current view, snapping and segments when the timeline zooms or changes mid-drag
+  const dragHandlersRef = useRef({ move: handleMove, end: handleEnd })
+  dragHandlersRef.current = { move: handleMove, end: handleEnd }
+
   useEffect(() => {
-    if (isDraggingStart || isDraggingEnd) {
-      window.addEventListener("mousemove", handleMove)
-      window.addEventListener("mouseup", handleEnd)
-      window.addEventListener("touchmove", handleMove, { passive: false })
-      window.addEventListener("touchend", handleEnd)
+    if (dragging) {
+      const onMove = (e: MouseEvent | TouchEvent) => dragHandlersRef.current.move(e)
+      const onEnd = () => dragHandlersRef.current.end()
+
+      window.addEventListener("mousemove", onMove)
+      window.addEventListener("mouseup", onEnd)
+      window.addEventListener("touchmove", onMove, { passive: false })
+      window.addEventListener("touchend", onEnd)
 
       return () => {
-        window.removeEventListener("mousemove", handleMove)
-        window.removeEventListener("mouseup", handleEnd)
-        window.removeEventListener("touchmove", handleMove)
-        window.removeEventListener("touchend", handleEnd)
+        window.removeEventListener("mousemove", onMove)
+        window.removeEventListener("mouseup", onEnd)
+        window.removeEventListener("touchmove", onMove)
+        window.removeEventListener("touchend", onEnd)
       }
     }
-  }, [isDraggingStart, isDraggingEnd])
+  }, [dragging])
+
+  const handleAddSegment = (kind: SegmentKind) => {
+    const start = Math.min(currentTime, Math.max(0, duration - 1))
+    const segment = createSegment(kind, start, Math.min(duration, start + 5))
+    updateSegments(`Add ${kind} segment`, (prev) => [...prev, segment])
+    setSelectedSegmentId(segment.id)
+  }
 
-  const handleTrim = async () => {
-  if (!ffmpegRef.current || !ffmpegLoaded) {
+  const handleSplitSegment = () => {
+    updateSegments("Split segment", (prev) => splitSegmentAt(prev, currentTime))
+  }
+
+  const handleSelectScene = (time: number) => {
+    setSelectedScene(time)
+    seekTo(time)
+  }
+
+  const handleSceneSplit = (time: number) => {
+    updateSegments("Split at scene change", (prev) => splitSegmentAt(prev, time))
+  }
+
+  // Like the in/out keys: the selected segment, or the one the boundary falls in
+  const handleSceneEdge = (time: number, edge: SegmentEdge) => {
+    const target =
+      segments.find((segment) => segment.id === selectedSegmentId) ??
+      segments.find((segment) => time >= segment.start && time <= segment.end)
+    if (!target) return
+
+    setSelectedSegmentId(target.id)
+    updateSegments(`Set ${edge === "start" ? "in" : "out"} point at scene change`, (prev) =>
+      moveSegmentEdge(prev, target.id, edge, time, duration),
+    )
+  }
+
+  // A second of lead-in, so the pause is heard in context
+  const handlePlaySilence = (range: SilentRange) => {
+    seekTo(range.start - 1)
+    videoRef.current?.play()
+  }
+
+  const handleApplySilences = (exportAfter: boolean) => {
+    if (!silence.ranges) return
+    const cuts = getAcceptedCuts(silence.ranges, silence.settings.padding, duration)
+    if (cuts.length === 0) return
+
+    updateSegments(`Remove ${cuts.length} ${cuts.length === 1 ? "silence" : "silences"}`, (prev) => [
+      ...prev,
+      ...toRemoveSegments(cuts),
+    ])
+    silence.clear()
     toast({
-      title: "Please wait",
-      description: "Video editor is still loading",
+      title: "Silences removed",
+      description: `${cuts.length} ${cuts.length === 1 ? "pause" : "pauses"}, ${formatTime(
+        getRangesDuration(cuts),
+      )} in total`,
     })
-    return
+    if (exportAfter) setExportAfterEdit(true)
   }
 
-  setIsProcessing(true)
-  setTrimmedVideoUrl(null)
-  setProcessingProgress(0)
+  const handleToggleSegmentKind = (id: string) => {
+    updateSegments("Toggle keep/remove", (prev) =>
+      prev.map((segment) =>
+        segment.id === id ? { ...segment, kind: segment.kind === "keep" ? "remove" : "keep" } : segment,
+      ),
+    )
+  }
 
-  try {
-    console.log("[v0] Starting trim process...")
-    const ffmpeg = ffmpegRef.current
-    const fileExtension = videoFile.filename.split(".").pop()?.toLowerCase() || "mp4"
-    const inputFileName = `input.${fileExtension}`
-    const outputFileName = `output.${fileExtension}`
+  const handleSegmentSpeedChange = (id: string, segmentSpeed: number) => {
+    updateSegments(`Set segment speed ${formatSpeed(segmentSpeed)}`, (prev) =>
+      prev.map((segment) => (segment.id === id ? { ...segment, speed: segmentSpeed } : segment)),
+    )
+  }
 
-    console.log("[v0] Reading video file...")
-    let videoData: Uint8Array
+  const handleSpeedChange = (label: string, settings: SpeedSettings) => {
+    editHistory.edit(label, (state) => ({ ...state, speed: settings }))
+  }
 
-    // Always use the pre-loaded data which we now ensure exists
-    if (videoFile.data) {
-      console.log("[v0] Using pre-loaded data")
-      videoData = new Uint8Array(videoFile.data)
-    } else {
-      // Fallback: This shouldn't happen with the new approach, but keep for safety
-      console.error("[v0] Warning: No pre-loaded data found, attempting direct read...")
-      throw new Error("Video data not available. Please re-upload the video.")
+  const handleDeleteSegment = (id: string) => {
+    updateSegments("Delete segment", (prev) => prev.filter((segment) => segment.id !== id))
+    if (selectedSegmentId === id) {
+      setSelectedSegmentId(null)
     }
+  }
 
-    console.log("[v0] Writing file to FFmpeg...")
-    await ffmpeg.writeFile(inputFileName, videoData)
-
-    console.log("[v0] Executing FFmpeg trim command...")
-    await ffmpeg.exec([
-      "-ss",
-      startTime.toString(),
-      "-to",
-      endTime.toString(),
-      "-i",
-      inputFileName,
-      "-c",
-      "copy",
-      "-avoid_negative_ts",
-      "make_zero",
-      outputFileName,
-    ])
+  const handleImportCuts = ({ segments: imported }: CutImportResult) => {
+    updateSegments("Import cut list", () => imported)
+    setSelectedSegmentId(imported[0].id)
+  }
 
-    console.log("[v0] Reading trimmed video...")
-    const data = await ffmpeg.readFile(outputFileName)
-    const blob = new Blob([data], { type: `video/${fileExtension}` })
-    const url = URL.createObjectURL(blob)
+  const handleTrimModeChange = (mode: TrimMode) => {
+    const label = TRIM_MODE_OPTIONS.find((option) => option.value === mode)?.label
+    editHistory.edit(`Switch to ${label} mode`, (state) => ({ ...state, trimMode: mode }))
+  }
 
-    setTrimmedVideoUrl(url)
-    setIsProcessing(false)
-    setProcessingProgress(100)
+  const handleExportSettingsChange = (settings: ExportSettings) => {
+    editHistory.edit("Change export settings", (state) => ({ ...state, exportSettings: settings }))
+  }
 
-    toast({
-      title: "Video trimmed successfully",
-      description: "Your video is ready to download",
+  const handleReframeChange = (label: string, settings: ReframeSettings) => {
+    editHistory.edit(label, (state) => ({ ...state, reframe: settings }))
+  }
+
+  // Like marker drags, a crop drag lands in the history as one step when it ends
+  const handleCropPreview = (crop: CropRect) => {
+    editHistory.preview((state) => ({ ...state, reframe: { ...state.reframe, crop } }))
+  }
+
+  const handleAudioChange = (label: string, settings: AudioSettings) => {
+    editHistory.edit(label, (state) => ({ ...state, audio: settings }))
+  }
+
+  const handleAudioPreview = (settings: AudioSettings) => {
+    editHistory.preview((state) => ({ ...state, audio: settings }))
+  }
+
+  const handleOverlayChange = (label: string, settings: OverlaySettings) => {
+    editHistory.edit(label, (state) => ({ ...state, overlays: settings }))
+  }
+
+  const handleOverlayPreview = (settings: OverlaySettings) => {
+    editHistory.preview((state) => ({ ...state, overlays: settings }))
+  }
+
+  const handleSubtitleChange = (label: string, settings: SubtitleSettings) => {
+    editHistory.edit(label, (state) => ({ ...state, subtitles: settings }))
+  }
+
+  const handleSubtitlePreview = (settings: SubtitleSettings) => {
+    editHistory.preview((state) => ({ ...state, subtitles: settings }))
+  }
+
+  const handleCueMovePreview = (id: string, start: number, end: number) => {
+    editHistory.preview((state) =>
+      state.subtitles.track
+        ? { ...state, subtitles: { ...state.subtitles, track: updateCue(state.subtitles.track, id, { start, end }) } }
+        : state,
+    )
+  }
+
+  const handleSelectCue = (cue: SubtitleCue) => {
+    setSelectedCueId(cue.id)
+    seekTo(cue.start)
+  }
+
+  // Nothing is saved until the video has loaded and the cut list exists
+  const projectChanges = useMemo(
+    () => (duration > 0 ? { edits: editHistory.state, history: editHistory.history } : null),
+    [duration, editHistory.state, editHistory.history],
+  )
+  useProjectAutosave(project, projectChanges)
+
+  const keepRanges = resolveKeepRanges(segments, duration)
+  // Length of the export after speed changes
+  const retimePieces = getRetimePieces(keepRanges, segments, speed.rate)
+  const outputDuration = getRetimedDuration(retimePieces)
+  const speedDescription = describeSpeed(speed, retimePieces)
+  // Overlays are timed in the output, so the playhead is mapped through the cuts and speed changes
+  const trimmedTime = getOutputTime(keepRanges, currentTime)
+  const overlayTime = trimmedTime === null ? null : getRetimedTime(retimePieces, speed.reverse, trimmedTime)
+  const musicReady = musicInputName !== null && readyMusicInput === musicInputName
+  const filterOptions = {
+    hasVideo: videoFile.hasVideo,
+    hasAudio,
+    ranges: keepRanges,
+    fontPaths: overlayInputs.fontPaths,
+    watermarkPath: overlayInputs.watermarkPath,
+    subtitleFontsDir: overlayInputs.fontDirs.sans ?? null,
+  }
+  const exportFilters = buildEditFilters(editHistory.state, {
+    ...filterOptions,
+    musicPath: musicReady ? getInputPath(musicInputName) : null,
+  })
+  // The shell script reads the music, fonts and watermark from next to the source
+  const scriptFilters = buildEditFilters(editHistory.state, {
+    ...filterOptions,
+    musicPath: music?.name ?? null,
+    fontPaths: Object.fromEntries(
+      (Object.keys(OVERLAY_FONTS) as OverlayFont[]).map((font) => [font, OVERLAY_FONTS[font].file]),
+    ),
+    watermarkPath: overlays.watermark?.name ?? null,
+    subtitleFontsDir: ".",
+  })
+  const getSubtitleDownload = () =>
+    subtitles.track
+      ? {
+          content: buildSubtitleFile(subtitles.track, keepRanges, retimePieces, speed.reverse),
+          extension: subtitles.track.format,
+        }
+      : null
+  const audioPreview = useAudioPreview(videoRef, audio, keepRanges)
+
+  const handleTrim = (mode: TrimMode = trimMode) => {
+    if (!inputReady) {
+      toast({
+        title: "Please wait",
+        description: "Video editor is still loading",
+      })
+      return
+    }
+    if (music && !musicReady) {
+      toast({
+        title: "Please wait",
+        description: "The music track is still loading",
+      })
+      return
+    }
+    if (videoFile.hasVideo && !overlayInputs.ready) {
+      toast({
+        title: "Please wait",
+        description: "The fonts and images for the overlays are still loading",
+      })
+      return
+    }
+
+    // The job captures the cut list and settings as they are now, so editing can continue while it runs
+    const ranges = keepRanges
+    const settings = exportSettings
+    const analysis = mediaInfo.info
+    const filters = exportFilters
+    const subtitleDownload = subtitles.mode === "file" ? getSubtitleDownload() : null
+    console.log(`[v0] Queueing ${mode} trim for ${ranges.length} segment(s)...`)
+
+    const { id } = queue.enqueue({
+      label: `Trim ${videoFile.filename} (${formatTime(getRangesDuration(ranges))})`,
+      run: ({ ffmpeg, setStep }) =>
+        exportRanges(ffmpeg, inputFileName, ranges, {
+          mode,
+          settings,
+          onStep: setStep,
+          mediaInfo: analysis,
+          filters,
+        }),
+      onSuccess: (output) => {
+        setTrimmedVideoUrl(URL.createObjectURL(output.file))
+        setTrimmedOutput({ mimeType: output.mimeType, extension: output.extension })
+        setTrimResult(output.trim)
+        setTrimmedSubtitles(subtitleDownload)
+
+        toast({
+          title: "Video trimmed successfully",
+          description: `${TRIM_METHOD_LABELS[output.trim.method]}: your video is ready to download`,
+        })
+        console.log("[v0] Trim complete!")
+      },
+      onError: (error) => {
+        if (error instanceof JobCancelledError) return
+
+        console.error("[v0] Trim error:", error)
+        toast({
+          title: "Failed to trim video",
+          description: error instanceof Error ? error.message : "Unknown error occurred",
+          variant: "destructive",
+        })
+      },
     })
+    setExportJobIds((prev) => [...prev, id])
+  }
 
-    console.log("[v0] Cleaning up files...")
-    await ffmpeg.deleteFile(inputFileName)
-    await ffmpeg.deleteFile(outputFileName)
-    console.log("[v0] Trim complete!")
-  } catch (error) {
-    console.error("[v0] Trim error:", error)
-    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred"
-    toast({
-      title: "Failed to trim video",
-      description: errorMessage,
-      variant: "destructive",
+  const sourceStem = videoFile.filename.replace(/\.[^.]+$/, "")
+  // Contact sheets and image sequences cover the selected segment, or the whole video
+  const selectedSegment = segments.find((segment) => segment.id === selectedSegmentId)
+  const stillsRange = selectedSegment
+    ? { start: selectedSegment.start, end: selectedSegment.end }
+    : { start: 0, end: duration }
+
+  // Still exports run on the queue like trims and download as soon as they are done
+  const enqueueStill = <T,>(label: string, run: (context: JobContext) => Promise<T>, onDone: (result: T) => void) => {
+    if (!inputReady) {
+      toast({ title: "Please wait", description: "The video is still being prepared" })
+      return
+    }
+    queue.enqueue({
+      label,
+      run,
+      onSuccess: onDone,
+      onError: (error) => {
+        if (error instanceof JobCancelledError) return
+
+        console.error("[v0] Still export error:", error)
+        toast({
+          title: "Failed to export stills",
+          description: error instanceof Error ? error.message : "Unknown error occurred",
+          variant: "destructive",
+        })
+      },
     })
-    setIsProcessing(false)
-    setProcessingProgress(0)
   }
-}
+
+  const handleGrabFrame = () => {
+    const time = videoRef.current?.currentTime ?? currentTime
+    const format = stillFormat
+    enqueueStill(
+      `Save frame at ${formatTime(time)}`,
+      ({ ffmpeg }) => grabFrame(ffmpeg, inputFileName, time, format),
+      (image) => {
+        downloadBlob(image, `${sourceStem}-${time.toFixed(3)}s.${STILL_FORMATS[format].extension}`)
+        toast({ title: "Frame saved", description: `${STILL_FORMATS[format].label} at ${formatTime(time)}` })
+      },
+    )
+  }
+
+  const handleContactSheet = (options: ContactSheetOptions) => {
+    const fontPath = overlayInputs.fontPaths.mono
+    if (!fontPath) {
+      toast({ title: "Please wait", description: "The font for the timestamps is still loading" })
+      return
+    }
+    const range = stillsRange
+    enqueueStill(
+      `Contact sheet ${options.columns}×${options.rows} of ${videoFile.filename}`,
+      ({ ffmpeg, setProgress }) =>
+        createContactSheet(ffmpeg, inputFileName, range, options, { fontPath, formatTime, onProgress: setProgress }),
+      (sheet) => downloadBlob(sheet, `${sourceStem}-contact-sheet.${STILL_FORMATS[options.format].extension}`),
+    )
+  }
+
+  const handleFrameSequence = (options: FrameSequenceOptions) => {
+    const range = stillsRange
+    enqueueStill(
+      `Frames of ${videoFile.filename} (${formatTime(range.end - range.start)})`,
+      ({ ffmpeg }) => exportFrameSequence(ffmpeg, inputFileName, range, options),
+      ({ zip, frameCount }) => {
+        downloadBlob(zip, `${sourceStem}-frames.zip`)
+        toast({
+          title: "Frames exported",
+          description: `${frameCount} ${frameCount === 1 ? "frame" : "frames"} in the ZIP`,
+        })
+      },
+    )
+  }
+
+  // Always frame-accurate: fast mode would start each kept range at the keyframe before it and
+  // bring back some or all of a short pause that was just cut
+  useEffect(() => {
+    if (!exportAfterEdit) return
+    setExportAfterEdit(false)
+    handleTrim("precise")
+  }, [exportAfterEdit])
+
+  const getTrimmedStem = () => `trimmed-${sourceStem}`
+
+  const downloadSubtitles = (file: { content: string; extension: string } | null) => {
+    if (file) downloadBlob(new Blob([file.content], { type: "text/plain" }), `${getTrimmedStem()}.${file.extension}`)
+  }
 
   const handleDownload = () => {
     if (!trimmedVideoUrl) return
 
     const link = document.createElement("a")
     link.href = trimmedVideoUrl
-    link.download = `trimmed-${videoFile.filename}`
+    link.download = `${getTrimmedStem()}.${trimmedOutput?.extension ?? getFileExtension(videoFile.filename)}`
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
+    downloadSubtitles(trimmedSubtitles)
 
     toast({
       title: "Download started",
@@ -307,14 +903,95 @@ export function VideoTimeline({ videoFile, onReset, isProcessing, setIsProcessin
     })
   }
 
-  const startPercentage = (startTime / duration) * 100
-  const endPercentage = (endTime / duration) * 100
-  const currentPercentage = (currentTime / duration) * 100
+  const toPercentage = (time: number) => timeToViewPercent(time, view)
+  const currentPercentage = toPercentage(currentTime)
+
+  // Stream copy starts each kept range at the keyframe before its in point. Edits timed to
+  // the output are always cut on the exact frame, so then nothing shifts.
+  const copyCutStarts =
+    trimMode === "fast" && !needsExactCuts(exportFilters) && keyframes
+      ? keepRanges.map((range) => ({ range, start: getCopyCutStart(range.start, keyframes) }))
+      : []
+  const readoutSegment = segments.find((segment) => segment.id === (dragging?.id ?? selectedSegmentId))
+  // Merged keep segments share a range, so the segment's cut is that of the range it falls in
+  const readoutCut =
+    readoutSegment &&
+    copyCutStarts.find(({ range }) => range.start <= readoutSegment.start && readoutSegment.start < range.end)
+  const readoutShift = readoutCut ? readoutCut.range.start - readoutCut.start : 0
+
+  const frameDuration = 1 / (frameRate ?? 30)
+  const isProcessing = jobs.some(
+    (job) => exportJobIds.includes(job.id) && (job.status === "queued" || job.status === "running"),
+  )
+  const canTrim = inputReady && keepRanges.length > 0
+
+  useKeyboardShortcuts(
+    keyBindings,
+    {
+      togglePlay: togglePlayPause,
+      shuttleReverse: shuttle.shuttleReverse,
+      shuttleStop: shuttle.stop,
+      shuttleForward: shuttle.shuttleForward,
+      stepBack: () => stepBy(-frameDuration),
+      stepForward: () => stepBy(frameDuration),
+      stepBackSecond: () => stepBy(-1),
+      stepForwardSecond: () => stepBy(1),
+      setIn: () => setEdgeAtPlayhead("start"),
+      setOut: () => setEdgeAtPlayhead("end"),
+      jumpToIn: () => jumpToEdge("start"),
+      jumpToOut: () => jumpToEdge("end"),
+      trim: () => canTrim && handleTrim(),
+      download: handleDownload,
+      undo: () => !dragging && editHistory.undo(),
+      redo: () => !dragging && editHistory.redo(),
+      toggleSnapping: () => setSnapping((current) => !current),
+      showHelp: () => setShortcutsOpen(true),
+    },
+    !shortcutsOpen,
+  )
 
   return (
     <div className="space-y-8">
       <div className="relative bg-black rounded-xl overflow-hidden aspect-video shadow-2xl ring-1 ring-border">
-        <video ref={videoRef} src={videoFile.url} className="w-full h-full" onClick={togglePlayPause} />
+        <ReframePreview
+          settings={reframe}
+          frameSize={videoFile.hasVideo ? frameSize : null}
+          editing={cropEditing}
+          onCropPreview={handleCropPreview}
+          onCropCommit={() => editHistory.commit("Crop")}
+          overlay={
+            !cropEditing && (
+              <>
+                {subtitles.track && <SubtitlePreview cues={subtitles.track.cues} time={currentTime} />}
+                <OverlayLayer
+                  settings={overlays}
+                  time={overlayTime}
+                  disabled={duration <= 0}
+                  onPreview={handleOverlayPreview}
+                  onCommit={editHistory.commit}
+                />
+              </>
+            )
+          }
+        >
+          <video ref={videoRef} src={videoFile.url} className="w-full h-full" onClick={togglePlayPause} />
+        </ReframePreview>
+
+        {(!videoFile.hasVideo || videoFile.isProxy) && (
+          <div className="absolute top-3 left-3 flex gap-2 pointer-events-none">
+            {!videoFile.hasVideo && (
+              <span className="flex items-center gap-1 rounded-md bg-black/60 px-2 py-1 text-xs text-white">
+                <Music className="h-3 w-3" />
+                Audio only
+              </span>
+            )}
+            {videoFile.isProxy && (
+              <span className="rounded-md bg-black/60 px-2 py-1 text-xs text-white">
+                Preview proxy · exports use the original
+              </span>
+            )}
+          </div>
+        )}
 
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
           {!isPlaying && (
@@ -330,7 +1007,6 @@ export function VideoTimeline({ videoFile, onReset, isProcessing, setIsProcessin
           variant="outline"
           size="icon"
           onClick={togglePlayPause}
-          disabled={isProcessing}
           className="shrink-0 bg-transparent"
         >
           {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
@@ -340,106 +1016,473 @@ export function VideoTimeline({ videoFile, onReset, isProcessing, setIsProcessin
           {formatTime(currentTime)} / {formatTime(duration)}
         </div>
 
+        <AudioLevelMeter getLevel={audioPreview.getLevel} />
+
+        <Select value={String(playbackRate)} onValueChange={(value) => setPlaybackRate(Number(value))}>
+          <SelectTrigger size="sm" className="shrink-0" aria-label="Preview speed" title="Preview speed">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_RATES.map((rate) => (
+              <SelectItem key={rate} value={String(rate)}>
+                {formatSpeed(rate)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setTimeFormat(timeFormat === "clock" ? "smpte" : "clock")}
+          disabled={!frameRate && timeFormat === "clock"}
+          className="shrink-0 text-xs"
+          title={frameRate ? `${frameRate} fps` : "Frame rate unknown"}
+        >
+          {timeFormat === "clock" ? "SMPTE" : "h:mm:ss.mmm"}
+        </Button>
+
+        {videoFile.hasVideo && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleGrabFrame}
+            disabled={!inputReady}
+            className="shrink-0"
+            aria-label="Save current frame"
+            title={`Save current frame as ${STILL_FORMATS[stillFormat].label}`}
+          >
+            <Camera className="h-4 w-4" />
+          </Button>
+        )}
+
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setShortcutsOpen(true)}
+          className="shrink-0"
+          aria-label="Keyboard shortcuts"
+        >
+          <Keyboard className="h-4 w-4" />
+        </Button>
+
         <Button variant="outline" onClick={onReset} disabled={isProcessing} className="shrink-0 bg-transparent">
           <RotateCcw className="mr-2 h-4 w-4" />
           New Video
         </Button>
       </div>
 
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3 px-2">
+        {videoFile.hasVideo && (
+          <ReframeControls
+            settings={reframe}
+            frameSize={frameSize}
+            editing={cropEditing}
+            disabled={duration <= 0}
+            onEditingChange={setCropEditing}
+            onChange={handleReframeChange}
+          />
+        )}
+        <SpeedControls settings={speed} disabled={duration <= 0} onChange={handleSpeedChange} />
+      </div>
+
       <div className="space-y-6 px-2">
         <div className="flex items-center justify-between">
           <h3 className="text-lg font-semibold">Trim Timeline</h3>
-          <div className="text-sm font-medium text-muted-foreground tabular-nums">
-            {formatTime(startTime)} → {formatTime(endTime)} ({formatTime(endTime - startTime)})
+          <div className="flex items-center gap-3">
+            <div className="text-sm font-medium text-muted-foreground tabular-nums">
+              {formatTime(outputDuration)} in {keepRanges.length} {keepRanges.length === 1 ? "segment" : "segments"}
+              {speedDescription && `, ${speedDescription}`}
+            </div>
+            {videoFile.hasVideo && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={scenes.detect}
+                disabled={!inputReady || scenes.isDetecting}
+                title="Find shot boundaries in the whole file"
+              >
+                {scenes.isDetecting ? (
+                  <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                ) : (
+                  <ScanSearch className="mr-1 h-4 w-4" />
+                )}
+                {scenes.boundaries ? "Detect scenes again" : "Detect scenes"}
+              </Button>
+            )}
+            <Button
+              variant={snapping ? "secondary" : "ghost"}
+              size="icon-sm"
+              onClick={() => setSnapping((current) => !current)}
+              aria-pressed={snapping}
+              aria-label="Snap to keyframes, playhead and markers"
+              title="Snap to keyframes, playhead and markers"
+            >
+              <Magnet className="h-4 w-4" />
+            </Button>
           </div>
         </div>
 
-        <div
-          ref={timelineRef}
-          className="relative h-32 md:h-24 bg-secondary/50 rounded-xl cursor-pointer select-none overflow-visible ring-1 ring-border transition-all hover:ring-primary/50 touch-none"
-          onClick={handleTimelineClick}
-          onTouchStart={handleTimelineClick}
-        >
-          <div
-            className="absolute top-0 bottom-0 bg-primary/20 border-l-4 border-r-4 border-primary transition-all"
-            style={{
-              left: `${startPercentage}%`,
-              right: `${100 - endPercentage}%`,
-            }}
-          />
+        <div className="space-y-1">
+          <TimelineRuler view={view} />
 
           <div
-            className="absolute top-0 bottom-0 w-1 bg-foreground z-10 transition-all pointer-events-none"
-            style={{ left: `${currentPercentage}%` }}
+            ref={timelineRef}
+            className="relative h-32 md:h-24 bg-secondary/50 rounded-xl cursor-pointer select-none overflow-hidden ring-1 ring-border transition-all hover:ring-primary/50 touch-none"
+            onClick={handleTimelineClick}
+            onTouchStart={handleTimelineClick}
           >
-            <div className="absolute -top-1 left-1/2 -translate-x-1/2 w-4 h-4 bg-foreground rounded-full shadow-lg" />
-          </div>
-
-          <div className="absolute top-0 bottom-0 z-20 group" style={{ left: `${startPercentage}%` }}>
-            <div
-              className={`absolute inset-0 w-2 md:w-1.5 bg-primary transition-all ${isDraggingStart ? "w-3" : "group-hover:w-3"}`}
+            <TimelineFilmstrip
+              thumbnails={thumbnails}
+              peaks={peaks}
+              peakGain={keepsOriginalAudio(audio) ? dbToGain(audio.gainDb) : 0}
+              view={view}
+              duration={duration}
             />
+            {keyframes && <TimelineKeyframes keyframes={keyframes} view={view} />}
+
+            {keepRanges.map((range) => (
+              <div
+                key={`${range.start}-${range.end}`}
+                className="absolute top-0 bottom-0 bg-primary/20 pointer-events-none"
+                style={{
+                  left: `${toPercentage(range.start)}%`,
+                  right: `${100 - toPercentage(range.end)}%`,
+                }}
+              />
+            ))}
+
+            {segments.map((segment) => (
+              <div
+                key={segment.id}
+                className={cn(
+                  "absolute bottom-0 h-3 transition-all",
+                  segment.kind === "keep" ? "bg-primary/60" : "bg-destructive/60",
+                  segment.id === selectedSegmentId && "h-4 ring-2 ring-foreground/40",
+                )}
+                style={{
+                  left: `${toPercentage(segment.start)}%`,
+                  right: `${100 - toPercentage(segment.end)}%`,
+                }}
+                onClick={() => setSelectedSegmentId(segment.id)}
+              />
+            ))}
+
+            {copyCutStarts
+              .filter(({ range, start }) => range.start - start > KEYFRAME_TOLERANCE)
+              .map(({ range, start }) => (
+                <div
+                  key={`cut-${range.start}`}
+                  className="absolute top-0 bottom-0 border-l border-dashed border-foreground/60 pointer-events-none"
+                  style={{ left: `${toPercentage(start)}%` }}
+                  title="Where the fast cut really starts"
+                />
+              ))}
+
+            {silence.ranges
+              ?.filter((range) => range.end >= view.start && range.start <= view.end)
+              .map((range) => (
+                <div
+                  key={range.id}
+                  className={cn(
+                    "absolute top-0 bottom-3 pointer-events-none",
+                    range.accepted
+                      ? "bg-destructive/25 border-x border-destructive/50"
+                      : "bg-foreground/5 border-x border-dashed border-foreground/30",
+                  )}
+                  style={{
+                    left: `${toPercentage(range.start)}%`,
+                    right: `${100 - toPercentage(range.end)}%`,
+                  }}
+                />
+              ))}
+
+            {scenes.boundaries
+              ?.filter((time) => time >= view.start && time <= view.end)
+              .map((time) => (
+                <div
+                  key={`scene-${time}`}
+                  className={cn(
+                    "absolute top-0 bottom-0 border-l border-dotted pointer-events-none",
+                    time === activeScene ? "border-amber-500" : "border-amber-500/50",
+                  )}
+                  style={{ left: `${toPercentage(time)}%` }}
+                />
+              ))}
+
+            {snapTarget && (
+              <div
+                className="absolute top-0 bottom-0 z-40 w-px bg-amber-500 pointer-events-none"
+                style={{ left: `${toPercentage(snapTarget.time)}%` }}
+              >
+                <span className="absolute top-1 left-1 rounded bg-amber-500 px-1 text-[10px] font-semibold text-black">
+                  {SNAP_TARGET_LABELS[snapTarget.kind]}
+                </span>
+              </div>
+            )}
 
             <div
-              className="absolute top-0 bottom-0 -left-6 w-12 cursor-ew-resize"
-              onMouseDown={() => setIsDraggingStart(true)}
-              onTouchStart={(e) => {
-                e.stopPropagation()
-                setIsDraggingStart(true)
-              }}
-            />
-
-            <div
-              className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-primary text-primary-foreground text-xs font-semibold px-3 py-2 md:py-1.5 rounded-md whitespace-nowrap shadow-lg transition-all pointer-events-none ${isDraggingStart ? "scale-110" : ""}`}
+              className="absolute top-0 bottom-0 w-1 bg-foreground z-10 transition-all pointer-events-none"
+              style={{ left: `${currentPercentage}%` }}
             >
-              {formatTime(startTime)}
+              <div className="absolute -top-1 left-1/2 -translate-x-1/2 w-4 h-4 bg-foreground rounded-full shadow-lg" />
             </div>
+
+            {segments.flatMap((segment) =>
+              (["start", "end"] as const).map((edge) => {
+                const isDragging = dragging?.id === segment.id && dragging.edge === edge
+                const isSelected = segment.id === selectedSegmentId
+                const time = edge === "start" ? segment.start : segment.end
+
+                return (
+                  <div
+                    key={`${segment.id}-${edge}`}
+                    className={cn("absolute top-0 bottom-0 group", isSelected ? "z-30" : "z-20")}
+                    style={{ left: `${toPercentage(time)}%` }}
+                  >
+                    <div
+                      className={cn(
+                        "absolute inset-0 w-2 md:w-1.5 transition-all",
+                        segment.kind === "keep" ? "bg-primary" : "bg-destructive",
+                        isDragging ? "w-3" : "group-hover:w-3",
+                      )}
+                    />
+
+                    <div
+                      className="absolute top-0 bottom-0 -left-6 w-12 cursor-ew-resize"
+                      onMouseDown={() => startDragging(segment.id, edge)}
+                      onTouchStart={(e) => {
+                        e.stopPropagation()
+                        startDragging(segment.id, edge)
+                      }}
+                    />
+
+                    {(isSelected || isDragging) && (
+                      <div
+                        className={cn(
+                          "absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-xs font-semibold px-3 py-2 md:py-1.5 rounded-md whitespace-nowrap shadow-lg transition-all pointer-events-none",
+                          segment.kind === "keep"
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-destructive text-white",
+                          isDragging && "scale-110",
+                        )}
+                      >
+                        {formatTime(time)}
+                      </div>
+                    )}
+                  </div>
+                )
+              }),
+            )}
           </div>
 
-          <div className="absolute top-0 bottom-0 z-20 group" style={{ left: `${endPercentage}%` }}>
-            <div
-              className={`absolute inset-0 w-2 md:w-1.5 bg-primary transition-all ${isDraggingEnd ? "w-3" : "group-hover:w-3"}`}
+          {scenes.boundaries && (
+            <SceneLane
+              boundaries={scenes.boundaries}
+              view={view}
+              selected={activeScene}
+              sensitivity={scenes.sensitivity}
+              disabled={duration <= 0}
+              formatTime={formatTime}
+              onSelect={handleSelectScene}
+              onSplit={handleSceneSplit}
+              onSetEdge={handleSceneEdge}
+              onSensitivityChange={scenes.setSensitivity}
             />
+          )}
 
-            <div
-              className="absolute top-0 bottom-0 -left-6 w-12 cursor-ew-resize"
-              onMouseDown={() => setIsDraggingEnd(true)}
-              onTouchStart={(e) => {
-                e.stopPropagation()
-                setIsDraggingEnd(true)
+          {subtitles.track && (
+            <SubtitleLane
+              cues={subtitles.track.cues}
+              view={view}
+              duration={duration}
+              selectedId={selectedCueId}
+              disabled={duration <= 0}
+              onSelect={(id) => {
+                const cue = subtitles.track?.cues.find((other) => other.id === id)
+                if (cue) handleSelectCue(cue)
               }}
+              onPreview={handleCueMovePreview}
+              onCommit={editHistory.commit}
             />
+          )}
 
-            <div
-              className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-primary text-primary-foreground text-xs font-semibold px-3 py-2 md:py-1.5 rounded-md whitespace-nowrap shadow-lg transition-all pointer-events-none ${isDraggingEnd ? "scale-110" : ""}`}
-            >
-              {formatTime(endTime)}
-            </div>
+          <TimelineZoomControls
+            view={view}
+            duration={duration}
+            onViewChange={setView}
+            onZoomIn={zoomIn}
+            onZoomOut={zoomOut}
+            onZoomToFit={zoomToFit}
+          />
+
+          {readoutCut && (
+            <p className="text-xs text-muted-foreground tabular-nums">
+              {readoutShift <= KEYFRAME_TOLERANCE
+                ? "The in point sits on a keyframe, so the fast cut starts exactly here."
+                : `Fast mode starts this cut ${readoutShift.toFixed(3)}s early, at the keyframe at ${formatTime(
+                    readoutCut.start,
+                  )}. Switch to Precise to cut on the exact frame.`}
+            </p>
+          )}
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          <div className="md:col-span-2">
+            <CutListPanel
+              segments={segments}
+              selectedId={selectedSegmentId}
+              disabled={duration <= 0}
+              formatTime={formatTime}
+              onSelect={setSelectedSegmentId}
+              onAdd={handleAddSegment}
+              onSplit={handleSplitSegment}
+              onToggleKind={handleToggleSegmentKind}
+              onSpeedChange={handleSegmentSpeedChange}
+              onDelete={handleDeleteSegment}
+            />
           </div>
+
+          <HistoryPanel
+            history={editHistory.history}
+            canUndo={editHistory.canUndo}
+            canRedo={editHistory.canRedo}
+            onUndo={editHistory.undo}
+            onRedo={editHistory.redo}
+            onJump={editHistory.jumpTo}
+          />
+        </div>
+
+        <AudioPanel
+          settings={audio}
+          hasAudio={hasAudio}
+          outputDuration={outputDuration}
+          disabled={duration <= 0}
+          onChange={handleAudioChange}
+          onPreview={handleAudioPreview}
+          onCommit={editHistory.commit}
+        />
+
+        {videoFile.hasVideo && (
+          <OverlayPanel
+            settings={overlays}
+            time={overlayTime ?? 0}
+            outputDuration={outputDuration}
+            disabled={duration <= 0}
+            formatTime={formatTime}
+            onChange={handleOverlayChange}
+            onPreview={handleOverlayPreview}
+            onCommit={editHistory.commit}
+          />
+        )}
+
+        <SubtitlePanel
+          settings={subtitles}
+          selectedCueId={selectedCueId}
+          currentTime={currentTime}
+          duration={duration}
+          hasVideo={videoFile.hasVideo}
+          disabled={duration <= 0}
+          formatTime={formatTime}
+          onSelectCue={handleSelectCue}
+          onChange={handleSubtitleChange}
+          onPreview={handleSubtitlePreview}
+          onCommit={editHistory.commit}
+          onDownload={() => downloadSubtitles(getSubtitleDownload())}
+        />
+
+        {hasAudio && (
+          <SilencePanel
+            settings={silence.settings}
+            ranges={silence.ranges}
+            isDetecting={silence.isDetecting}
+            duration={duration}
+            disabled={!inputReady || duration <= 0}
+            formatTime={formatTime}
+            onSettingsChange={silence.setSettings}
+            onDetect={silence.detect}
+            onAcceptedChange={silence.setAccepted}
+            onAllAcceptedChange={silence.setAllAccepted}
+            onPlay={handlePlaySilence}
+            onApply={() => handleApplySilences(false)}
+            onApplyAndExport={() => handleApplySilences(true)}
+          />
+        )}
+
+        {videoFile.hasVideo && (
+          <StillsPanel
+            stillFormat={stillFormat}
+            range={stillsRange}
+            rangeLabel={selectedSegment ? "Selected segment" : "Whole video"}
+            frameRate={frameRate}
+            disabled={!inputReady || duration <= 0}
+            formatTime={formatTime}
+            onStillFormatChange={setStillFormat}
+            onGrabFrame={handleGrabFrame}
+            onContactSheet={handleContactSheet}
+            onFrameSequence={handleFrameSequence}
+          />
+        )}
+
+        <MediaInfoPanel info={mediaInfo.info} isAnalyzing={mediaInfo.isAnalyzing} formatTime={formatTime} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 px-2">
+        <div className="inline-flex rounded-lg p-1 ring-1 ring-border">
+          {TRIM_MODE_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={trimMode === option.value ? "secondary" : "ghost"}
+              onClick={() => handleTrimModeChange(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
         </div>
+        <p className="flex-1 text-sm text-muted-foreground">
+          {TRIM_MODE_OPTIONS.find((option) => option.value === trimMode)?.hint}
+        </p>
+        <CutFileDialog
+          segments={segments}
+          keepRanges={keepRanges}
+          source={{ name: videoFile.filename, duration, frameRate }}
+          trimMode={trimMode}
+          exportSettings={exportSettings}
+          exportFilters={scriptFilters}
+          disabled={duration <= 0}
+          onImport={handleImportCuts}
+        />
+        <ExportDialog
+          settings={exportSettings}
+          sourceFileName={inputName}
+          mediaInfo={mediaInfo.info}
+          filters={exportFilters}
+          output={
+            videoFile.hasVideo && frameSize ? { duration: outputDuration, ...getOutputSize(reframe, frameSize) } : null
+          }
+          onChange={handleExportSettingsChange}
+        />
       </div>
 
       <div className="flex gap-4 px-2">
         <Button
-          onClick={handleTrim}
-          disabled={isProcessing || !ffmpegLoaded || endTime - startTime < 0.1}
+          onClick={() => handleTrim()}
+          disabled={!canTrim}
           size="lg"
           className="flex-1"
         >
-          {!ffmpegLoaded ? (
+          {coreStatus === "error" ? (
+            "Editor failed to load"
+          ) : !inputReady ? (
             <>
               <Loader2 className="mr-2 h-5 w-5 animate-spin" />
               Loading Editor...
             </>
-          ) : isProcessing ? (
-            <>
-              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-              Processing {processingProgress}%
-            </>
           ) : (
             <>
               <Scissors className="mr-2 h-5 w-5" />
-              Trim Video
+              {isProcessing ? "Queue Another Trim" : "Trim Video"}
             </>
           )}
         </Button>
@@ -452,12 +1495,12 @@ export function VideoTimeline({ videoFile, onReset, isProcessing, setIsProcessin
         )}
       </div>
 
-      {isProcessing && (
-        <div className="space-y-2 px-2">
-          <Progress value={processingProgress} className="h-2" />
-          <p className="text-sm text-center text-muted-foreground">Processing your video...</p>
-        </div>
-      )}
+      <JobQueuePanel
+        jobs={jobs}
+        onCancel={(id) => queue.cancel(id)}
+        onRetry={(id) => queue.retry(id)}
+        onClearFinished={() => queue.clearFinished()}
+      />
 
       {trimmedVideoUrl && (
         <div className="space-y-4 pt-8 border-t px-2">
@@ -465,11 +1508,32 @@ export function VideoTimeline({ videoFile, onReset, isProcessing, setIsProcessin
             <h3 className="text-lg font-semibold text-green-600 dark:text-green-500">Trimmed Video Preview</h3>
             <span className="text-sm text-muted-foreground">Ready to download</span>
           </div>
+          {trimResult && (
+            <p className="text-sm text-muted-foreground">
+              <span className="font-medium text-foreground">{TRIM_METHOD_LABELS[trimResult.method]}:</span>{" "}
+              {trimResult.reason}
+            </p>
+          )}
           <div className="relative bg-black rounded-xl overflow-hidden aspect-video shadow-xl ring-1 ring-border">
-            <video src={trimmedVideoUrl} controls className="w-full h-full" />
+            {trimmedOutput?.mimeType.startsWith("image/") ? (
+              <img src={trimmedVideoUrl} alt="Trimmed preview" className="w-full h-full object-contain" />
+            ) : trimmedOutput?.mimeType.startsWith("audio/") ? (
+              <div className="flex h-full items-center justify-center p-8">
+                <audio src={trimmedVideoUrl} controls className="w-full" />
+              </div>
+            ) : (
+              <video src={trimmedVideoUrl} controls className="w-full h-full" />
+            )}
           </div>
         </div>
       )}
+
+      <KeyboardShortcutsDialog
+        open={shortcutsOpen}
+        bindings={keyBindings}
+        onOpenChange={setShortcutsOpen}
+        onChange={handleBindingsChange}
+      />
     </div>
   )
 }
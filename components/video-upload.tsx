@@ -2,18 +2,26 @@
 
 import type React from "react"
 import { useState, useCallback } from "react"
-import { Upload, Film, FileVideo, AlertCircle } from "lucide-react"
+import { Upload, Film, FileVideo, AlertCircle, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
 import { cn } from "@/lib/utils"
 import type { VideoFile } from "@/components/video-editor"
 import { useToast } from "@/hooks/use-toast"
+import { useFFmpegQueue } from "@/hooks/use-ffmpeg-queue"
+import { JobCancelledError } from "@/lib/ffmpeg-queue"
+import { ACCEPTED_EXTENSIONS, INPUT_FORMATS, detectMediaFormat } from "@/lib/media-detect"
+import { UnsupportedMediaError, importMedia } from "@/lib/media-import"
+import { getDroppedFileHandle } from "@/lib/project"
 
 type VideoUploadProps = {
   onUploadComplete: (file: VideoFile) => void
+  onBatchSelected: (files: File[]) => void
 }
 
-// Size limits based on device capabilities
+// Size limits based on device capabilities. The source is streamed into FFmpeg
+// rather than loaded into memory, so only the trimmed output has to fit in RAM.
 const getMaxFileSize = () => {
   // Check if mobile device
   const isMobile = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent)
@@ -22,11 +30,11 @@ const getMaxFileSize = () => {
   const memory = (navigator as any).deviceMemory // In GB, only available in Chrome
   
   if (isMobile) {
-    return 1024 * 1024 * 1024 * 2 // 2GB for mobile
+    return 1024 * 1024 * 1024 * 4 // 4GB for mobile
   } else if (memory && memory <= 4) {
-    return 512 * 1024 * 1024 // 512MB for low-memory devices
+    return 1024 * 1024 * 1024 * 2 // 2GB for low-memory devices
   } else {
-    return 1024 * 1024 * 1024 * 2 // 2GB for desktop
+    return 1024 * 1024 * 1024 * 8 // 8GB for desktop
   }
 }
 
@@ -38,35 +46,57 @@ const formatFileSize = (bytes: number): string => {
   return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i]
 }
 
-export function VideoUpload({ onUploadComplete }: VideoUploadProps) {
+export function VideoUpload({ onUploadComplete, onBatchSelected }: VideoUploadProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [proxyJobId, setProxyJobId] = useState<string | null>(null)
+  const { queue, jobs } = useFFmpegQueue()
   const { toast } = useToast()
 
-  const acceptedFormats = ["video/mp4", "video/quicktime", "video/x-msvideo"]
-  const acceptedExtensions = [".mp4", ".mov", ".avi"]
   const maxFileSize = getMaxFileSize()
+  const proxyJob = jobs.find((job) => job.id === proxyJobId)
 
-  const handleUpload = async (file: File) => {
-    // Format validation
-    if (!acceptedFormats.includes(file.type)) {
+  const validateFile = (file: File) => {
+    // Format is checked from the file's contents when it is opened, not from its MIME type,
+    // which browsers leave empty or guess wrong for MKV, TS and many camera files
+    if (file.size > maxFileSize) {
       toast({
-        title: "Invalid file format",
-        description: "Please upload a video file (MP4, MOV, or AVI)",
+        title: "File too large",
+        description: `Maximum file size is ${formatFileSize(maxFileSize)}. ${file.name} is ${formatFileSize(file.size)}.`,
         variant: "destructive",
       })
-      return
+      return false
     }
 
-    // Size validation
-    if (file.size > maxFileSize) {
+    return true
+  }
+
+  // Batches only take files with a recognised signature, so a stray document doesn't fail halfway through
+  const filterBatchFiles = async (files: File[]) => {
+    const formats = await Promise.all(files.map((file) => detectMediaFormat(file).catch(() => null)))
+    const rejected = files.filter((_, index) => formats[index] === null)
+    if (rejected.length > 0) {
       toast({
-        title: "File too large",
-        description: `Maximum file size is ${formatFileSize(maxFileSize)}. Your file is ${formatFileSize(file.size)}.`,
+        title: "Invalid file format",
+        description: `Skipped ${rejected.map((file) => file.name).join(", ")}: not a supported video or audio file`,
         variant: "destructive",
       })
-      return
     }
+    return files.filter((_, index) => formats[index] !== null)
+  }
+
+  // One file opens the editor, several start a batch
+  const handleFiles = async (files: File[], handle: Promise<FileSystemFileHandle | null> = Promise.resolve(null)) => {
+    const validFiles = files.filter(validateFile)
+    const batchFiles = validFiles.length > 1 ? await filterBatchFiles(validFiles) : validFiles
+    if (batchFiles.length > 1) {
+      onBatchSelected(batchFiles)
+    } else if (batchFiles.length === 1) {
+      handleUpload(batchFiles[0], handle)
+    }
+  }
+
+  const handleUpload = async (file: File, handlePromise: Promise<FileSystemFileHandle | null>) => {
 
     // Warning for large files
     if (file.size > maxFileSize * 0.75) {
@@ -79,55 +109,42 @@ export function VideoUpload({ onUploadComplete }: VideoUploadProps) {
     setIsLoading(true)
 
     try {
-      // For smaller files, read entirely into memory
-      const useChunkedReading = file.size > 100 * 1024 * 1024 // 100MB threshold
-      
-      let arrayBuffer: ArrayBuffer
-      let blob: Blob
-      
-      if (useChunkedReading) {
-        // For larger files, we could implement chunked reading
-        // but for video editing, we need the entire file in memory anyway
-        console.log("[v0] Reading large file...")
-        arrayBuffer = await readFileInChunks(file)
-        blob = new Blob([arrayBuffer], { type: file.type })
-      } else {
-        // For smaller files, read directly
-        arrayBuffer = await file.arrayBuffer()
-        blob = new Blob([arrayBuffer], { type: file.type })
-      }
-      
-      const url = URL.createObjectURL(blob)
-      
-      const video = document.createElement("video")
-      video.preload = "metadata"
-
-      await new Promise<void>((resolve, reject) => {
-        video.onloadedmetadata = () => resolve()
-        video.onerror = () => reject(new Error("Failed to load video"))
-        video.src = url
-      })
+      // The original File is previewed and mounted into FFmpeg as-is, so it is never copied into memory.
+      // Only codecs the browser can't play get a transcoded preview.
+      const media = await importMedia(file, queue, { onProxyJob: setProxyJobId })
 
       const videoFile: VideoFile = {
-        url,
+        url: media.previewUrl,
         filename: file.name,
         size: file.size,
         type: file.type,
-        duration: video.duration,
-        file: new File([blob], file.name, { type: file.type }),
-        data: arrayBuffer,
+        duration: media.duration,
+        file,
+        handle: await handlePromise,
+        format: media.format,
+        hasVideo: media.hasVideo,
+        isProxy: media.isProxy,
       }
 
       onUploadComplete(videoFile)
       toast({
-        title: "Video loaded successfully",
-        description: `${file.name} (${formatFileSize(file.size)}) is ready to edit`,
+        title: media.hasVideo ? "Video loaded successfully" : "Audio loaded successfully",
+        description: `${file.name} (${formatFileSize(file.size)}) is ready to edit${
+          media.isProxy ? ", previewed at reduced quality" : ""
+        }`,
       })
     } catch (error) {
       console.error("[v0] Upload error:", error)
       
-      // Check if it's a memory error
-      if (error instanceof Error && error.message.includes('memory')) {
+      if (error instanceof JobCancelledError) {
+        // The user cancelled the preview transcode
+      } else if (error instanceof UnsupportedMediaError) {
+        toast({
+          title: "Invalid file format",
+          description: error.message,
+          variant: "destructive",
+        })
+      } else if (error instanceof Error && error.message.includes('memory')) {
         toast({
           title: "Out of memory",
           description: "The file is too large for your device. Please try a smaller file.",
@@ -142,46 +159,17 @@ export function VideoUpload({ onUploadComplete }: VideoUploadProps) {
       }
     } finally {
       setIsLoading(false)
+      setProxyJobId(null)
     }
   }
 
-  // Helper function to read file in chunks (helps with memory management)
-  const readFileInChunks = async (file: File): Promise<ArrayBuffer> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader()
-      
-      reader.onload = (e) => {
-        if (e.target?.result instanceof ArrayBuffer) {
-          resolve(e.target.result)
-        } else {
-          reject(new Error("Failed to read file"))
-        }
-      }
-      
-      reader.onerror = () => {
-        reject(new Error("Failed to read file"))
-      }
-      
-      // Monitor memory usage during read
-      reader.onprogress = (e) => {
-        if (e.lengthComputable) {
-          const percentComplete = (e.loaded / e.total) * 100
-          console.log(`[v0] Reading file: ${percentComplete.toFixed(0)}%`)
-        }
-      }
-      
-      reader.readAsArrayBuffer(file)
-    })
-  }
-
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     setIsDragging(false)
 
-    const file = e.dataTransfer.files[0]
-    if (file) {
-      handleUpload(file)
-    }
+    const { files, items } = e.dataTransfer
+    // A file handle lets the project reopen the original later without keeping a copy
+    handleFiles(Array.from(files), files.length === 1 && items.length > 0 ? getDroppedFileHandle(items[0]) : undefined)
   }, [])
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -195,10 +183,7 @@ export function VideoUpload({ onUploadComplete }: VideoUploadProps) {
   }, [])
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      handleUpload(file)
-    }
+    handleFiles(Array.from(e.target.files ?? []))
   }
 
   return (
@@ -230,20 +215,45 @@ export function VideoUpload({ onUploadComplete }: VideoUploadProps) {
 
         {isLoading ? (
           <div className="space-y-3">
-            <p className="text-xl font-semibold text-foreground">Loading video...</p>
-            <p className="text-sm text-muted-foreground">Processing in your browser</p>
+            <p className="text-xl font-semibold text-foreground">
+              {proxyJob ? "Creating a preview..." : "Loading video..."}
+            </p>
+            {proxyJob ? (
+              <div className="mx-auto max-w-sm space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Your browser can't play this codec, so a lightweight copy is made for previewing. Exports still use
+                  the original.
+                </p>
+                <Progress value={proxyJob.progress * 100} />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="pointer-events-auto"
+                  onClick={() => queue.cancel(proxyJob.id)}
+                >
+                  <X className="mr-1 h-4 w-4" />
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Processing in your browser</p>
+            )}
           </div>
         ) : (
           <div className="space-y-6">
             <div className="space-y-2">
               <h3 className="text-2xl font-semibold text-foreground">Upload your video</h3>
-              <p className="text-muted-foreground">Drag and drop your video file here, or click to browse</p>
+              <p className="text-muted-foreground">
+                Drag and drop a video or audio file here, or click to browse. Drop several files to trim them as a batch.
+              </p>
             </div>
 
             <div className="space-y-3">
               <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
                 <Film className="h-4 w-4" />
-                <span>Supported formats: MP4, MOV, AVI</span>
+                <span>
+                  Supported formats: {Object.values(INPUT_FORMATS).map((format) => format.label).join(", ")}
+                </span>
               </div>
               <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
                 <AlertCircle className="h-4 w-4" />
@@ -262,7 +272,8 @@ export function VideoUpload({ onUploadComplete }: VideoUploadProps) {
                   <input
                     type="file"
                     className="hidden"
-                    accept={acceptedExtensions.join(",")}
+                    accept={["video/*", "audio/*", ...ACCEPTED_EXTENSIONS].join(",")}
+                    multiple
                     onChange={handleFileSelect}
                   />
                 </label>
@@ -0,0 +1,161 @@
+"use client"
+
+import { useCallback, useEffect, useRef, type RefObject } from "react"
+import { getOutputTime, getRangesDuration, type TimeRange } from "@/lib/cut-list"
+import {
+  DUCKING_GAIN,
+  dbToGain,
+  getFadeGain,
+  keepsOriginalAudio,
+  type AudioSettings,
+} from "@/lib/audio-settings"
+
+type AudioGraph = {
+  context: AudioContext
+  sourceGain: GainNode
+  sourceAnalyser: AnalyserNode // the clip's own sound, which drives the ducking
+  output: AnalyserNode // everything that is heard, for the level meter
+}
+
+// A media element can only be connected to Web Audio once, so the graph outlives remounts
+const graphs = new WeakMap<HTMLMediaElement, AudioGraph>()
+
+// Level above which the clip's sound ducks the music, like the export's sidechain threshold
+const DUCKING_THRESHOLD = 0.05
+
+// Resync the music when it drifts further than this from the video
+const MAX_MUSIC_DRIFT = 0.3
+
+function getPeak(analyser: AnalyserNode, buffer: Float32Array) {
+  analyser.getFloatTimeDomainData(buffer)
+  let peak = 0
+  for (const sample of buffer) {
+    peak = Math.max(peak, Math.abs(sample))
+  }
+  return peak
+}
+
+// Plays the preview the way the export will sound: gain, mute and fades are applied
+// through Web Audio and the music track follows the video's position in the output.
+// Loudness normalization needs the whole file, so it is only heard after exporting.
+export function useAudioPreview(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  settings: AudioSettings,
+  ranges: TimeRange[],
+) {
+  const graphRef = useRef<AudioGraph | null>(null)
+  const musicRef = useRef<{ element: HTMLAudioElement; gain: GainNode | null } | null>(null)
+  const settingsRef = useRef(settings)
+  const rangesRef = useRef(ranges)
+  settingsRef.current = settings
+  rangesRef.current = ranges
+
+  const connectMusic = (graph: AudioGraph) => {
+    const music = musicRef.current
+    if (!music || music.gain) return
+
+    const gain = graph.context.createGain()
+    graph.context.createMediaElementSource(music.element).connect(gain)
+    gain.connect(graph.output)
+    music.gain = gain
+  }
+
+  // The audio context may only start after a user gesture, so the graph is built on first play
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) return
+
+    const handlePlay = () => {
+      let graph = graphs.get(video)
+      if (!graph) {
+        const context = new AudioContext()
+        const sourceGain = context.createGain()
+        const sourceAnalyser = context.createAnalyser()
+        const output = context.createAnalyser()
+        context.createMediaElementSource(video).connect(sourceGain)
+        sourceGain.connect(sourceAnalyser)
+        sourceAnalyser.connect(output)
+        output.connect(context.destination)
+        graph = { context, sourceGain, sourceAnalyser, output }
+        graphs.set(video, graph)
+      }
+      graphRef.current = graph
+      graph.context.resume().catch(() => {})
+      connectMusic(graph)
+    }
+
+    video.addEventListener("play", handlePlay)
+    return () => video.removeEventListener("play", handlePlay)
+  }, [videoRef])
+
+  const music = settings.music
+  useEffect(() => {
+    if (!music) return
+
+    const url = URL.createObjectURL(music.file)
+    const element = new Audio(url)
+    element.preload = "auto"
+    musicRef.current = { element, gain: null }
+    if (graphRef.current) connectMusic(graphRef.current)
+
+    return () => {
+      element.pause()
+      musicRef.current?.gain?.disconnect()
+      musicRef.current = null
+      URL.revokeObjectURL(url)
+    }
+  }, [music?.id])
+
+  // Gains follow the playhead every frame, so fades are heard at the trim edges
+  useEffect(() => {
+    let frame = 0
+    let duck = 1
+    const buffer = new Float32Array(2048)
+
+    const tick = () => {
+      frame = requestAnimationFrame(tick)
+      const video = videoRef.current
+      const graph = graphRef.current
+      if (!video || !graph) return
+
+      const current = settingsRef.current
+      const outputTime = getOutputTime(rangesRef.current, video.currentTime)
+      const fade = outputTime === null ? 1 : getFadeGain(outputTime, getRangesDuration(rangesRef.current), current)
+      graph.sourceGain.gain.value = keepsOriginalAudio(current) ? dbToGain(current.gainDb) * fade : 0
+
+      const music = musicRef.current
+      if (!music || !current.music) return
+
+      const playing = !video.paused && outputTime !== null && outputTime < music.element.duration
+      if (!playing) {
+        music.element.pause()
+      } else {
+        if (Math.abs(music.element.currentTime - outputTime) > MAX_MUSIC_DRIFT) {
+          music.element.currentTime = outputTime
+        }
+        music.element.playbackRate = video.playbackRate
+        if (music.element.paused) music.element.play().catch(() => {})
+      }
+
+      const ducking = current.music.ducking && keepsOriginalAudio(current)
+      const loud = ducking && getPeak(graph.sourceAnalyser, buffer) > DUCKING_THRESHOLD
+      // Quick to duck, slow to recover, like the export's compressor
+      duck += ((loud ? DUCKING_GAIN : 1) - duck) * (loud ? 0.3 : 0.03)
+      if (music.gain) {
+        music.gain.gain.value = dbToGain(current.music.volumeDb) * fade * duck
+      }
+    }
+
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [videoRef])
+
+  // Peak level of what is heard, from 0 to 1; polled by the level meter
+  const levelBufferRef = useRef(new Float32Array(2048))
+  const getLevel = useCallback(() => {
+    const graph = graphRef.current
+    return graph ? getPeak(graph.output, levelBufferRef.current) : 0
+  }, [])
+
+  return { getLevel }
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { useCallback, useMemo, useReducer } from "react"
+import { createHistory, getCurrentState, historyReducer, type History, type HistoryState } from "@/lib/history"
+
+// Undoable editor state. `edit` records one step right away; `preview` changes the state
+// during a gesture and `commit` records the whole gesture as a single step.
+export function useEditHistory<T>(initialState: T, initialLabel: string) {
+  const [current, dispatch] = useReducer(
+    historyReducer<T>,
+    undefined,
+    (): HistoryState<T> => ({ history: createHistory(initialState, initialLabel), draft: null }),
+  )
+
+  const edit = useCallback((label: string, update: (state: T) => T) => dispatch({ type: "edit", label, update }), [])
+  const preview = useCallback((update: (state: T) => T) => dispatch({ type: "preview", update }), [])
+  const commit = useCallback((label: string) => dispatch({ type: "commit", label }), [])
+  const undo = useCallback(() => dispatch({ type: "undo" }), [])
+  const redo = useCallback(() => dispatch({ type: "redo" }), [])
+  const jumpTo = useCallback((index: number) => dispatch({ type: "jump", index }), [])
+  const reset = useCallback((history: History<T>) => dispatch({ type: "reset", history }), [])
+
+  const { history } = current
+  const state = useMemo(() => getCurrentState(current), [current])
+
+  return {
+    state,
+    history,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    edit,
+    preview,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+  }
+}
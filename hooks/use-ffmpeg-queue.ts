@@ -0,0 +1,13 @@
+"use client"
+
+import { useSyncExternalStore } from "react"
+import { getFFmpegQueue, type QueueState } from "@/lib/ffmpeg-queue"
+
+const SERVER_STATE: QueueState = { coreStatus: "idle", jobs: [] }
+
+// Subscribes a component to the shared FFmpeg job queue
+export function useFFmpegQueue() {
+  const queue = getFFmpegQueue()
+  const state = useSyncExternalStore(queue.subscribe, queue.getState, () => SERVER_STATE)
+  return { queue, ...state }
+}
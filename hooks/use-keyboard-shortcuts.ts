@@ -0,0 +1,37 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { eventToCombo, findAction, type EditorAction, type KeyBindings } from "@/lib/keybindings"
+
+type ShortcutHandlers = Partial<Record<EditorAction, () => void>>
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+
+// Dispatches window keydowns to editor actions. Handlers are read through a ref
+// so callers can pass fresh closures on every render.
+export function useKeyboardShortcuts(bindings: KeyBindings, handlers: ShortcutHandlers, enabled: boolean) {
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat && e.code === "Space") return
+      if (isTypingTarget(e.target)) return
+
+      const combo = eventToCombo(e)
+      const action = combo ? findAction(bindings, combo) : undefined
+      const handler = action ? handlersRef.current[action] : undefined
+      if (!handler) return
+
+      e.preventDefault()
+      handler()
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [bindings, enabled])
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { FFmpegQueue } from "@/lib/ffmpeg-queue"
+import { readCachedMedia, writeCachedMedia } from "@/lib/media-cache"
+import { getPrimaryVideoStream, type MediaInfo } from "@/lib/media-info"
+import { probeKeyframes, probeMediaInfo } from "@/lib/probe"
+
+// Analyses cached before v2 had their keyframes shifted by the container's start time
+const MEDIA_INFO_CACHE = "media-info-v2"
+
+type MediaInfoState = {
+  info: MediaInfo | null
+  isAnalyzing: boolean
+}
+
+// Analyses the source once per file and keeps the result in IndexedDB. The stream dump
+// is quick and published straight away; keyframe positions need a decode pass and follow.
+export function useMediaInfo(queue: FFmpegQueue, inputFileName: string | null, file: File): MediaInfoState {
+  const [info, setInfo] = useState<MediaInfo | null>(null)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+
+  useEffect(() => {
+    if (!inputFileName) return
+
+    let cancelled = false
+
+    const analyze = async () => {
+      setIsAnalyzing(true)
+      try {
+        let analysis = await readCachedMedia<MediaInfo>(file, MEDIA_INFO_CACHE)
+        if (!analysis) {
+          console.log("[v0] Analyzing media...")
+          const probed = await queue.enqueue({
+            label: "Analyze media",
+            background: true,
+            run: ({ ffmpeg }) => probeMediaInfo(ffmpeg, inputFileName),
+          }).result
+          if (!probed) throw new Error("FFmpeg could not read the stream information")
+          if (cancelled) return
+          setInfo(probed)
+
+          analysis = probed
+          if (getPrimaryVideoStream(probed)) {
+            const keyframes = await queue.enqueue({
+              label: "Find keyframes",
+              background: true,
+              run: ({ ffmpeg }) => probeKeyframes(ffmpeg, inputFileName),
+            }).result
+            analysis = { ...probed, keyframes }
+          }
+          await writeCachedMedia(file, MEDIA_INFO_CACHE, analysis)
+        }
+        if (!cancelled) setInfo(analysis)
+      } catch (error) {
+        console.warn("[v0] Media analysis failed:", error)
+      } finally {
+        if (!cancelled) setIsAnalyzing(false)
+      }
+    }
+
+    analyze()
+
+    return () => {
+      cancelled = true
+    }
+  }, [queue, inputFileName, file])
+
+  return { info, isAnalyzing }
+}
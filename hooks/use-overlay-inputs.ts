@@ -0,0 +1,109 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getInputDir, getInputPath, type FFmpegQueue } from "@/lib/ffmpeg-queue"
+import { OVERLAY_FONTS, getUsedFonts, type OverlayFont, type OverlaySettings } from "@/lib/overlays"
+import { useToast } from "@/hooks/use-toast"
+
+const getFontInputName = (font: OverlayFont) => `font-${font}.ttf`
+
+const getWatermarkInputName = (name: string, id: string) => `${id}.${name.split(".").pop()?.toLowerCase() || "png"}`
+
+// The fonts come from public/fonts on our own origin, so they load without a network connection
+async function fetchFont(font: OverlayFont): Promise<File> {
+  const { file } = OVERLAY_FONTS[font]
+  const response = await fetch(`/fonts/${file}`)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch font ${file} (${response.status})`)
+  }
+  return new File([await response.blob()], file, { type: "font/ttf" })
+}
+
+// Mounts what the overlays need in the finishing pass: the fonts of the text boxes and the
+// watermark image, plus any `extraFonts` (burned-in subtitles). `ready` is false while any
+// of them is still on its way.
+export function useOverlayInputs(queue: FFmpegQueue, overlays: OverlaySettings, extraFonts: OverlayFont[] = []) {
+  const { toast } = useToast()
+  const [readyInputs, setReadyInputs] = useState<string[]>([])
+
+  const markReady = (name: string) => setReadyInputs((current) => (current.includes(name) ? current : [...current, name]))
+  const markReleased = (name: string) => setReadyInputs((current) => current.filter((input) => input !== name))
+
+  const fonts = [...new Set([...getUsedFonts(overlays), ...extraFonts])].sort()
+  const fontKey = fonts.join(",")
+  useEffect(() => {
+    if (!fontKey) return
+    const names = (fontKey.split(",") as OverlayFont[]).map((font) => [font, getFontInputName(font)] as const)
+    let cancelled = false
+
+    for (const [font, name] of names) {
+      fetchFont(font)
+        .then((file) => (cancelled ? undefined : queue.registerInput(name, file)))
+        .then(() => {
+          if (!cancelled) markReady(name)
+        })
+        .catch((error) => {
+          console.error("[v0] Overlay font error:", error)
+          toast({
+            title: "Failed to load font",
+            description: error instanceof Error ? error.message : `${OVERLAY_FONTS[font].label} is unavailable`,
+            variant: "destructive",
+          })
+        })
+    }
+
+    return () => {
+      cancelled = true
+      for (const [, name] of names) {
+        markReleased(name)
+        queue.releaseInput(name)
+      }
+    }
+  }, [queue, fontKey, toast])
+
+  const watermark = overlays.watermark
+  const watermarkInputName = watermark ? getWatermarkInputName(watermark.name, watermark.id) : null
+  useEffect(() => {
+    if (!watermark || !watermarkInputName) return
+    let cancelled = false
+
+    queue
+      .registerInput(watermarkInputName, watermark.file)
+      .then(() => {
+        if (!cancelled) markReady(watermarkInputName)
+      })
+      .catch((error) => {
+        console.error("[v0] Watermark input error:", error)
+        toast({
+          title: "Failed to prepare watermark",
+          description: error instanceof Error ? error.message : "Please add the image again",
+          variant: "destructive",
+        })
+      })
+
+    return () => {
+      cancelled = true
+      markReleased(watermarkInputName)
+      queue.releaseInput(watermarkInputName)
+    }
+  }, [queue, watermarkInputName, toast])
+
+  const fontPaths: Partial<Record<OverlayFont, string>> = {}
+  const fontDirs: Partial<Record<OverlayFont, string>> = {}
+  for (const font of fonts) {
+    const name = getFontInputName(font)
+    if (readyInputs.includes(name)) {
+      fontPaths[font] = getInputPath(name)
+      fontDirs[font] = getInputDir(name)
+    }
+  }
+  const watermarkPath =
+    watermarkInputName && readyInputs.includes(watermarkInputName) ? getInputPath(watermarkInputName) : null
+
+  return {
+    fontPaths,
+    fontDirs,
+    watermarkPath,
+    ready: Object.keys(fontPaths).length === fonts.length && (watermark === null || watermarkPath !== null),
+  }
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { updateProject, type Project } from "@/lib/project"
+
+type ProjectChanges = Pick<Project, "edits" | "history">
+
+// Quiet period after the last edit before it is written
+const AUTOSAVE_DELAY = 500
+
+const saveChanges = (project: Project, changes: ProjectChanges) =>
+  updateProject(project, changes).catch((error) => console.warn("[v0] Autosave failed:", error))
+
+// Writes the editor state and its undo history into the project shortly after every
+// change, and right away when the page is being hidden or closed
+export function useProjectAutosave(project: Project, changes: ProjectChanges | null) {
+  const pendingRef = useRef<ProjectChanges | null>(null)
+
+  useEffect(() => {
+    if (!changes) return
+
+    pendingRef.current = changes
+    const timer = setTimeout(() => {
+      pendingRef.current = null
+      saveChanges(project, changes)
+    }, AUTOSAVE_DELAY)
+
+    return () => clearTimeout(timer)
+  }, [project, changes])
+
+  useEffect(() => {
+    const flush = () => {
+      if (pendingRef.current) {
+        saveChanges(project, pendingRef.current)
+        pendingRef.current = null
+      }
+    }
+
+    window.addEventListener("pagehide", flush)
+    return () => {
+      // Leaving the editor (New Video) saves whatever the timer hadn't yet
+      flush()
+      window.removeEventListener("pagehide", flush)
+    }
+  }, [project])
+}
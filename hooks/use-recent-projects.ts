@@ -0,0 +1,34 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { deleteProject, listProjects, type Project } from "@/lib/project"
+
+// Saved projects, most recently edited first
+export function useRecentProjects() {
+  const [projects, setProjects] = useState<Project[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects())
+    } catch (error) {
+      console.warn("[v0] Could not load saved projects:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const remove = useCallback(
+    async (project: Project) => {
+      await deleteProject(project)
+      await refresh()
+    },
+    [refresh],
+  )
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return { projects, isLoading, refresh, remove }
+}
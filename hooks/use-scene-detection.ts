@@ -0,0 +1,61 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { JobCancelledError, type FFmpegQueue } from "@/lib/ffmpeg-queue"
+import { readCachedMedia, writeCachedMedia } from "@/lib/media-cache"
+import {
+  DEFAULT_SCENE_SENSITIVITY,
+  detectSceneChanges,
+  getSceneBoundaries,
+  type SceneChange,
+} from "@/lib/scenes"
+import { useToast } from "@/hooks/use-toast"
+
+// Scene changes of the loaded file. Detection decodes the whole video, so it only runs
+// when asked; the result is cached like the timeline media and comes back on reopen.
+export function useSceneDetection(queue: FFmpegQueue, inputFileName: string | null, file: File, fileLabel: string) {
+  const { toast } = useToast()
+  const [changes, setChanges] = useState<SceneChange[] | null>(null)
+  const [isDetecting, setIsDetecting] = useState(false)
+  const [sensitivity, setSensitivity] = useState(DEFAULT_SCENE_SENSITIVITY)
+
+  useEffect(() => {
+    let cancelled = false
+    setChanges(null)
+    readCachedMedia<SceneChange[]>(file, "scenes").then((cached) => {
+      if (!cancelled && cached) setChanges(cached)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [file])
+
+  const detect = async () => {
+    if (!inputFileName || isDetecting) return
+    setIsDetecting(true)
+    try {
+      console.log("[v0] Detecting scene changes...")
+      const detected = await queue.enqueue({
+        label: `Detect scenes in ${fileLabel}`,
+        run: ({ ffmpeg }) => detectSceneChanges(ffmpeg, inputFileName),
+      }).result
+      await writeCachedMedia(file, "scenes", detected)
+      setChanges(detected)
+    } catch (error) {
+      if (!(error instanceof JobCancelledError)) {
+        console.error("[v0] Scene detection error:", error)
+        toast({
+          title: "Scene detection failed",
+          description: error instanceof Error ? error.message : "Unknown error occurred",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setIsDetecting(false)
+    }
+  }
+
+  const boundaries = useMemo(() => (changes ? getSceneBoundaries(changes, sensitivity) : null), [changes, sensitivity])
+
+  return { boundaries, isDetecting, sensitivity, setSensitivity, detect }
+}
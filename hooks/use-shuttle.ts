@@ -0,0 +1,74 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from "react"
+
+const SHUTTLE_SPEEDS = [1, 2, 4, 8]
+
+// J/K/L shuttle. Forward uses the element's playbackRate; browsers can't play
+// backwards, so reverse steps currentTime back on every animation frame.
+// Stopping returns to `baseRate`, the preview speed chosen in the editor.
+export function useShuttle(videoRef: RefObject<HTMLVideoElement | null>, baseRate = 1) {
+  const [speed, setSpeed] = useState(0)
+  const frameRef = useRef<number | null>(null)
+
+  const cancelReverse = () => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current)
+      frameRef.current = null
+    }
+  }
+
+  const stop = useCallback(() => {
+    cancelReverse()
+    const video = videoRef.current
+    if (video) {
+      video.pause()
+      video.playbackRate = baseRate
+    }
+    setSpeed(0)
+  }, [videoRef, baseRate])
+
+  const nextSpeed = (current: number, direction: 1 | -1) => {
+    const index = Math.sign(current) === direction ? SHUTTLE_SPEEDS.indexOf(Math.abs(current)) + 1 : 0
+    return direction * SHUTTLE_SPEEDS[Math.min(index, SHUTTLE_SPEEDS.length - 1)]
+  }
+
+  const shuttleForward = () => {
+    const video = videoRef.current
+    if (!video) return
+
+    cancelReverse()
+    const next = nextSpeed(speed, 1)
+    video.playbackRate = next
+    video.play()
+    setSpeed(next)
+  }
+
+  const shuttleReverse = () => {
+    const video = videoRef.current
+    if (!video) return
+
+    video.pause()
+    cancelReverse()
+    const next = nextSpeed(speed, -1)
+    setSpeed(next)
+
+    let last = performance.now()
+    const tick = (now: number) => {
+      const elapsed = (now - last) / 1000
+      last = now
+      video.currentTime = Math.max(0, video.currentTime + next * elapsed)
+      if (video.currentTime <= 0) {
+        frameRef.current = null
+        setSpeed(0)
+        return
+      }
+      frameRef.current = requestAnimationFrame(tick)
+    }
+    frameRef.current = requestAnimationFrame(tick)
+  }
+
+  useEffect(() => cancelReverse, [])
+
+  return { speed, shuttleForward, shuttleReverse, stop }
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { JobCancelledError, type FFmpegQueue } from "@/lib/ffmpeg-queue"
+import { DEFAULT_SILENCE, detectSilence, type SilenceSettings, type SilentRange } from "@/lib/silence"
+import { useToast } from "@/hooks/use-toast"
+
+// Silence detection and the review list of the loaded file. The threshold and minimum
+// length need a new pass; the padding only changes what is cut, so it applies live.
+export function useSilenceDetection(
+  queue: FFmpegQueue,
+  inputFileName: string | null,
+  fileLabel: string,
+  duration: number,
+) {
+  const { toast } = useToast()
+  const [settings, setSettings] = useState<SilenceSettings>(DEFAULT_SILENCE)
+  const [ranges, setRanges] = useState<SilentRange[] | null>(null)
+  const [isDetecting, setIsDetecting] = useState(false)
+
+  // A different file starts without a review list
+  useEffect(() => {
+    setRanges(null)
+  }, [inputFileName])
+
+  const detect = async () => {
+    if (!inputFileName || isDetecting || duration <= 0) return
+    const detectSettings = settings
+    setIsDetecting(true)
+    try {
+      console.log(`[v0] Detecting silence below ${detectSettings.thresholdDb} dB...`)
+      const detected = await queue.enqueue({
+        label: `Detect silence in ${fileLabel}`,
+        run: ({ ffmpeg }) => detectSilence(ffmpeg, inputFileName, detectSettings, duration),
+      }).result
+      setRanges(detected)
+      if (detected.length === 0) {
+        const { thresholdDb, minDuration } = detectSettings
+        toast({
+          title: "No silence found",
+          description: `Nothing stays below ${thresholdDb} dB for ${minDuration}s. Try a higher threshold.`,
+        })
+      }
+    } catch (error) {
+      if (!(error instanceof JobCancelledError)) {
+        console.error("[v0] Silence detection error:", error)
+        toast({
+          title: "Silence detection failed",
+          description: error instanceof Error ? error.message : "Unknown error occurred",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setIsDetecting(false)
+    }
+  }
+
+  const setAccepted = (id: string, accepted: boolean) =>
+    setRanges((current) => current?.map((range) => (range.id === id ? { ...range, accepted } : range)) ?? null)
+
+  const setAllAccepted = (accepted: boolean) =>
+    setRanges((current) => current?.map((range) => ({ ...range, accepted })) ?? null)
+
+  return {
+    settings,
+    setSettings,
+    ranges,
+    isDetecting,
+    detect,
+    setAccepted,
+    setAllAccepted,
+    clear: () => setRanges(null),
+  }
+}
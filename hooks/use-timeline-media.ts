@@ -0,0 +1,97 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { FFmpegQueue } from "@/lib/ffmpeg-queue"
+import { readCachedMedia, writeCachedMedia } from "@/lib/media-cache"
+import { generateThumbnails, generateWaveform } from "@/lib/timeline-media"
+
+type TimelineMedia = {
+  thumbnails: string[]
+  peaks: Float32Array | null
+  isGenerating: boolean
+}
+
+// What the waveform cache holds for a file: its peaks, or NO_AUDIO when it has no sound
+const NO_AUDIO = "no-audio"
+type CachedWaveform = Float32Array | typeof NO_AUDIO
+
+// Filmstrip frames and waveform peaks for the trim timeline, generated once per file
+// and kept in IndexedDB so reopening the same file is instant. Generation runs as
+// background jobs on the shared queue, behind any export the user started.
+export function useTimelineMedia(
+  queue: FFmpegQueue,
+  inputFileName: string | null,
+  file: File,
+  duration: number,
+  hasVideo: boolean,
+): TimelineMedia {
+  const [thumbnails, setThumbnails] = useState<string[]>([])
+  const [peaks, setPeaks] = useState<Float32Array | null>(null)
+  const [isGenerating, setIsGenerating] = useState(false)
+
+  useEffect(() => {
+    if (!inputFileName || duration <= 0) return
+
+    let cancelled = false
+    let urls: string[] = []
+
+    const loadThumbnails = async () => {
+      try {
+        // Audio-only files get a waveform and no filmstrip
+        let frames = hasVideo ? await readCachedMedia<Blob[]>(file, "thumbnails") : []
+        if (!frames) {
+          console.log("[v0] Generating timeline thumbnails...")
+          frames = await queue.enqueue({
+            label: "Generate thumbnails",
+            background: true,
+            run: ({ ffmpeg }) => generateThumbnails(ffmpeg, inputFileName, duration),
+          }).result
+          await writeCachedMedia(file, "thumbnails", frames)
+        }
+        if (cancelled) return
+        urls = frames.map((frame) => URL.createObjectURL(frame))
+        setThumbnails(urls)
+      } catch (error) {
+        console.warn("[v0] Timeline thumbnail generation failed:", error)
+      }
+    }
+
+    // Only finished passes are cached, so a failed one is tried again the next time
+    const loadWaveform = async () => {
+      try {
+        let waveform = await readCachedMedia<CachedWaveform>(file, "waveform")
+        if (!waveform) {
+          console.log("[v0] Generating audio waveform...")
+          const generated = await queue.enqueue({
+            label: "Generate waveform",
+            background: true,
+            run: ({ ffmpeg }) => generateWaveform(ffmpeg, inputFileName, duration),
+          }).result
+          waveform = generated ?? NO_AUDIO
+          await writeCachedMedia(file, "waveform", waveform)
+        }
+        if (cancelled) return
+        setPeaks(waveform === NO_AUDIO ? null : waveform)
+      } catch (error) {
+        console.warn("[v0] Timeline waveform generation failed:", error)
+      }
+    }
+
+    const load = async () => {
+      setIsGenerating(true)
+      await loadThumbnails()
+      if (cancelled) return
+      await loadWaveform()
+      if (!cancelled) setIsGenerating(false)
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+      urls.forEach((url) => URL.revokeObjectURL(url))
+    }
+  }, [queue, inputFileName, file, duration, hasVideo])
+
+  return { thumbnails, peaks, isGenerating }
+}
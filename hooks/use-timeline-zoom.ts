@@ -0,0 +1,98 @@
+"use client"
+
+import { useCallback, useEffect, useState, type RefObject } from "react"
+import {
+  getFullView,
+  getViewSpan,
+  panView,
+  ratioToViewTime,
+  zoomView,
+  type TimelineView,
+} from "@/lib/timeline-view"
+
+const BUTTON_ZOOM_FACTOR = 2
+
+// Zoom and pan state for the trim timeline. Wheel zooms around the cursor,
+// shift+wheel or horizontal scroll pans, and trackpad/touch pinch zooms.
+export function useTimelineZoom(timelineRef: RefObject<HTMLDivElement | null>, duration: number) {
+  const [view, setView] = useState<TimelineView>(() => getFullView(duration))
+
+  useEffect(() => {
+    setView(getFullView(duration))
+  }, [duration])
+
+  const clientXToTime = useCallback(
+    (clientX: number, currentView: TimelineView = view) => {
+      const element = timelineRef.current
+      if (!element) return 0
+      const rect = element.getBoundingClientRect()
+      const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width))
+      return ratioToViewTime(ratio, currentView)
+    },
+    [timelineRef, view],
+  )
+
+  useEffect(() => {
+    const element = timelineRef.current
+    if (!element || duration <= 0) return
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = element.getBoundingClientRect()
+
+      setView((current) => {
+        const horizontal = e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)
+        if (horizontal && !e.ctrlKey) {
+          const delta = e.shiftKey ? e.deltaY : e.deltaX
+          return panView(current, (delta / rect.width) * getViewSpan(current), duration)
+        }
+        // Trackpad pinch arrives as ctrl+wheel with small deltas
+        const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.002))
+        const ratio = (e.clientX - rect.left) / rect.width
+        return zoomView(current, factor, ratioToViewTime(ratio, current), duration)
+      })
+    }
+
+    let pinchDistance: number | null = null
+
+    const getTouchDistance = (e: TouchEvent) =>
+      Math.abs(e.touches[0].clientX - e.touches[1].clientX)
+
+    const handleTouchStart = (e: TouchEvent) => {
+      pinchDistance = e.touches.length === 2 ? getTouchDistance(e) : null
+    }
+
+    const handleTouchMove = (e: TouchEvent) => {
+      if (e.touches.length !== 2 || pinchDistance === null) return
+      e.preventDefault()
+      const distance = getTouchDistance(e)
+      const rect = element.getBoundingClientRect()
+      const centerRatio = ((e.touches[0].clientX + e.touches[1].clientX) / 2 - rect.left) / rect.width
+      const factor = distance / Math.max(1, pinchDistance)
+      pinchDistance = distance
+      setView((current) => zoomView(current, factor, ratioToViewTime(centerRatio, current), duration))
+    }
+
+    const handleTouchEnd = () => {
+      pinchDistance = null
+    }
+
+    element.addEventListener("wheel", handleWheel, { passive: false })
+    element.addEventListener("touchstart", handleTouchStart)
+    element.addEventListener("touchmove", handleTouchMove, { passive: false })
+    element.addEventListener("touchend", handleTouchEnd)
+
+    return () => {
+      element.removeEventListener("wheel", handleWheel)
+      element.removeEventListener("touchstart", handleTouchStart)
+      element.removeEventListener("touchmove", handleTouchMove)
+      element.removeEventListener("touchend", handleTouchEnd)
+    }
+  }, [timelineRef, duration])
+
+  const zoomIn = () => setView((current) => zoomView(current, BUTTON_ZOOM_FACTOR, (current.start + current.end) / 2, duration))
+  const zoomOut = () => setView((current) => zoomView(current, 1 / BUTTON_ZOOM_FACTOR, (current.start + current.end) / 2, duration))
+  const zoomToFit = () => setView(getFullView(duration))
+
+  return { view, setView, clientXToTime, zoomIn, zoomOut, zoomToFit }
+}
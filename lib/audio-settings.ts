@@ -0,0 +1,180 @@
+import type { ExportFilters } from "@/lib/export-format"
+import type { InputFormat } from "@/lib/media-detect"
+
+// Sound settings for the export: gain, fades at the edges of the trimmed output, loudness
+// normalization and an optional music track. Everything here is applied in the finishing
+// pass, and approximated live in the preview through Web Audio.
+
+export type MusicMode = "replace" | "mix"
+
+export type MusicTrack = {
+  id: string // tells two files with the same name apart in the history
+  file: File
+  name: string
+  format: InputFormat | null
+  mode: MusicMode
+  volumeDb: number
+  ducking: boolean // lowers the music while the clip's own sound is loud
+}
+
+export type AudioSettings = {
+  stripOriginal: boolean
+  gainDb: number
+  fadeIn: number // seconds
+  fadeOut: number
+  normalize: boolean
+  music: MusicTrack | null
+}
+
+export const DEFAULT_AUDIO: AudioSettings = {
+  stripOriginal: false,
+  gainDb: 0,
+  fadeIn: 0,
+  fadeOut: 0,
+  normalize: false,
+  music: null,
+}
+
+export const MUSIC_MODE_LABELS: Record<MusicMode, string> = {
+  replace: "Replace the clip's audio",
+  mix: "Mix with the clip's audio",
+}
+
+export const GAIN_RANGE_DB = { min: -20, max: 20 }
+
+export const MAX_FADE_SECONDS = 10
+
+// EBU R128 targets used by most streaming platforms
+export const LOUDNESS_TARGET = { integrated: -16, truePeak: -1.5, range: 11 }
+
+// How far the music drops while ducked, for the preview's approximation of the compressor
+export const DUCKING_GAIN = 0.3
+
+let musicCounter = 0
+
+export function createMusicTrack(file: File, format: InputFormat | null): MusicTrack {
+  musicCounter += 1
+  return {
+    id: `music-${Date.now().toString(36)}-${musicCounter}`,
+    file,
+    name: file.name,
+    format,
+    mode: "mix",
+    volumeDb: -6,
+    ducking: true,
+  }
+}
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20)
+
+export const isAudioEdited = (settings: AudioSettings) =>
+  settings.stripOriginal ||
+  settings.gainDb !== 0 ||
+  settings.fadeIn > 0 ||
+  settings.fadeOut > 0 ||
+  settings.normalize ||
+  settings.music !== null
+
+// Whether the clip's own sound is heard at all
+export const keepsOriginalAudio = (settings: AudioSettings) =>
+  !settings.stripOriginal && settings.music?.mode !== "replace"
+
+// Linear fade envelope at a position in the output, as the afade filters apply it
+export function getFadeGain(outputTime: number, outputDuration: number, settings: AudioSettings): number {
+  let gain = 1
+  if (settings.fadeIn > 0) {
+    gain = Math.min(gain, Math.max(0, outputTime / settings.fadeIn))
+  }
+  if (settings.fadeOut > 0) {
+    gain = Math.min(gain, Math.max(0, (outputDuration - outputTime) / settings.fadeOut))
+  }
+  return gain
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(3)).toString()
+
+function finalFilters(settings: AudioSettings, outputDuration: number): string[] {
+  const filters: string[] = []
+  if (settings.normalize) {
+    const { integrated, truePeak, range } = LOUDNESS_TARGET
+    // loudnorm resamples to 192 kHz internally
+    filters.push(`loudnorm=I=${integrated}:TP=${truePeak}:LRA=${range}`, "aresample=48000")
+  }
+  // Fades are never longer than half the output, so they can't overlap
+  const fadeIn = Math.min(settings.fadeIn, outputDuration / 2)
+  const fadeOut = Math.min(settings.fadeOut, outputDuration / 2)
+  if (fadeIn > 0) {
+    filters.push(`afade=t=in:st=0:d=${formatNumber(fadeIn)}`)
+  }
+  if (fadeOut > 0) {
+    filters.push(`afade=t=out:st=${formatNumber(outputDuration - fadeOut)}:d=${formatNumber(fadeOut)}`)
+  }
+  return filters
+}
+
+type AudioFilterOptions = {
+  outputDuration: number
+  hasAudio: boolean // whether the source has a sound track at all
+  musicPath: string | null // where the music track is mounted, once it is
+}
+
+// Finishing-pass audio filters. The music track is a second input, so with music the
+// chain becomes a complex graph over [0:a] and [1:a] that ends in [aout].
+export function buildAudioFilters(
+  settings: AudioSettings,
+  { outputDuration, hasAudio, musicPath }: AudioFilterOptions,
+): Pick<ExportFilters, "audio" | "audioGraph" | "dropAudio"> {
+  const gain = settings.gainDb !== 0 ? [`volume=${formatNumber(settings.gainDb)}dB`] : []
+  const final = finalFilters(settings, outputDuration)
+  const music = settings.music
+
+  if (!music || !musicPath) {
+    return settings.stripOriginal ? { audio: [], dropAudio: true } : { audio: [...gain, ...final] }
+  }
+
+  const musicChain = [
+    `[1:a]volume=${formatNumber(music.volumeDb)}dB`,
+    // Shorter music ends in silence; longer music is cut at the end of the clip
+    "apad",
+    `atrim=end=${formatNumber(outputDuration)}`,
+    "asetpts=N/SR/TB",
+  ].join(",")
+  const tail = final.length > 0 ? `,${final.join(",")}` : ""
+
+  if (music.mode === "replace" || settings.stripOriginal || !hasAudio) {
+    return { audio: [], audioGraph: { inputs: [musicPath], graph: `${musicChain}${tail}[aout]` } }
+  }
+
+  const original = `[0:a]${gain.length > 0 ? gain.join(",") : "anull"}`
+  const graph = music.ducking
+    ? [
+        `${original},asplit=2[original][sidechain]`,
+        `${musicChain}[music]`,
+        "[music][sidechain]sidechaincompress=threshold=0.05:ratio=8:attack=20:release=400[ducked]",
+        // amix halves each input, so the sum is brought back to full level
+        `[original][ducked]amix=inputs=2:duration=first:dropout_transition=0,volume=2${tail}[aout]`,
+      ]
+    : [
+        `${original}[original]`,
+        `${musicChain}[music]`,
+        `[original][music]amix=inputs=2:duration=first:dropout_transition=0,volume=2${tail}[aout]`,
+      ]
+  return { audio: [], audioGraph: { inputs: [musicPath], graph: graph.join(";") } }
+}
+
+export function describeAudio(settings: AudioSettings): string {
+  if (!isAudioEdited(settings)) return "Original"
+
+  const parts: string[] = []
+  if (settings.music) {
+    parts.push(settings.music.mode === "replace" || settings.stripOriginal ? "Music only" : "Music mixed in")
+  } else if (settings.stripOriginal) {
+    parts.push("Muted")
+  }
+  if (settings.gainDb !== 0 && keepsOriginalAudio(settings)) {
+    parts.push(`${settings.gainDb > 0 ? "+" : ""}${settings.gainDb} dB`)
+  }
+  if (settings.fadeIn > 0 || settings.fadeOut > 0) parts.push("Fades")
+  if (settings.normalize) parts.push(`${LOUDNESS_TARGET.integrated} LUFS`)
+  return parts.join(" · ")
+}
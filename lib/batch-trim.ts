@@ -0,0 +1,39 @@
+import { MIN_SEGMENT_LENGTH, type TimeRange } from "@/lib/cut-list"
+
+// One trim rule applied to every file of a batch: either cut a fixed amount
+// off both ends, or keep the same absolute range of each file.
+
+export type BatchRule =
+  | { kind: "trim-ends"; head: number; tail: number }
+  | { kind: "keep-range"; start: number; end: number }
+
+export type BatchRuleKind = BatchRule["kind"]
+
+export const BATCH_RULE_LABELS: Record<BatchRuleKind, string> = {
+  "trim-ends": "Drop start and end",
+  "keep-range": "Keep a fixed range",
+}
+
+// The part of a file the rule keeps, or null when nothing is left of it
+export function resolveBatchRange(rule: BatchRule, duration: number): TimeRange | null {
+  const start = Math.max(0, rule.kind === "trim-ends" ? rule.head : rule.start)
+  const end = Math.min(duration, rule.kind === "trim-ends" ? duration - rule.tail : rule.end)
+  return end - start >= MIN_SEGMENT_LENGTH ? { start, end } : null
+}
+
+export function describeBatchRule(rule: BatchRule, formatTime: (seconds: number) => string): string {
+  return rule.kind === "trim-ends"
+    ? `Drop the first ${formatTime(rule.head)} and the last ${formatTime(rule.tail)}`
+    : `Keep ${formatTime(rule.start)} to ${formatTime(rule.end)}`
+}
+
+// Download name for a batch output, made unique within the archive
+export function getBatchOutputName(sourceName: string, extension: string, taken: Set<string>): string {
+  const stem = sourceName.replace(/\.[^.]+$/, "")
+  let name = `trimmed-${stem}.${extension}`
+  for (let copy = 2; taken.has(name); copy++) {
+    name = `trimmed-${stem} (${copy}).${extension}`
+  }
+  taken.add(name)
+  return name
+}
@@ -0,0 +1,267 @@
+import { MIN_SEGMENT_LENGTH, createSegment, type CutSegment, type SegmentKind, type TimeRange } from "@/lib/cut-list"
+import {
+  PALETTE_FILE_NAME,
+  buildExportArgs,
+  buildPaletteArgs,
+  getExportExtension,
+  getFileExtension,
+  needsExactCuts,
+  needsFinishingPass,
+  needsPalettePass,
+  type ExportFilters,
+  type ExportSettings,
+} from "@/lib/export-format"
+import { formatSmpte, parseSmpte, parseTime } from "@/lib/time"
+import { copyRangeArgs, encodeRangeArgs, fullReencodeArgs, type TrimMode } from "@/lib/trim"
+
+// Edit decision lists in and out of Trimflow: a versioned JSON cut file, CMX3600 EDL
+// and a shell script that reproduces the trim with desktop ffmpeg. Imports also read
+// CSV files of start/end timecodes.
+
+export type CutFileFormat = "json" | "edl" | "ffmpeg"
+
+export const CUT_FILE_FORMATS: Record<CutFileFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: "Trimflow JSON", extension: "json", mimeType: "application/json" },
+  edl: { label: "CMX3600 EDL", extension: "edl", mimeType: "text/plain" },
+  ffmpeg: { label: "FFmpeg script", extension: "sh", mimeType: "text/x-shellscript" },
+}
+
+export const CUT_FILE_VERSION = 1
+
+export type CutFile = {
+  format: "trimflow-cuts"
+  version: number
+  source: { name: string; duration: number; frameRate: number | null }
+  segments: { kind: SegmentKind; start: number; end: number }[]
+}
+
+export type CutSource = {
+  name: string
+  duration: number
+  frameRate: number | null
+}
+
+export type CutImportResult = {
+  segments: CutSegment[]
+  skipped: number // entries that were unreadable or fell outside the video
+}
+
+// Timecodes need a rate; 30 fps non-drop is the EDL convention when the source rate is unknown
+const DEFAULT_TIMECODE_RATE = 30
+
+export class CutFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CutFileError"
+  }
+}
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000
+
+export function serializeCutJson(segments: CutSegment[], source: CutSource): string {
+  const file: CutFile = {
+    format: "trimflow-cuts",
+    version: CUT_FILE_VERSION,
+    source: { name: source.name, duration: round(source.duration), frameRate: source.frameRate },
+    segments: segments.map(({ kind, start, end }) => ({ kind, start: round(start), end: round(end) })),
+  }
+  return `${JSON.stringify(file, null, 2)}\n`
+}
+
+// One event per kept range; record times run back to back from zero
+export function serializeEdl(ranges: TimeRange[], source: CutSource): string {
+  const rate = source.frameRate ?? DEFAULT_TIMECODE_RATE
+  const timecode = (seconds: number) => formatSmpte(seconds, rate)
+  const lines = [
+    `TITLE: ${source.name.replace(/\.[^.]+$/, "")}`,
+    `FCM: ${timecode(0).includes(";") ? "DROP FRAME" : "NON-DROP FRAME"}`,
+    "",
+  ]
+
+  let recordTime = 0
+  ranges.forEach((range, index) => {
+    const length = range.end - range.start
+    const event = (index + 1).toString().padStart(3, "0")
+    lines.push(
+      `${event}  AX       AA/V  C        ${timecode(range.start)} ${timecode(range.end)} ${timecode(recordTime)} ${timecode(recordTime + length)}`,
+      `* FROM CLIP NAME: ${source.name}`,
+      "",
+    )
+    recordTime += length
+  })
+
+  return lines.join("\n")
+}
+
+const shellQuote = (value: string) => (/^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`)
+
+const ffmpegCommand = (args: string[]) => ["ffmpeg", "-hide_banner", "-y", ...args].map(shellQuote).join(" ")
+
+// The same passes the app runs, except that precise mode re-encodes whole ranges
+// instead of smart rendering around keyframes
+export function buildFfmpegScript(
+  ranges: TimeRange[],
+  source: CutSource,
+  { mode, settings, filters }: { mode: TrimMode; settings: ExportSettings; filters?: ExportFilters },
+): string {
+  const stem = source.name.replace(/\.[^.]+$/, "")
+  const finishing = needsFinishingPass(settings, source.name, filters)
+  const outputName = `trimmed-${stem}.${getExportExtension(settings)}`
+  const trimmedName = finishing ? `trimmed-${stem}.tmp.${getFileExtension(source.name)}` : outputName
+  const reencode = fullReencodeArgs(trimmedName)
+  // Like in the app, edits timed to the output make every cut precise
+  const cutMode: TrimMode = needsExactCuts(filters) ? "precise" : mode
+  const argsFor = (range: TimeRange, target: string) =>
+    cutMode === "precise"
+      ? encodeRangeArgs(range, source.name, target, reencode.video, reencode.audio)
+      : copyRangeArgs(range, source.name, target)
+
+  const lines = [
+    "#!/bin/sh",
+    `# Trimflow cut of ${source.name}: ${ranges.length} ${ranges.length === 1 ? "range" : "ranges"}, ${cutMode} mode`,
+    "# Run it in the folder that contains the source video.",
+    "set -e",
+    "",
+  ]
+  const cleanup: string[] = []
+
+  if (ranges.length === 1) {
+    lines.push(ffmpegCommand(argsFor(ranges[0], trimmedName)))
+  } else {
+    const partNames = ranges.map((_, index) => `${stem}.part-${index}.${getFileExtension(source.name)}`)
+    ranges.forEach((range, index) => lines.push(ffmpegCommand(argsFor(range, partNames[index]))))
+    lines.push(
+      `printf "file '%s'\\n" ${partNames.map(shellQuote).join(" ")} > ${shellQuote(`${stem}.concat.txt`)}`,
+      ffmpegCommand(["-f", "concat", "-safe", "0", "-i", `${stem}.concat.txt`, "-c", "copy", trimmedName]),
+    )
+    cleanup.push(...partNames, `${stem}.concat.txt`)
+  }
+
+  if (finishing) {
+    // Files the filters read, such as subtitles timed to the output
+    for (const { name, content } of filters?.files ?? []) {
+      lines.push(`cat > ${shellQuote(name)} <<'TRIMFLOW_EOF'`, content.replace(/\n$/, ""), "TRIMFLOW_EOF")
+      cleanup.push(name)
+    }
+    if (needsPalettePass(settings)) {
+      lines.push(ffmpegCommand(buildPaletteArgs(settings, trimmedName, filters)))
+      cleanup.push(PALETTE_FILE_NAME)
+    }
+    lines.push(ffmpegCommand(buildExportArgs(settings, trimmedName, outputName, filters)))
+    cleanup.push(trimmedName)
+  }
+  if (cleanup.length > 0) {
+    lines.push(`rm -f ${cleanup.map(shellQuote).join(" ")}`)
+  }
+
+  return `${lines.join("\n")}\n`
+}
+
+// Seconds as a number or time string, or an SMPTE timecode at the source rate
+function readTime(value: unknown, frameRate: number): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (typeof value !== "string") return null
+  return parseTime(value) ?? parseSmpte(value, frameRate)
+}
+
+type RawSegment = { kind: SegmentKind; start: number | null; end: number | null }
+
+function parseJson(text: string, frameRate: number): RawSegment[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new CutFileError("The file is not valid JSON.")
+  }
+
+  if (typeof data !== "object" || data === null) {
+    throw new CutFileError("The JSON file has no segments.")
+  }
+
+  const file = data as Partial<CutFile>
+  if (file.format === "trimflow-cuts" && (file.version ?? 0) > CUT_FILE_VERSION) {
+    throw new CutFileError(`This cut file is version ${file.version}; update Trimflow to open it.`)
+  }
+
+  // Our own format, or any array of { start, end } objects
+  const entries = Array.isArray(data) ? data : file.segments
+  if (!Array.isArray(entries)) {
+    throw new CutFileError("The JSON file has no segments.")
+  }
+
+  // Entries that aren't objects have no times, so they are counted as skipped
+  return entries.map((value: unknown): RawSegment => {
+    const entry: { kind?: unknown; start?: unknown; end?: unknown } =
+      typeof value === "object" && value !== null ? value : {}
+    return {
+      kind: entry.kind === "remove" ? "remove" : "keep",
+      start: readTime(entry.start, frameRate),
+      end: readTime(entry.end, frameRate),
+    }
+  })
+}
+
+const EDL_EVENT = /^\d+\s+\S+\s+\S+\s+C\S*\s+(\S+)\s+(\S+)\s+\S+\s+\S+\s*$/
+
+// Zeroes the minutes, seconds and frames of a timecode, keeping its separators
+const toWholeHour = (timecode: string) => timecode.replace(/[:;.]\d+/g, (field) => field[0].padEnd(field.length, "0"))
+
+function parseEdl(text: string, frameRate: number | null, duration: number): RawSegment[] {
+  const dropFrame = /^FCM:\s*DROP FRAME/im.test(text)
+  const rate = frameRate ?? (dropFrame ? 29.97 : DEFAULT_TIMECODE_RATE)
+  const events = text.split(/\r?\n/).flatMap((line) => {
+    const match = EDL_EVENT.exec(line.trim())
+    return match ? [{ sourceIn: match[1], start: parseSmpte(match[1], rate), end: parseSmpte(match[2], rate) }] : []
+  })
+
+  // Source timecode often runs from 01:00:00:00 or the camera's clock. When the events end
+  // past the video, they count from the whole hour of the first event's source in.
+  const pastEnd = events.some(({ end }) => end !== null && end > duration + 1 / rate)
+  const origin = pastEnd && events.length > 0 ? (parseSmpte(toWholeHour(events[0].sourceIn), rate) ?? 0) : 0
+
+  return events.map(({ start, end }) => ({
+    kind: "keep",
+    start: start === null ? null : start - origin,
+    end: end === null ? null : end - origin,
+  }))
+}
+
+// start,end[,kind] per row, comma or tab separated; a header row and any extra columns are ignored
+function parseCsv(text: string, frameRate: number): RawSegment[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.split(/[,\t]/).map((cell) => cell.trim().replace(/^"|"$/g, "")))
+    .filter((cells) => cells.length >= 2 && cells[0] !== "")
+    .filter((cells, index) => index > 0 || readTime(cells[0], frameRate) !== null)
+    .map((cells) => ({
+      kind: cells[2]?.toLowerCase() === "remove" ? "remove" : "keep",
+      start: readTime(cells[0], frameRate),
+      end: readTime(cells[1], frameRate),
+    }))
+}
+
+// Reads a cut file by extension, falling back to sniffing the contents
+export function parseCutFile(text: string, fileName: string, source: CutSource): CutImportResult {
+  const extension = getFileExtension(fileName)
+  const rate = source.frameRate ?? DEFAULT_TIMECODE_RATE
+  const trimmed = text.trim()
+
+  const raw =
+    extension === "json" || trimmed.startsWith("{") || trimmed.startsWith("[")
+      ? parseJson(trimmed, rate)
+      : extension === "edl" || /^TITLE:/im.test(trimmed)
+        ? parseEdl(trimmed, source.frameRate, source.duration)
+        : parseCsv(trimmed, rate)
+
+  const segments = raw
+    .filter((entry): entry is RawSegment & { start: number; end: number } => entry.start !== null && entry.end !== null)
+    .map((entry) => ({ ...entry, start: Math.max(0, entry.start), end: Math.min(source.duration, entry.end) }))
+    .filter((entry) => entry.end - entry.start >= MIN_SEGMENT_LENGTH)
+    .map((entry) => createSegment(entry.kind, entry.start, entry.end))
+
+  if (segments.length === 0) {
+    throw new CutFileError("No usable segments were found. Times must fall within the video.")
+  }
+
+  return { segments, skipped: raw.length - segments.length }
+}
@@ -0,0 +1,136 @@
+// A cut list is an ordered set of keep/remove segments on the source timeline.
+// Keep segments define what ends up in the export; remove segments punch holes
+// into them (or into the whole file when there are no keep segments at all).
+
+export type SegmentKind = "keep" | "remove"
+
+export type CutSegment = {
+  id: string
+  kind: SegmentKind
+  start: number
+  end: number
+  speed?: number // playback speed of this part in the export; 1 when missing
+}
+
+export type SegmentEdge = "start" | "end"
+
+export type TimeRange = {
+  start: number
+  end: number
+}
+
+// Shortest segment we allow, both while dragging and in the exported ranges
+export const MIN_SEGMENT_LENGTH = 0.1
+
+let segmentCounter = 0
+
+export function createSegment(kind: SegmentKind, start: number, end: number): CutSegment {
+  segmentCounter += 1
+  return { id: `seg-${Date.now().toString(36)}-${segmentCounter}`, kind, start, end }
+}
+
+export function createInitialCutList(duration: number): CutSegment[] {
+  return [createSegment("keep", 0, duration)]
+}
+
+export function sortSegments(segments: CutSegment[]): CutSegment[] {
+  return [...segments].sort((a, b) => a.start - b.start || a.end - b.end)
+}
+
+// Merges overlapping or touching ranges into a sorted, disjoint list
+export function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start)
+  const merged: TimeRange[] = []
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ start: range.start, end: range.end })
+    }
+  }
+
+  return merged
+}
+
+function subtractRange(ranges: TimeRange[], cut: TimeRange): TimeRange[] {
+  const result: TimeRange[] = []
+
+  for (const range of ranges) {
+    if (cut.end <= range.start || cut.start >= range.end) {
+      result.push(range)
+      continue
+    }
+    if (cut.start > range.start) {
+      result.push({ start: range.start, end: cut.start })
+    }
+    if (cut.end < range.end) {
+      result.push({ start: cut.end, end: range.end })
+    }
+  }
+
+  return result
+}
+
+// Resolves the cut list into the ranges that should be exported, in source order
+export function resolveKeepRanges(segments: CutSegment[], duration: number): TimeRange[] {
+  const keeps = segments.filter((segment) => segment.kind === "keep")
+  const removes = segments.filter((segment) => segment.kind === "remove")
+
+  let ranges = keeps.length > 0 ? mergeRanges(keeps) : [{ start: 0, end: duration }]
+  for (const remove of removes) {
+    ranges = subtractRange(ranges, remove)
+  }
+
+  return ranges
+    .map((range) => ({ start: Math.max(0, range.start), end: Math.min(duration, range.end) }))
+    .filter((range) => range.end - range.start >= MIN_SEGMENT_LENGTH)
+}
+
+export function getRangesDuration(ranges: TimeRange[]): number {
+  return ranges.reduce((total, range) => total + (range.end - range.start), 0)
+}
+
+// Where a source time ends up in the export, or null when it is cut away
+export function getOutputTime(ranges: TimeRange[], time: number): number | null {
+  let offset = 0
+  for (const range of ranges) {
+    if (time >= range.start && time <= range.end) {
+      return offset + (time - range.start)
+    }
+    offset += range.end - range.start
+  }
+  return null
+}
+
+export function moveSegmentEdge(
+  segments: CutSegment[],
+  id: string,
+  edge: SegmentEdge,
+  time: number,
+  duration: number,
+): CutSegment[] {
+  return segments.map((segment) => {
+    if (segment.id !== id) return segment
+
+    if (edge === "start") {
+      return { ...segment, start: Math.max(0, Math.min(time, segment.end - MIN_SEGMENT_LENGTH)) }
+    }
+    return { ...segment, end: Math.min(duration, Math.max(time, segment.start + MIN_SEGMENT_LENGTH)) }
+  })
+}
+
+// Splits the segment under `time` into two segments of the same kind
+export function splitSegmentAt(segments: CutSegment[], time: number): CutSegment[] {
+  const target = segments.find(
+    (segment) => time - segment.start >= MIN_SEGMENT_LENGTH && segment.end - time >= MIN_SEGMENT_LENGTH,
+  )
+  if (!target) return segments
+
+  return segments.flatMap((segment) =>
+    segment.id === target.id
+      ? [{ ...segment, end: time }, { ...createSegment(segment.kind, time, segment.end), speed: segment.speed }]
+      : [segment],
+  )
+}
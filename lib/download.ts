@@ -0,0 +1,12 @@
+// Saves a Blob under the given file name through a temporary object URL
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  // The download has been handed to the browser by now, but revoking synchronously breaks it in Safari
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
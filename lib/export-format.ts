@@ -0,0 +1,699 @@
+import type { TimeRange } from "@/lib/cut-list"
+import { getPrimaryAudioStream, getPrimaryVideoStream, type MediaInfo } from "@/lib/media-info"
+import { buildRetimeGraph, type RetimePiece } from "@/lib/speed"
+import type { SubtitleFormat } from "@/lib/subtitles"
+
+// Output container/codec model for the export dialog, and the FFmpeg
+// arguments for the finishing pass that turns the trimmed file into it.
+
+export type ContainerFormat = "mp4" | "webm" | "mov" | "mkv" | "avi" | "gif" | "webp" | "mp3" | "m4a" | "wav"
+
+export type VideoCodec = "copy" | "h264" | "hevc" | "vp9"
+
+export type AudioCodec = "copy" | "aac" | "opus" | "mp3" | "pcm" | "none"
+
+export type ResolutionPreset = "source" | "2160" | "1080" | "720" | "480" | "360"
+
+export type QualityPreset = "crf-18" | "crf-23" | "crf-28" | "8000k" | "4000k" | "2000k" | "1000k"
+
+export type GifDither = "sierra2_4a" | "floyd_steinberg" | "bayer" | "none"
+
+// Options for the animated formats (GIF, WebP), which have no codec or quality presets
+export type AnimationSettings = {
+  fps: number
+  width: number | null // null keeps the source width
+  plays: number // times the animation runs; 0 loops forever
+  dither: GifDither // GIF only
+}
+
+export type ExportSettings = {
+  container: ContainerFormat
+  videoCodec: VideoCodec
+  audioCodec: AudioCodec
+  quality: QualityPreset
+  resolution: ResolutionPreset
+  animation: AnimationSettings
+}
+
+// Filter chains from the editor (reframing, sound) applied in the finishing pass
+export type ExportFilters = {
+  video: string[]
+  audio: string[]
+  // Replaces `audio` when the sound needs more inputs than the trimmed file: a filter
+  // graph over [0:a] and the extra inputs ([1:a], ...) that ends in [aout]
+  audioGraph?: { inputs: string[]; graph: string }
+  dropAudio?: boolean
+  // An image laid over the picture after `video`: a graph from [overlay_base] and the
+  // image at [wm] that ends in [overlay_out]
+  videoOverlay?: { input: string; graph: string }
+  // Speed changes and reversing, applied before everything else to the streams that exist
+  retime?: { pieces: RetimePiece[]; reverse: boolean; hasVideo: boolean; hasAudio: boolean }
+  // A subtitle file, already timed to the output, muxed as a subtitle track
+  subtitleStream?: { input: string; format: SubtitleFormat }
+  // Text files the filters read (subtitles), written next to the trimmed file before the finishing pass
+  files?: { name: string; content: string }[]
+  // Edits laid out on the output's timeline, named for messages. Stream copy starts each range
+  // on an earlier keyframe, which would shift them, so they make every cut exact.
+  timed?: string[]
+}
+
+export const NO_FILTERS: ExportFilters = { video: [], audio: [] }
+
+type ContainerInfo = {
+  label: string
+  extension: string
+  mimeType: string
+  kind: "video" | "audio" | "image"
+  videoCodecs: VideoCodec[]
+  audioCodecs: AudioCodec[]
+}
+
+export const CONTAINERS: Record<ContainerFormat, ContainerInfo> = {
+  mp4: {
+    label: "MP4",
+    extension: "mp4",
+    mimeType: "video/mp4",
+    kind: "video",
+    videoCodecs: ["copy", "h264", "hevc", "vp9"],
+    audioCodecs: ["copy", "aac", "mp3", "opus", "none"],
+  },
+  webm: {
+    label: "WebM",
+    extension: "webm",
+    mimeType: "video/webm",
+    kind: "video",
+    videoCodecs: ["copy", "vp9"],
+    audioCodecs: ["copy", "opus", "none"],
+  },
+  mov: {
+    label: "MOV",
+    extension: "mov",
+    mimeType: "video/quicktime",
+    kind: "video",
+    videoCodecs: ["copy", "h264", "hevc"],
+    audioCodecs: ["copy", "aac", "pcm", "none"],
+  },
+  mkv: {
+    label: "MKV",
+    extension: "mkv",
+    mimeType: "video/x-matroska",
+    kind: "video",
+    videoCodecs: ["copy", "h264", "hevc", "vp9"],
+    audioCodecs: ["copy", "aac", "opus", "mp3", "pcm", "none"],
+  },
+  avi: {
+    label: "AVI",
+    extension: "avi",
+    mimeType: "video/x-msvideo",
+    kind: "video",
+    videoCodecs: ["copy", "h264"],
+    audioCodecs: ["copy", "mp3", "pcm", "none"],
+  },
+  gif: {
+    label: "GIF",
+    extension: "gif",
+    mimeType: "image/gif",
+    kind: "image",
+    videoCodecs: [],
+    audioCodecs: [],
+  },
+  webp: {
+    label: "Animated WebP",
+    extension: "webp",
+    mimeType: "image/webp",
+    kind: "image",
+    videoCodecs: [],
+    audioCodecs: [],
+  },
+  mp3: {
+    label: "MP3 (audio only)",
+    extension: "mp3",
+    mimeType: "audio/mpeg",
+    kind: "audio",
+    videoCodecs: [],
+    audioCodecs: ["mp3", "copy"],
+  },
+  m4a: {
+    label: "M4A (audio only)",
+    extension: "m4a",
+    mimeType: "audio/mp4",
+    kind: "audio",
+    videoCodecs: [],
+    audioCodecs: ["aac", "copy"],
+  },
+  wav: {
+    label: "WAV (audio only)",
+    extension: "wav",
+    mimeType: "audio/wav",
+    kind: "audio",
+    videoCodecs: [],
+    audioCodecs: ["pcm"],
+  },
+}
+
+export const VIDEO_CODEC_LABELS: Record<VideoCodec, string> = {
+  copy: "Copy (no re-encode)",
+  h264: "H.264",
+  hevc: "HEVC / H.265",
+  vp9: "VP9",
+}
+
+export const AUDIO_CODEC_LABELS: Record<AudioCodec, string> = {
+  copy: "Copy (no re-encode)",
+  aac: "AAC",
+  opus: "Opus",
+  mp3: "MP3",
+  pcm: "PCM (uncompressed)",
+  none: "No audio",
+}
+
+export const QUALITY_LABELS: Record<QualityPreset, string> = {
+  "crf-18": "High quality (CRF 18)",
+  "crf-23": "Balanced (CRF 23)",
+  "crf-28": "Small file (CRF 28)",
+  "8000k": "8 Mbps",
+  "4000k": "4 Mbps",
+  "2000k": "2 Mbps",
+  "1000k": "1 Mbps",
+}
+
+export const RESOLUTION_LABELS: Record<ResolutionPreset, string> = {
+  source: "Source resolution",
+  "2160": "2160p (4K)",
+  "1080": "1080p",
+  "720": "720p",
+  "480": "480p",
+  "360": "360p",
+}
+
+export const DEFAULT_ANIMATION: AnimationSettings = { fps: 15, width: 480, plays: 0, dither: "sierra2_4a" }
+
+export const ANIMATION_FPS = [5, 8, 10, 12, 15, 20, 25, 30]
+
+export const ANIMATION_WIDTHS = [240, 320, 480, 640, 800, 1280]
+
+export const ANIMATION_PLAYS = [0, 1, 2, 3, 5]
+
+export const GIF_DITHER_LABELS: Record<GifDither, string> = {
+  sierra2_4a: "Sierra (smooth)",
+  floyd_steinberg: "Floyd–Steinberg",
+  bayer: "Ordered (smaller file)",
+  none: "None (banding)",
+}
+
+export const formatPlays = (plays: number) =>
+  plays === 0 ? "Loop forever" : plays === 1 ? "Play once" : `Play ${plays}×`
+
+// The GIF palette is generated from the finished frames in a pass before the export
+export const PALETTE_FILE_NAME = "palette.png"
+
+export const needsPalettePass = (settings: ExportSettings) => settings.container === "gif"
+
+// Rough bytes per output pixel per frame. Error-diffusion dithering compresses worst;
+// WebP is lossy and several times smaller than any GIF.
+const ANIMATION_BYTES_PER_PIXEL: Record<GifDither | "webp", number> = {
+  sierra2_4a: 0.16,
+  floyd_steinberg: 0.16,
+  bayer: 0.11,
+  none: 0.08,
+  webp: 0.04,
+}
+
+const WEBP_QUALITY = 75
+
+// Re-encoding codec used when the chosen combination can't be stream-copied
+const DEFAULT_VIDEO_CODEC: Partial<Record<ContainerFormat, VideoCodec>> = {
+  webm: "vp9",
+}
+
+const VIDEO_ENCODERS: Record<Exclude<VideoCodec, "copy">, string[]> = {
+  h264: ["-c:v", "libx264", "-preset", "veryfast", "-pix_fmt", "yuv420p"],
+  hevc: ["-c:v", "libx265", "-preset", "veryfast", "-pix_fmt", "yuv420p"],
+  vp9: ["-c:v", "libvpx-vp9", "-deadline", "realtime", "-cpu-used", "8"],
+}
+
+const AUDIO_ENCODERS: Record<Exclude<AudioCodec, "copy" | "none">, string[]> = {
+  aac: ["-c:a", "aac", "-b:a", "192k"],
+  opus: ["-c:a", "libopus", "-b:a", "128k"],
+  mp3: ["-c:a", "libmp3lame", "-b:a", "192k"],
+  pcm: ["-c:a", "pcm_s16le"],
+}
+
+// Text subtitle codec each container muxes; the others can't hold a subtitle track
+export function getSubtitleEncoder(container: ContainerFormat, format: SubtitleFormat): string | null {
+  if (container === "mp4" || container === "mov") return "mov_text"
+  if (container === "webm") return "webvtt"
+  if (container === "mkv") return format === "ass" ? "ass" : "srt"
+  return null
+}
+
+const getSubtitleArgs = (settings: ExportSettings, filters: ExportFilters) => {
+  const stream = filters.subtitleStream
+  const encoder = stream ? getSubtitleEncoder(settings.container, stream.format) : null
+  return stream && encoder ? { input: stream.input, encoder } : null
+}
+
+export const getFileExtension = (fileName: string) => fileName.split(".").pop()?.toLowerCase() || "mp4"
+
+// Source containers that can't be exported, mapped to the closest one that holds the same streams
+const SOURCE_CONTAINER_FALLBACKS: Record<string, ContainerFormat> = {
+  m4v: "mp4",
+  "3gp": "mp4",
+  ts: "mkv",
+  mpg: "mkv",
+  aac: "m4a",
+  flac: "m4a",
+  ogg: "m4a",
+}
+
+// FLAC and Vorbis/Opus audio can't be stream-copied into M4A
+const REENCODED_AUDIO_SOURCES = ["flac", "ogg"]
+
+// Maps a source file extension onto the container it is exported to by default
+export function getSourceContainer(fileName: string): ContainerFormat {
+  const extension = getFileExtension(fileName)
+  if (extension in SOURCE_CONTAINER_FALLBACKS) return SOURCE_CONTAINER_FALLBACKS[extension]
+  return extension in CONTAINERS ? (extension as ContainerFormat) : "mp4"
+}
+
+export function getDefaultExportSettings(fileName: string): ExportSettings {
+  return {
+    container: getSourceContainer(fileName),
+    videoCodec: "copy",
+    audioCodec: REENCODED_AUDIO_SOURCES.includes(getFileExtension(fileName)) ? "aac" : "copy",
+    quality: "crf-23",
+    resolution: "source",
+    animation: DEFAULT_ANIMATION,
+  }
+}
+
+// Settings saved before the animated formats existed get their default options
+export const withExportDefaults = (settings: ExportSettings): ExportSettings => ({
+  ...settings,
+  animation: settings.animation ?? DEFAULT_ANIMATION,
+})
+
+// Output height of an animated export, from the picture size after reframing
+const getAnimationHeight = (width: number, frame: { width: number; height: number }) =>
+  Math.max(2, Math.round((width * frame.height) / frame.width / 2) * 2)
+
+// A ballpark size for an animated export, before it is rendered. `frame` is the output
+// picture at full size, after reframing.
+export function estimateAnimationSize(
+  settings: ExportSettings,
+  duration: number,
+  frame: { width: number; height: number },
+): number | null {
+  if (CONTAINERS[settings.container].kind !== "image" || frame.width <= 0 || frame.height <= 0) return null
+  const { fps, width, dither } = settings.animation
+  const outputWidth = width ?? frame.width
+  const pixels = outputWidth * getAnimationHeight(outputWidth, frame)
+  const bytesPerPixel = ANIMATION_BYTES_PER_PIXEL[settings.container === "webp" ? "webp" : dither]
+  return Math.round(pixels * Math.ceil(duration * fps) * bytesPerPixel)
+}
+
+// Keeps the codec choices valid after the container changes
+export function withContainer(settings: ExportSettings, container: ContainerFormat): ExportSettings {
+  const info = CONTAINERS[container]
+  return {
+    ...settings,
+    container,
+    videoCodec: info.videoCodecs.includes(settings.videoCodec) ? settings.videoCodec : info.videoCodecs[0] ?? "copy",
+    audioCodec: info.audioCodecs.includes(settings.audioCodec) ? settings.audioCodec : info.audioCodecs[0] ?? "none",
+  }
+}
+
+const hasVideoFilters = (filters: ExportFilters) =>
+  filters.video.length > 0 || filters.videoOverlay !== undefined || filters.retime !== undefined
+
+// Resizing and filtering always need a re-encode, so "copy" becomes the container's default encoder
+export function getEffectiveVideoCodec(settings: ExportSettings, filters: ExportFilters = NO_FILTERS): VideoCodec {
+  if (settings.videoCodec === "copy" && (settings.resolution !== "source" || hasVideoFilters(filters))) {
+    return DEFAULT_VIDEO_CODEC[settings.container] ?? "h264"
+  }
+  return settings.videoCodec
+}
+
+const hasAudioFilters = (filters: ExportFilters) =>
+  filters.audio.length > 0 || filters.audioGraph !== undefined || filters.retime !== undefined
+
+export function getEffectiveAudioCodec(settings: ExportSettings, filters: ExportFilters = NO_FILTERS): AudioCodec {
+  if (filters.dropAudio) {
+    return "none"
+  }
+  if (settings.audioCodec === "copy" && hasAudioFilters(filters)) {
+    return CONTAINERS[settings.container].audioCodecs.find((codec) => codec !== "copy") ?? "aac"
+  }
+  return settings.audioCodec
+}
+
+export function getExportMimeType(settings: ExportSettings): string {
+  return CONTAINERS[settings.container].mimeType
+}
+
+export function getExportExtension(settings: ExportSettings): string {
+  return CONTAINERS[settings.container].extension
+}
+
+// Whether the filters hold edits timed to the output, which need every cut on its exact frame
+export const needsExactCuts = (filters: ExportFilters = NO_FILTERS) => (filters.timed?.length ?? 0) > 0
+
+// Whether the trimmed file can be handed over as-is, without a finishing pass
+export function needsFinishingPass(
+  settings: ExportSettings,
+  sourceFileName: string,
+  filters: ExportFilters = NO_FILTERS,
+): boolean {
+  return (
+    hasVideoFilters(filters) ||
+    hasAudioFilters(filters) ||
+    filters.dropAudio === true ||
+    getSubtitleArgs(settings, filters) !== null ||
+    settings.container !== getSourceContainer(sourceFileName) ||
+    getFileExtension(sourceFileName) !== getExportExtension(settings) ||
+    settings.videoCodec !== "copy" ||
+    settings.audioCodec !== "copy" ||
+    settings.resolution !== "source"
+  )
+}
+
+// Codecs each container accepts by stream copy, as FFmpeg names them; "pcm" covers every
+// PCM variant. Matroska takes nearly anything, so it has no entry.
+const COPYABLE_VIDEO_CODECS: Partial<Record<ContainerFormat, string[]>> = {
+  mp4: ["h264", "hevc", "av1", "vp9", "mpeg4", "mpeg2video", "mpeg1video", "mjpeg"],
+  mov: ["h264", "hevc", "prores", "mpeg4", "mjpeg", "dnxhd", "mpeg2video", "png"],
+  webm: ["vp8", "vp9", "av1"],
+  avi: ["h264", "mpeg4", "msmpeg4v2", "msmpeg4v3", "mjpeg", "mpeg2video", "huffyuv"],
+}
+
+const COPYABLE_AUDIO_CODECS: Partial<Record<ContainerFormat, string[]>> = {
+  mp4: ["aac", "mp3", "ac3", "eac3", "opus", "alac", "flac"],
+  mov: ["aac", "mp3", "alac", "ac3", "pcm"],
+  webm: ["opus", "vorbis"],
+  avi: ["mp3", "mp2", "ac3", "pcm"],
+  mp3: ["mp3"],
+  m4a: ["aac", "alac"],
+}
+
+const canCopyCodec = (table: Partial<Record<ContainerFormat, string[]>>, container: ContainerFormat, codec: string) => {
+  const codecs = table[container]
+  return !codecs || codecs.includes(codec) || (codec.startsWith("pcm_") && codecs.includes("pcm"))
+}
+
+// Human-readable problems with stream-copying the chosen combination. With the source's
+// analysis the codec checks are exact; without it they are guesses from the file extension.
+export function getExportWarnings(
+  settings: ExportSettings,
+  sourceFileName: string,
+  mediaInfo: MediaInfo | null = null,
+  filters: ExportFilters = NO_FILTERS,
+): string[] {
+  const warnings: string[] = []
+  const info = CONTAINERS[settings.container]
+  const sourceContainer = getSourceContainer(sourceFileName)
+  const sourceLabel = `.${getFileExtension(sourceFileName)}`
+  const video = getPrimaryVideoStream(mediaInfo)
+  const audio = getPrimaryAudioStream(mediaInfo)
+
+  if (info.kind === "image") {
+    warnings.push(`${info.label} has no audio and is always re-encoded at ${settings.animation.fps} fps.`)
+    return warnings
+  }
+
+  if (info.kind === "video" && settings.videoCodec === "copy") {
+    if (settings.resolution !== "source" || hasVideoFilters(filters)) {
+      const change =
+        settings.resolution !== "source" ? "Resizing" : filters.retime ? "Changing speed" : "Reframing and overlays"
+      warnings.push(
+        `${change} can't be stream-copied, so video will be re-encoded as ${
+          VIDEO_CODEC_LABELS[getEffectiveVideoCodec(settings, filters)]
+        }.`,
+      )
+    } else if (mediaInfo) {
+      if (video && !canCopyCodec(COPYABLE_VIDEO_CODECS, settings.container, video.codec)) {
+        warnings.push(`${info.label} can't hold ${video.codec} video, so copying it will fail. Pick a video codec.`)
+      }
+    } else if (settings.container === "webm" && sourceContainer !== "webm") {
+      warnings.push(`WebM only holds VP8/VP9/AV1 video. Copying video from a ${sourceLabel} file will likely fail; pick VP9.`)
+    } else if (settings.container !== sourceContainer) {
+      warnings.push(`Copying video from ${sourceLabel} into ${info.label} only works if ${info.label} supports the source codec.`)
+    }
+  }
+
+  if (mediaInfo && !audio && info.kind === "audio" && !filters.audioGraph) {
+    warnings.push("This file has no audio track to export.")
+  } else if (filters.dropAudio) {
+    if (info.kind === "audio") warnings.push("The clip's audio is stripped, so this export will be silent.")
+  } else if (settings.audioCodec === "copy" && hasAudioFilters(filters)) {
+    warnings.push(
+      `Audio changes can't be stream-copied, so audio will be re-encoded as ${
+        AUDIO_CODEC_LABELS[getEffectiveAudioCodec(settings, filters)]
+      }.`,
+    )
+  } else if (settings.audioCodec === "copy") {
+    if (mediaInfo) {
+      if (audio && !canCopyCodec(COPYABLE_AUDIO_CODECS, settings.container, audio.codec)) {
+        warnings.push(`${info.label} can't hold ${audio.codec} audio, so copying it will fail. Pick an audio codec.`)
+      }
+    } else if (settings.container === "webm" && sourceContainer !== "webm") {
+      warnings.push(`WebM only holds Vorbis/Opus audio. Copying audio from a ${sourceLabel} file will likely fail; pick Opus.`)
+    } else if (settings.container === "mp3") {
+      warnings.push("Copying audio into MP3 only works if the source track is already MP3.")
+    } else if (settings.container === "m4a") {
+      warnings.push("Copying audio into M4A only works if the source track is already AAC.")
+    }
+  }
+
+  if (filters.subtitleStream && !getSubtitleArgs(settings, filters)) {
+    warnings.push(
+      `${info.label} can't hold a subtitle track, so the subtitles are left out. Burn them in or export them as a separate file.`,
+    )
+  }
+
+  // Exports map the first video and audio track only
+  const dropped = mediaInfo?.streams.filter(
+    (stream) => stream !== video && stream !== audio && !(stream.type === "video" && stream.isCoverArt),
+  )
+  if (dropped && dropped.length > 0) {
+    warnings.push(
+      `Only the first video and audio track are exported; ${dropped.length} other ${
+        dropped.length === 1 ? "stream" : "streams"
+      } (${dropped.map((stream) => stream.type).join(", ")}) will be left out.`,
+    )
+  }
+
+  return warnings
+}
+
+const qualityArgs = (codec: Exclude<VideoCodec, "copy">, quality: QualityPreset) => {
+  if (quality.startsWith("crf-")) {
+    const crf = quality.slice(4)
+    // libvpx-vp9 only uses constant quality when the bitrate cap is lifted
+    return codec === "vp9" ? ["-crf", crf, "-b:v", "0"] : ["-crf", crf]
+  }
+  return ["-b:v", quality]
+}
+
+// Filter option values (texts, paths) pass two parsers: the option parser, then the filter graph parser
+export const escapeFilterValue = (value: string) =>
+  value.replace(/[\\':]/g, "\\$&").replace(/[\\'[\],;]/g, "\\$&")
+
+const scaleFilter = (resolution: ResolutionPreset) => (resolution === "source" ? null : `scale=-2:${resolution}`)
+
+const animationFilters = ({ fps, width }: AnimationSettings) => [
+  `fps=${fps}`,
+  ...(width ? [`scale=${width}:-2:flags=lanczos`] : []),
+]
+
+// GIF plays once with -1 and repeats N more times with N; WebP counts every play
+const animationLoopArgs = (container: ContainerFormat, { plays }: AnimationSettings) =>
+  container === "gif" ? ["-loop", String(plays === 0 ? 0 : plays === 1 ? -1 : plays - 1)] : ["-loop", String(plays)]
+
+// Arguments for the finishing pass from the trimmed intermediate to the final file. With
+// `inputRange` the pass reads just that stretch of the input, for filters that cut it themselves.
+export function buildExportArgs(
+  settings: ExportSettings,
+  inputFileName: string,
+  outputFileName: string,
+  filters: ExportFilters = NO_FILTERS,
+  inputRange?: TimeRange,
+): string[] {
+  return buildFinishingArgs(settings, inputFileName, outputFileName, filters, "export", inputRange)
+}
+
+// Arguments for the pass before a GIF export that renders the same frames into PALETTE_FILE_NAME
+export function buildPaletteArgs(
+  settings: ExportSettings,
+  inputFileName: string,
+  filters: ExportFilters = NO_FILTERS,
+  inputRange?: TimeRange,
+): string[] {
+  return buildFinishingArgs(settings, inputFileName, PALETTE_FILE_NAME, filters, "palette", inputRange)
+}
+
+function buildFinishingArgs(
+  settings: ExportSettings,
+  inputFileName: string,
+  outputFileName: string,
+  filters: ExportFilters,
+  pass: "palette" | "export",
+  inputRange?: TimeRange,
+): string[] {
+  const info = CONTAINERS[settings.container]
+  const audioCodec = info.kind === "image" ? "none" : getEffectiveAudioCodec(settings, filters)
+  const audioGraph = audioCodec !== "none" ? filters.audioGraph : undefined
+  const scale = scaleFilter(settings.resolution)
+  // Sizing comes last, so overlays are laid out on the full-size picture
+  const sizeFilters = info.kind === "image" ? animationFilters(settings.animation) : scale ? [scale] : []
+  const videoFilters = [...filters.video, ...sizeFilters]
+  const videoOverlay = info.kind !== "audio" ? filters.videoOverlay : undefined
+  const subtitles = info.kind === "video" ? getSubtitleArgs(settings, filters) : null
+  const chain = (filterList: string[], passthrough: string) =>
+    filterList.length > 0 ? filterList.join(",") : passthrough
+
+  // Retiming and overlays need more than one stream, so everything runs in one complex graph
+  const graph: string[] = []
+  const retime = filters.retime
+  const retimeVideo = retime !== undefined && retime.hasVideo && info.kind !== "audio"
+  const retimeAudio =
+    retime !== undefined &&
+    retime.hasAudio &&
+    audioCodec !== "none" &&
+    (!audioGraph || audioGraph.graph.includes("[0:a]"))
+  if (retime && (retimeVideo || retimeAudio)) {
+    graph.push(buildRetimeGraph(retime.pieces, retime.reverse, { video: retimeVideo, audio: retimeAudio }))
+  }
+
+  // GIF frames are mapped onto a palette made from the very same frames
+  const paletted = needsPalettePass(settings)
+  // The palette comes after the music and the overlay image
+  const paletteInput = 1 + (audioGraph?.inputs.length ?? 0) + (videoOverlay ? 1 : 0)
+
+  let videoMap = ["-map", "0:v:0?"]
+  let videoFilterArgs = videoFilters.length > 0 ? ["-vf", videoFilters.join(",")] : []
+  if (retimeVideo || videoOverlay || paletted) {
+    const source = retimeVideo ? "[rv]" : "[0:v]"
+    const pictureOut = paletted ? "[picture]" : "[vout]"
+    if (videoOverlay) {
+      // The image comes after the music inputs
+      const overlayInput = `[${1 + (audioGraph?.inputs.length ?? 0)}:v]`
+      graph.push(`${source}${chain(filters.video, "null")}[overlay_base]`)
+      graph.push(videoOverlay.graph.split("[wm]").join(overlayInput))
+      graph.push(`[overlay_out]${chain(sizeFilters, "null")}${pictureOut}`)
+    } else {
+      graph.push(`${source}${chain(videoFilters, "null")}${pictureOut}`)
+    }
+    if (paletted) {
+      graph.push(
+        pass === "palette"
+          ? "[picture]palettegen[vout]"
+          : // Only the changed rectangle of each frame is re-dithered, which keeps screen recordings small
+            `[picture][${paletteInput}:v]paletteuse=dither=${settings.animation.dither}:diff_mode=rectangle[vout]`,
+      )
+    }
+    videoMap = ["-map", "[vout]"]
+    videoFilterArgs = []
+  }
+
+  let audioMap = ["-map", "0:a:0?"]
+  let audioFilterArgs = filters.audio.length > 0 ? ["-af", filters.audio.join(",")] : []
+  if (audioGraph) {
+    graph.push(retimeAudio ? audioGraph.graph.split("[0:a]").join("[ra]") : audioGraph.graph)
+    audioMap = ["-map", "[aout]"]
+    audioFilterArgs = []
+  } else if (retimeAudio) {
+    graph.push(`[ra]${chain(filters.audio, "anull")}[aout]`)
+    audioMap = ["-map", "[aout]"]
+    audioFilterArgs = []
+  }
+
+  const inputArgs = [
+    ...(inputRange ? ["-ss", inputRange.start.toString(), "-to", inputRange.end.toString()] : []),
+    "-i",
+    inputFileName,
+    ...(audioGraph?.inputs.flatMap((input) => ["-i", input]) ?? []),
+    // A still image is looped so it lasts as long as the picture; the overlay ends with the picture
+    ...(videoOverlay ? ["-loop", "1", "-i", videoOverlay.input] : []),
+    ...(subtitles ? ["-i", subtitles.input] : []),
+    ...(paletted && pass === "export" ? ["-i", PALETTE_FILE_NAME] : []),
+  ]
+  const graphArgs = graph.length > 0 ? ["-filter_complex", graph.join(";")] : []
+
+  if (pass === "palette") {
+    return [...inputArgs, ...graphArgs, ...videoMap, "-update", "1", outputFileName]
+  }
+
+  if (info.kind === "image") {
+    const encoderArgs =
+      settings.container === "webp" ? ["-c:v", "libwebp_anim", "-lossless", "0", "-q:v", String(WEBP_QUALITY)] : []
+    return [
+      ...inputArgs,
+      ...graphArgs,
+      ...videoMap,
+      ...videoFilterArgs,
+      ...encoderArgs,
+      ...animationLoopArgs(settings.container, settings.animation),
+      outputFileName,
+    ]
+  }
+
+  const audioArgs =
+    audioCodec === "none"
+      ? ["-an"]
+      : audioCodec === "copy"
+        ? ["-c:a", "copy"]
+        : [...AUDIO_ENCODERS[audioCodec], ...audioFilterArgs]
+
+  if (info.kind === "audio") {
+    return [...inputArgs, ...graphArgs, "-vn", ...(audioCodec !== "none" ? audioMap : []), ...audioArgs, outputFileName]
+  }
+
+  const videoCodec = getEffectiveVideoCodec(settings, filters)
+  const videoArgs =
+    videoCodec === "copy"
+      ? ["-c:v", "copy"]
+      : [
+          ...VIDEO_ENCODERS[videoCodec],
+          ...qualityArgs(videoCodec, settings.quality),
+          ...videoFilterArgs,
+          // Apple players only recognise HEVC in MP4/MOV with the hvc1 tag
+          ...(videoCodec === "hevc" && settings.container !== "mkv" ? ["-tag:v", "hvc1"] : []),
+        ]
+
+  const containerArgs = settings.container === "mp4" || settings.container === "mov" ? ["-movflags", "+faststart"] : []
+  // The subtitle file comes after the music and the overlay image
+  const subtitleInput = 1 + (audioGraph?.inputs.length ?? 0) + (videoOverlay ? 1 : 0)
+  const subtitleArgs = subtitles ? ["-map", `${subtitleInput}:s`, "-c:s", subtitles.encoder] : []
+
+  return [
+    ...inputArgs,
+    ...graphArgs,
+    ...videoMap,
+    ...(audioCodec !== "none" ? audioMap : []),
+    ...videoArgs,
+    ...audioArgs,
+    ...subtitleArgs,
+    ...containerArgs,
+    outputFileName,
+  ]
+}
+
+export function describeExportSettings(settings: ExportSettings): string {
+  const info = CONTAINERS[settings.container]
+  const parts = [info.label]
+
+  if (info.kind === "video") {
+    parts.push(settings.videoCodec === "copy" ? "Copy" : VIDEO_CODEC_LABELS[settings.videoCodec])
+  }
+  if (info.kind !== "image" && settings.audioCodec !== "copy") {
+    parts.push(AUDIO_CODEC_LABELS[settings.audioCodec])
+  }
+  if (info.kind === "image") {
+    const { fps, width } = settings.animation
+    parts.push(`${fps} fps`, width ? `${width}px` : "Source width")
+  } else if (settings.resolution !== "source") {
+    parts.push(RESOLUTION_LABELS[settings.resolution])
+  }
+
+  return parts.join(" · ")
+}
@@ -0,0 +1,223 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+import type { TimeRange } from "@/lib/cut-list"
+import { getPrimaryAudioStream, getPrimaryVideoStream, type MediaInfo } from "@/lib/media-info"
+import { probeMediaInfo } from "@/lib/probe"
+import { trimRanges, type TrimMode, type TrimResult, type TrimStepCallback } from "@/lib/trim"
+import {
+  CONTAINERS,
+  NO_FILTERS,
+  PALETTE_FILE_NAME,
+  buildExportArgs,
+  buildPaletteArgs,
+  getEffectiveAudioCodec,
+  getEffectiveVideoCodec,
+  getExportExtension,
+  getExportMimeType,
+  getFileExtension,
+  needsExactCuts,
+  needsFinishingPass,
+  needsPalettePass,
+  type ExportFilters,
+  type ExportSettings,
+} from "@/lib/export-format"
+import { storeOutput } from "@/lib/output-storage"
+import { buildReframeFilters } from "@/lib/reframe"
+import { buildAudioFilters } from "@/lib/audio-settings"
+import { buildTextFilters, buildWatermarkGraph, type OverlayFont } from "@/lib/overlays"
+import { buildSubtitleBurnFilter, buildSubtitleFile } from "@/lib/subtitles"
+import { getRetimePieces, getRetimedDuration, getSourcePieces, isRetimed } from "@/lib/speed"
+import type { ProjectEdits } from "@/lib/project"
+
+export type ExportOptions = {
+  mode: TrimMode
+  settings: ExportSettings
+  onStep?: TrimStepCallback
+  mediaInfo?: MediaInfo | null
+  filters?: ExportFilters
+}
+
+export type ExportResult = {
+  file: Blob
+  mimeType: string
+  extension: string
+  trim: TrimResult
+}
+
+type EditFilterOptions = {
+  hasVideo: boolean
+  hasAudio: boolean
+  ranges: TimeRange[]
+  musicPath: string | null
+  // Where the overlay fonts and the watermark image are mounted; texts without their font are left out
+  fontPaths: Partial<Record<OverlayFont, string>>
+  watermarkPath: string | null
+  subtitleFontsDir: string | null // folder holding the font for burned-in subtitles
+}
+
+type EditSettings = Pick<ProjectEdits, "reframe" | "audio" | "speed" | "segments" | "overlays" | "subtitles">
+
+// Turns the editor's picture, sound, speed, overlay and subtitle settings into finishing-pass filters
+export function buildEditFilters(
+  { reframe, audio, speed, segments, overlays, subtitles }: EditSettings,
+  { hasVideo, hasAudio, ranges, musicPath, fontPaths, watermarkPath, subtitleFontsDir }: EditFilterOptions,
+): ExportFilters {
+  const pieces = getRetimePieces(ranges, segments, speed.rate)
+  const retimed = isRetimed(pieces, speed.reverse)
+  const textFilters = hasVideo ? buildTextFilters(overlays.texts, fontPaths) : []
+  const audible = (audio.music !== null && musicPath !== null) || (hasAudio && !audio.stripOriginal)
+  // Edits timed to the output, by the names messages use for them
+  const timed: string[] = []
+  if (retimed) timed.push("speed changes")
+  if (audible && (audio.fadeIn > 0 || audio.fadeOut > 0)) timed.push("fades")
+  if (textFilters.length > 0) timed.push("text overlays")
+  const watermark = hasVideo ? overlays.watermark : null
+  // Separate subtitle files are handed over by the editor, outside of FFmpeg
+  const track = subtitles.mode !== "file" && (hasVideo || subtitles.mode === "soft") ? subtitles.track : null
+  // A separate file is timed to the output just the same
+  if (track || (subtitles.mode === "file" && subtitles.track)) timed.push("subtitles")
+  const subtitleFile = track
+    ? { name: `subtitles.${track.format}`, content: buildSubtitleFile(track, ranges, pieces, speed.reverse) }
+    : null
+  const burnFilters =
+    track && subtitleFile && subtitles.mode === "burn"
+      ? [buildSubtitleBurnFilter(subtitleFile.name, track.format, subtitleFontsDir)]
+      : []
+  return {
+    video: hasVideo ? [...buildReframeFilters(reframe), ...burnFilters, ...textFilters] : [],
+    videoOverlay: watermark && watermarkPath ? { input: watermarkPath, graph: buildWatermarkGraph(watermark) } : undefined,
+    ...buildAudioFilters(audio, { outputDuration: getRetimedDuration(pieces), hasAudio, musicPath }),
+    retime: retimed ? { pieces, reverse: speed.reverse, hasVideo, hasAudio } : undefined,
+    subtitleStream:
+      track && subtitleFile && subtitles.mode === "soft" ? { input: subtitleFile.name, format: track.format } : undefined,
+    files: subtitleFile ? [subtitleFile] : undefined,
+    timed,
+  }
+}
+
+// "a", "a and b", "a, b and c", capitalized to open a sentence
+function formatEditList(names: string[]): string {
+  const list = names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0]
+  return list.charAt(0).toUpperCase() + list.slice(1)
+}
+
+// Whether the finishing pass re-encodes every stream it keeps. It decodes the source then
+// anyway, so it can cut the ranges itself instead of encoding a trimmed file a second time.
+function reencodesEverything(settings: ExportSettings, filters: ExportFilters, info: MediaInfo | null): boolean {
+  if (!info) return false
+  const { kind } = CONTAINERS[settings.container]
+  const videoCopied =
+    kind === "video" && getPrimaryVideoStream(info) !== null && getEffectiveVideoCodec(settings, filters) === "copy"
+  const audioCopied =
+    kind !== "image" && getPrimaryAudioStream(info) !== null && getEffectiveAudioCodec(settings, filters) === "copy"
+  return !videoCopied && !audioCopied
+}
+
+// Filters for a finishing pass that cuts the ranges out of the source itself: the retime
+// pieces (or the plain ranges) move onto the source, counted from where its input starts
+function withSourceCut(filters: ExportFilters, ranges: TimeRange[], info: MediaInfo): ExportFilters {
+  const pieces = filters.retime?.pieces ?? getRetimePieces(ranges, [], 1)
+  return {
+    ...filters,
+    retime: {
+      pieces: getSourcePieces(pieces, ranges, ranges[0].start),
+      reverse: filters.retime?.reverse ?? false,
+      hasVideo: getPrimaryVideoStream(info) !== null,
+      hasAudio: getPrimaryAudioStream(info) !== null,
+    },
+  }
+}
+
+// Cuts the ranges out of the source (in its own container), then runs a
+// finishing pass when the export settings ask for a different format. The result is
+// moved out of FFmpeg's in-memory filesystem into OPFS before it is returned. Edits timed to
+// the output make the export precise; a precise export whose finishing pass re-encodes
+// everything makes the cuts in that pass instead.
+export async function exportRanges(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  ranges: TimeRange[],
+  { mode, settings, onStep, mediaInfo, filters = NO_FILTERS }: ExportOptions,
+): Promise<ExportResult> {
+  if (ranges.length === 0) {
+    throw new Error("Nothing to export. Add at least one segment to keep.")
+  }
+
+  const trimmedFileName = `trimmed.${getFileExtension(inputFileName)}`
+  const mimeType = getExportMimeType(settings)
+  const extension = getExportExtension(settings)
+  const finishing = needsFinishingPass(settings, inputFileName, filters)
+  const precise = mode === "precise" || needsExactCuts(filters)
+  const info = finishing && precise ? (mediaInfo ?? (await probeMediaInfo(ffmpeg, inputFileName))) : null
+  const cutInFinishing = info !== null && reencodesEverything(settings, filters, info)
+  const finishingInput = cutInFinishing ? inputFileName : trimmedFileName
+  const finishingFilters = info && cutInFinishing ? withSourceCut(filters, ranges, info) : filters
+  const inputRange = cutInFinishing ? { start: ranges[0].start, end: ranges[ranges.length - 1].end } : undefined
+  const paletted = finishing && needsPalettePass(settings)
+  const finishingSteps = finishing ? (paletted ? 2 : 1) : 0
+  const outputFileName = finishing ? `export.${extension}` : trimmedFileName
+  let trimSteps = cutInFinishing ? 0 : 1
+
+  try {
+    const cut: TrimResult = cutInFinishing
+      ? {
+          method: "reencode",
+          reason: "The export re-encodes anyway, so every range was cut on its exact frame in the same pass.",
+        }
+      : await trimRanges(ffmpeg, inputFileName, trimmedFileName, ranges, {
+          mode: precise ? "precise" : mode,
+          mediaInfo,
+          onStep: (step, totalSteps) => {
+            trimSteps = totalSteps
+            onStep?.(step, totalSteps + finishingSteps)
+          },
+        })
+    const trim: TrimResult =
+      precise && mode !== "precise"
+        ? { ...cut, reason: `${formatEditList(filters.timed ?? [])} need exact cuts. ${cut.reason}` }
+        : cut
+
+    if (finishing) {
+      onStep?.(trimSteps, trimSteps + finishingSteps)
+      for (const { name, content } of filters.files ?? []) {
+        await ffmpeg.writeFile(name, content)
+      }
+      if (paletted) {
+        console.log("[v0] Generating GIF palette...")
+        const paletteExitCode = await ffmpeg.exec(buildPaletteArgs(settings, finishingInput, finishingFilters, inputRange))
+        if (paletteExitCode !== 0) {
+          throw new Error(`Palette generation failed (FFmpeg exited with code ${paletteExitCode})`)
+        }
+        onStep?.(trimSteps + 1, trimSteps + finishingSteps)
+      }
+      console.log("[v0] Converting to export format...")
+      const exitCode = await ffmpeg.exec(
+        buildExportArgs(settings, finishingInput, outputFileName, finishingFilters, inputRange),
+      )
+      if (exitCode !== 0) {
+        throw new Error(`Conversion failed (FFmpeg exited with code ${exitCode}). Try re-encoding instead of copying.`)
+      }
+    }
+
+    const data = await ffmpeg.readFile(outputFileName)
+    if (typeof data === "string") {
+      throw new Error("Unexpected text output from FFmpeg")
+    }
+
+    // Free the wasm copy before writing the output out
+    await ffmpeg.deleteFile(outputFileName).catch(() => {})
+    const file = await storeOutput(data, mimeType, extension)
+
+    return { file, mimeType, extension, trim }
+  } finally {
+    await ffmpeg.deleteFile(trimmedFileName).catch(() => {})
+    if (finishing) {
+      await ffmpeg.deleteFile(outputFileName).catch(() => {})
+    }
+    for (const { name } of filters.files ?? []) {
+      await ffmpeg.deleteFile(name).catch(() => {})
+    }
+    if (paletted) {
+      await ffmpeg.deleteFile(PALETTE_FILE_NAME).catch(() => {})
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+
+// Must match the @ffmpeg/core version in package.json (copied to public/ffmpeg on install)
+export const FFMPEG_CORE_VERSION = "0.12.6"
+
+const CORE_CACHE_NAME = `ffmpeg-core-${FFMPEG_CORE_VERSION}`
+
+// Self-hosted copy first, public CDNs only as a last resort
+const DEFAULT_CORE_ORIGINS = [
+  "/ffmpeg",
+  `https://unpkg.com/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/umd`,
+  `https://cdn.jsdelivr.net/npm/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/umd`,
+]
+
+// NEXT_PUBLIC_FFMPEG_CORE_URL takes a comma-separated list of base URLs tried before the defaults
+export function getCoreOrigins(): string[] {
+  const configured = (process.env.NEXT_PUBLIC_FFMPEG_CORE_URL || "")
+    .split(",")
+    .map((url) => url.trim().replace(/\/$/, ""))
+    .filter(Boolean)
+
+  return [...new Set([...configured, ...DEFAULT_CORE_ORIGINS])]
+}
+
+// Returns a blob URL for the asset, served from Cache Storage when we have it
+// so that later visits work without any network.
+async function fetchCoreAsset(url: string, mimeType: string): Promise<string> {
+  const cache = typeof caches !== "undefined" ? await caches.open(CORE_CACHE_NAME).catch(() => null) : null
+
+  let response = await cache?.match(url)
+  if (!response) {
+    response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url} (${response.status})`)
+    }
+    await cache?.put(url, response.clone()).catch((error) => {
+      console.warn("[v0] Could not cache FFmpeg core:", error)
+    })
+  }
+
+  const blob = await response.blob()
+  return URL.createObjectURL(new Blob([blob], { type: mimeType }))
+}
+
+type CoreURLs = {
+  baseURL: string
+  coreURL: string
+  wasmURL: string
+}
+
+// The blob URLs of the core that loaded. The queue reloads the core after every cancel, and
+// reusing them keeps a single copy of the wasm (~32 MB) alive instead of one per reload.
+let loadedCore: CoreURLs | null = null
+
+const revokeCore = ({ coreURL, wasmURL }: CoreURLs) => {
+  URL.revokeObjectURL(coreURL)
+  URL.revokeObjectURL(wasmURL)
+}
+
+// Tries the core that loaded before, then each origin in turn, and returns the origin that loaded
+export async function loadFFmpegCore(ffmpeg: FFmpeg): Promise<string> {
+  if (loadedCore) {
+    const { baseURL, coreURL, wasmURL } = loadedCore
+    try {
+      await ffmpeg.load({ coreURL, wasmURL })
+      return baseURL
+    } catch (error) {
+      console.warn("[v0] Reloading the FFmpeg core failed, fetching it again:", error)
+      revokeCore(loadedCore)
+      loadedCore = null
+    }
+  }
+
+  const errors: string[] = []
+
+  for (const baseURL of getCoreOrigins()) {
+    const blobURLs: string[] = []
+    try {
+      console.log(`[v0] Loading FFmpeg core from ${baseURL}...`)
+      const coreURL = await fetchCoreAsset(`${baseURL}/ffmpeg-core.js`, "text/javascript")
+      blobURLs.push(coreURL)
+      const wasmURL = await fetchCoreAsset(`${baseURL}/ffmpeg-core.wasm`, "application/wasm")
+      blobURLs.push(wasmURL)
+      await ffmpeg.load({ coreURL, wasmURL })
+      loadedCore = { baseURL, coreURL, wasmURL }
+      return baseURL
+    } catch (error) {
+      console.warn(`[v0] FFmpeg core unavailable at ${baseURL}:`, error)
+      errors.push(`${baseURL}: ${error instanceof Error ? error.message : String(error)}`)
+      blobURLs.forEach((url) => URL.revokeObjectURL(url))
+    }
+  }
+
+  throw new Error(`Could not load the FFmpeg core from any source.\n${errors.join("\n")}`)
+}
@@ -0,0 +1,23 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+
+export type ExecLogResult = {
+  exitCode: number
+  logs: string[]
+}
+
+// Runs a command and collects everything FFmpeg logs while it runs.
+// Used for probing, since FFmpeg reports stream info and filter output on stderr.
+export async function execWithLogs(ffmpeg: FFmpeg, args: string[]): Promise<ExecLogResult> {
+  const logs: string[] = []
+  const handleLog = ({ message }: { message: string }) => {
+    logs.push(message)
+  }
+
+  ffmpeg.on("log", handleLog)
+  try {
+    const exitCode = await ffmpeg.exec(args)
+    return { exitCode, logs }
+  } finally {
+    ffmpeg.off("log", handleLog)
+  }
+}
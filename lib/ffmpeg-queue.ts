@@ -0,0 +1,347 @@
+import { FFmpeg, FFFSType } from "@ffmpeg/ffmpeg"
+import { loadFFmpegCore } from "@/lib/ffmpeg-loader"
+
+// Runs every FFmpeg job in the app one after another on a single shared instance.
+// Cancelling a running job terminates the worker, so the queue reloads the core
+// and re-mounts the registered input files before moving on.
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled"
+
+export type CoreStatus = "idle" | "loading" | "ready" | "error"
+
+export type JobSnapshot = {
+  id: string
+  label: string
+  status: JobStatus
+  progress: number // 0..1
+  eta: number | null // seconds remaining, once there is enough progress to estimate
+  error: string | null
+  background: boolean // internal jobs (probing, thumbnails) that the job list doesn't show
+}
+
+export type QueueState = {
+  coreStatus: CoreStatus
+  jobs: JobSnapshot[]
+}
+
+export type JobContext = {
+  ffmpeg: FFmpeg
+  // For jobs made of several FFmpeg passes; FFmpeg's own progress is scaled into the current step
+  setStep: (step: number, totalSteps: number) => void
+  // For jobs whose progress FFmpeg can't report, e.g. many tiny commands
+  setProgress: (progress: number) => void
+}
+
+export type JobOptions<T> = {
+  label: string
+  run: (context: JobContext) => Promise<T>
+  background?: boolean
+  // Called after every attempt, including retries
+  onSuccess?: (result: T) => void
+  onError?: (error: unknown) => void
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job was cancelled")
+    this.name = "JobCancelledError"
+  }
+}
+
+type Job = JobSnapshot & {
+  options: JobOptions<unknown>
+  startedAt: number | null
+  step: number
+  totalSteps: number
+  resolve: (value: unknown) => void
+  reject: (error: unknown) => void
+}
+
+// Jobs of every result type share one list. A job only ever settles with what its own run
+// returned, so the result is narrowed back to T where it is handed out.
+const toQueuedOptions = <T>({ onSuccess, ...options }: JobOptions<T>): JobOptions<unknown> => ({
+  ...options,
+  onSuccess: onSuccess && ((result) => onSuccess(result as T)),
+})
+
+// Inputs are mounted read-only with WORKERFS, one directory per input, so FFmpeg reads
+// straight from the user's File instead of a copy in the wasm heap
+const INPUT_ROOT = "/inputs"
+
+export const getInputPath = (name: string) => `${INPUT_ROOT}/${name}/${name}`
+
+// The folder an input is mounted in, for filters that take a directory
+export const getInputDir = (name: string) => `${INPUT_ROOT}/${name}`
+
+// Progress below this is too noisy to extrapolate an ETA from
+const MIN_PROGRESS_FOR_ETA = 0.02
+
+let jobCounter = 0
+
+export class FFmpegQueue {
+  private ffmpeg: FFmpeg | null = null
+  private loading: Promise<FFmpeg> | null = null
+  private coreStatus: CoreStatus = "idle"
+  private jobs: Job[] = []
+  private running: Job | null = null
+  private inputs = new Map<string, File>()
+  private mounted = new Set<string>()
+  private listeners = new Set<() => void>()
+  private state: QueueState = { coreStatus: "idle", jobs: [] }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getState = () => this.state
+
+  load(): Promise<FFmpeg> {
+    if (!this.loading) {
+      this.setCoreStatus("loading")
+      this.loading = (async () => {
+        const ffmpeg = new FFmpeg()
+        ffmpeg.on("progress", ({ progress }) => this.handleProgress(progress))
+
+        const baseURL = await loadFFmpegCore(ffmpeg)
+        console.log(`[v0] FFmpeg loaded successfully from ${baseURL}`)
+
+        this.mounted.clear()
+        await ffmpeg.createDir(INPUT_ROOT)
+        for (const [name, file] of this.inputs) {
+          await this.mountInput(ffmpeg, name, file)
+        }
+
+        this.ffmpeg = ffmpeg
+        this.setCoreStatus("ready")
+        return ffmpeg
+      })()
+
+      this.loading.catch(() => {
+        // Let the next load() try again
+        this.loading = null
+        this.setCoreStatus("error")
+      })
+    }
+    return this.loading
+  }
+
+  // Input files survive core reloads: they are mounted again whenever the worker restarts.
+  // Jobs read them from getInputPath(name).
+  async registerInput(name: string, file: File) {
+    this.inputs.set(name, file)
+    const ffmpeg = await this.load()
+    if (this.inputs.get(name) === file) {
+      await this.mountInput(ffmpeg, name, file)
+    }
+  }
+
+  async releaseInput(name: string) {
+    this.inputs.delete(name)
+    const ffmpeg = this.ffmpeg
+    if (!ffmpeg || !this.mounted.has(name)) return
+
+    this.mounted.delete(name)
+    await ffmpeg.unmount(`${INPUT_ROOT}/${name}`).catch(() => {})
+    await ffmpeg.deleteDir(`${INPUT_ROOT}/${name}`).catch(() => {})
+  }
+
+  enqueue<T>(options: JobOptions<T>): { id: string; result: Promise<T> } {
+    jobCounter += 1
+    const job = this.createJob(`job-${jobCounter}`, toQueuedOptions(options))
+    this.jobs.push(job)
+    this.emit()
+    this.pump()
+    return { id: job.id, result: this.attemptPromise<T>(job) }
+  }
+
+  cancel(id: string) {
+    const job = this.jobs.find((candidate) => candidate.id === id)
+    if (!job || (job.status !== "queued" && job.status !== "running")) return
+
+    const wasRunning = job.status === "running"
+    this.settle(job, "cancelled", new JobCancelledError())
+
+    // A job still waiting for the core to load just never starts; one that is executing
+    // can only be stopped by killing the worker
+    if (wasRunning && this.ffmpeg) {
+      console.log(`[v0] Terminating FFmpeg to cancel "${job.label}"...`)
+      this.ffmpeg.terminate()
+      this.ffmpeg = null
+      this.loading = null
+      this.setCoreStatus("idle")
+    }
+  }
+
+  // Runs a failed or cancelled job again with the same options (and callbacks)
+  retry(id: string): Promise<unknown> | null {
+    const index = this.jobs.findIndex((candidate) => candidate.id === id)
+    const job = this.jobs[index]
+    if (!job || (job.status !== "failed" && job.status !== "cancelled")) return null
+
+    const retried = this.createJob(job.id, job.options)
+    this.jobs.splice(index, 1)
+    this.jobs.push(retried)
+    this.emit()
+    this.pump()
+    return this.attemptPromise(retried)
+  }
+
+  clearFinished() {
+    this.jobs = this.jobs.filter((job) => job.status === "queued" || job.status === "running")
+    this.emit()
+  }
+
+  private createJob(id: string, options: JobOptions<unknown>): Job {
+    return {
+      id,
+      label: options.label,
+      status: "queued",
+      progress: 0,
+      eta: null,
+      error: null,
+      background: options.background ?? false,
+      options,
+      startedAt: null,
+      step: 0,
+      totalSteps: 1,
+      resolve: () => {},
+      reject: () => {},
+    }
+  }
+
+  private attemptPromise<T>(job: Job): Promise<T> {
+    const promise = new Promise<T>((resolve, reject) => {
+      job.resolve = (value) => resolve(value as T)
+      job.reject = reject
+    })
+    // Callers that only use onSuccess/onError shouldn't trigger unhandled rejections
+    promise.catch(() => {})
+    return promise
+  }
+
+  private async pump() {
+    if (this.running) return
+    const job = this.jobs.find((candidate) => candidate.status === "queued")
+    if (!job) return
+
+    this.running = job
+    job.status = "running"
+    job.startedAt = performance.now()
+    this.emit()
+
+    try {
+      const ffmpeg = await this.load()
+      if (job.status !== "running") return
+
+      const result = await job.options.run({
+        ffmpeg,
+        setStep: (step, totalSteps) => {
+          job.step = step
+          job.totalSteps = totalSteps
+          this.updateProgress(job, step / totalSteps)
+        },
+        setProgress: (progress) => this.updateProgress(job, progress),
+      })
+
+      if (job.status === "running") {
+        job.progress = 1
+        this.settle(job, "done", null, result)
+      }
+    } catch (error) {
+      // A cancelled job rejects here too, once terminate() kills its exec
+      if (job.status === "running") {
+        console.error(`[v0] Job "${job.label}" failed:`, error)
+        this.settle(job, "failed", error)
+      }
+    } finally {
+      this.running = null
+      this.emit()
+      this.pump()
+    }
+  }
+
+  private settle(job: Job, status: JobStatus, error: unknown, result?: unknown) {
+    job.status = status
+    job.eta = null
+    if (status !== "done") {
+      job.error = error instanceof Error ? error.message : String(error)
+    }
+    // Nobody can see or retry background jobs, so they don't need to stay in the list
+    if (job.background) {
+      this.jobs = this.jobs.filter((candidate) => candidate !== job)
+    }
+    this.emit()
+
+    if (status === "done") {
+      job.resolve(result)
+      job.options.onSuccess?.(result)
+    } else {
+      job.reject(error)
+      job.options.onError?.(error)
+    }
+  }
+
+  private handleProgress(progress: number) {
+    const job = this.running
+    if (!job) return
+    const clamped = Math.min(1, Math.max(0, progress))
+    this.updateProgress(job, (job.step + clamped) / job.totalSteps)
+  }
+
+  private updateProgress(job: Job, progress: number) {
+    job.progress = Math.min(1, Math.max(job.progress, progress))
+    if (job.startedAt !== null && job.progress >= MIN_PROGRESS_FOR_ETA) {
+      const elapsed = (performance.now() - job.startedAt) / 1000
+      job.eta = (elapsed / job.progress) * (1 - job.progress)
+    }
+    this.emit()
+  }
+
+  private async mountInput(ffmpeg: FFmpeg, name: string, file: File) {
+    if (this.mounted.has(name)) return
+    this.mounted.add(name)
+
+    const mountPoint = `${INPUT_ROOT}/${name}`
+    await ffmpeg.createDir(mountPoint).catch(() => {})
+    try {
+      // WORKERFS names the file after the blob entry, not the File's own name
+      await ffmpeg.mount(FFFSType.WORKERFS, { blobs: [{ name, data: file }] }, mountPoint)
+    } catch (error) {
+      this.mounted.delete(name)
+      throw error
+    }
+  }
+
+  private setCoreStatus(status: CoreStatus) {
+    this.coreStatus = status
+    this.emit()
+  }
+
+  private emit() {
+    this.state = {
+      coreStatus: this.coreStatus,
+      jobs: this.jobs.map(({ id, label, status, progress, eta, error, background }) => ({
+        id,
+        label,
+        status,
+        progress,
+        eta,
+        error,
+        background,
+      })),
+    }
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+let sharedQueue: FFmpegQueue | null = null
+
+export function getFFmpegQueue(): FFmpegQueue {
+  if (!sharedQueue) {
+    sharedQueue = new FFmpegQueue()
+  }
+  return sharedQueue
+}
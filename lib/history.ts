@@ -0,0 +1,75 @@
+// Linear undo/redo history of editor states. Every entry is a full snapshot, which is
+// cheap for a cut list and makes jumping to any point in the list trivial.
+// Gestures such as drags update a draft and land in the history as one entry.
+
+export type HistoryEntry<T> = {
+  label: string
+  state: T
+  time: number
+}
+
+export type History<T> = {
+  entries: HistoryEntry<T>[]
+  index: number // entries[index] is the current state
+}
+
+export type HistoryState<T> = {
+  history: History<T>
+  draft: T | null // uncommitted gesture, shown instead of the current entry
+}
+
+export type HistoryAction<T> =
+  | { type: "edit"; label: string; update: (state: T) => T }
+  | { type: "preview"; update: (state: T) => T }
+  | { type: "commit"; label: string }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "jump"; index: number }
+  | { type: "reset"; history: History<T> }
+
+// Oldest entries are dropped beyond this
+export const MAX_HISTORY_ENTRIES = 100
+
+export function createHistory<T>(state: T, label: string): History<T> {
+  return { entries: [{ label, state, time: Date.now() }], index: 0 }
+}
+
+export const getCurrentState = <T>({ history, draft }: HistoryState<T>): T =>
+  draft ?? history.entries[history.index].state
+
+const isSameState = <T>(a: T, b: T) => a === b || JSON.stringify(a) === JSON.stringify(b)
+
+// Adds a state after the current entry, discarding anything that was undone
+function pushEntry<T>(history: History<T>, state: T, label: string): History<T> {
+  if (isSameState(state, history.entries[history.index].state)) {
+    return history
+  }
+
+  const entries = [...history.entries.slice(0, history.index + 1), { label, state, time: Date.now() }]
+  const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES)
+  return { entries: entries.slice(overflow), index: entries.length - 1 - overflow }
+}
+
+export function historyReducer<T>(current: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  const { history, draft } = current
+
+  switch (action.type) {
+    case "edit":
+      return { history: pushEntry(history, action.update(getCurrentState(current)), action.label), draft: null }
+    case "preview":
+      return { history, draft: action.update(getCurrentState(current)) }
+    case "commit":
+      return draft === null ? current : { history: pushEntry(history, draft, action.label), draft: null }
+    case "undo":
+      return { history: { ...history, index: Math.max(0, history.index - 1) }, draft: null }
+    case "redo":
+      return { history: { ...history, index: Math.min(history.entries.length - 1, history.index + 1) }, draft: null }
+    case "jump":
+      return {
+        history: { ...history, index: Math.max(0, Math.min(history.entries.length - 1, action.index)) },
+        draft: null,
+      }
+    case "reset":
+      return { history: action.history, draft: null }
+  }
+}
@@ -0,0 +1,65 @@
+// Minimal promise wrapper around IndexedDB for the app's local storage
+
+const DB_NAME = "trimflow"
+const DB_VERSION = 2
+
+export const STORES = {
+  media: "media-cache",
+  projects: "projects",
+} as const
+
+export type StoreName = (typeof STORES)[keyof typeof STORES]
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        for (const store of Object.values(STORES)) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store)
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return databasePromise
+}
+
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(store, mode).objectStore(store))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function idbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  return withStore(store, "readonly", (objectStore) => objectStore.get(key))
+}
+
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return withStore(store, "readonly", (objectStore) => objectStore.getAll())
+}
+
+export async function idbPut<T>(store: StoreName, key: string, value: T): Promise<void> {
+  await withStore(store, "readwrite", (objectStore) => objectStore.put(value, key))
+}
+
+export async function idbDelete(store: StoreName, key: string): Promise<void> {
+  await withStore(store, "readwrite", (objectStore) => objectStore.delete(key))
+}
@@ -0,0 +1,127 @@
+// Remappable keyboard shortcuts for the trimmer. A combo is a string such as
+// "Shift+ArrowLeft" or "Mod+Enter", where Mod is Ctrl (or Cmd on macOS).
+
+export type EditorAction =
+  | "togglePlay"
+  | "shuttleReverse"
+  | "shuttleStop"
+  | "shuttleForward"
+  | "stepBack"
+  | "stepForward"
+  | "stepBackSecond"
+  | "stepForwardSecond"
+  | "setIn"
+  | "setOut"
+  | "jumpToIn"
+  | "jumpToOut"
+  | "trim"
+  | "download"
+  | "undo"
+  | "redo"
+  | "toggleSnapping"
+  | "showHelp"
+
+export type KeyBindings = Record<EditorAction, string[]>
+
+export const ACTION_LABELS: Record<EditorAction, string> = {
+  togglePlay: "Play / pause",
+  shuttleReverse: "Shuttle backward (press again to speed up)",
+  shuttleStop: "Stop shuttle",
+  shuttleForward: "Shuttle forward (press again to speed up)",
+  stepBack: "Previous frame",
+  stepForward: "Next frame",
+  stepBackSecond: "Back 1 second",
+  stepForwardSecond: "Forward 1 second",
+  setIn: "Set in point at playhead",
+  setOut: "Set out point at playhead",
+  jumpToIn: "Jump to in point",
+  jumpToOut: "Jump to out point",
+  trim: "Trim video",
+  download: "Download result",
+  undo: "Undo",
+  redo: "Redo",
+  toggleSnapping: "Toggle snapping",
+  showHelp: "Show keyboard shortcuts",
+}
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  togglePlay: ["Space"],
+  shuttleReverse: ["J"],
+  shuttleStop: ["K"],
+  shuttleForward: ["L"],
+  stepBack: ["ArrowLeft"],
+  stepForward: ["ArrowRight"],
+  stepBackSecond: ["Shift+ArrowLeft"],
+  stepForwardSecond: ["Shift+ArrowRight"],
+  setIn: ["I"],
+  setOut: ["O"],
+  jumpToIn: ["Shift+I"],
+  jumpToOut: ["Shift+O"],
+  trim: ["Mod+Enter"],
+  download: ["Mod+S"],
+  undo: ["Mod+Z"],
+  redo: ["Mod+Shift+Z", "Mod+Y"],
+  toggleSnapping: ["S"],
+  showHelp: ["?"],
+}
+
+const STORAGE_KEY = "trimflow.keybindings"
+
+const MODIFIER_KEYS = ["Control", "Shift", "Alt", "Meta"]
+
+// Returns null for bare modifier presses
+export function eventToCombo(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(e.key)) return null
+
+  const isLetter = /^[a-z]$/i.test(e.key)
+  const key = e.code === "Space" ? "Space" : e.key.length === 1 ? e.key.toUpperCase() : e.key
+  const parts: string[] = []
+
+  if (e.ctrlKey || e.metaKey) parts.push("Mod")
+  if (e.altKey) parts.push("Alt")
+  // Shift is already part of symbols like "?", so only letters and named keys record it
+  if (e.shiftKey && (isLetter || e.key.length > 1)) parts.push("Shift")
+  parts.push(key)
+
+  return parts.join("+")
+}
+
+export function findAction(bindings: KeyBindings, combo: string): EditorAction | undefined {
+  return (Object.keys(bindings) as EditorAction[]).find((action) => bindings[action].includes(combo))
+}
+
+// Assigns `combo` to `action`, taking it away from any other action that used it
+export function rebindAction(bindings: KeyBindings, action: EditorAction, combo: string): KeyBindings {
+  const next = { ...bindings }
+  for (const other of Object.keys(next) as EditorAction[]) {
+    next[other] = next[other].filter((existing) => existing !== combo)
+  }
+  next[action] = [combo]
+  return next
+}
+
+export function formatCombo(combo: string): string {
+  return combo
+    .split("+")
+    .map((part) =>
+      part === "Mod" ? "Ctrl/⌘" : part === "ArrowLeft" ? "←" : part === "ArrowRight" ? "→" : part,
+    )
+    .join(" + ")
+}
+
+export function loadKeyBindings(): KeyBindings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? { ...DEFAULT_KEY_BINDINGS, ...JSON.parse(stored) } : DEFAULT_KEY_BINDINGS
+  } catch {
+    return DEFAULT_KEY_BINDINGS
+  }
+}
+
+export function saveKeyBindings(bindings: KeyBindings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings))
+  } catch (error) {
+    console.warn("[v0] Could not save key bindings:", error)
+  }
+}
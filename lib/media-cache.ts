@@ -0,0 +1,22 @@
+import { STORES, idbGet, idbPut } from "@/lib/idb"
+
+// Identifies a file across page loads without hashing its contents
+export const getFileCacheKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`
+
+// Cache misses and storage errors (private mode, quota) both read as "not cached"
+export async function readCachedMedia<T>(file: File, kind: string): Promise<T | undefined> {
+  try {
+    return await idbGet<T>(STORES.media, `${kind}:${getFileCacheKey(file)}`)
+  } catch (error) {
+    console.warn(`[v0] Could not read cached ${kind}:`, error)
+    return undefined
+  }
+}
+
+export async function writeCachedMedia<T>(file: File, kind: string, value: T): Promise<void> {
+  try {
+    await idbPut(STORES.media, `${kind}:${getFileCacheKey(file)}`, value)
+  } catch (error) {
+    console.warn(`[v0] Could not cache ${kind}:`, error)
+  }
+}
@@ -0,0 +1,118 @@
+// Identifies media containers from their first bytes, so files are accepted for what
+// they are rather than for the MIME type the browser guessed from the file name.
+// Anything not recognised here can still be opened if FFmpeg manages to probe it.
+
+export type MediaKind = "video" | "audio"
+
+export type InputFormat =
+  | "mp4"
+  | "mov"
+  | "m4v"
+  | "3gp"
+  | "mkv"
+  | "webm"
+  | "avi"
+  | "ts"
+  | "mpg"
+  | "m4a"
+  | "mp3"
+  | "aac"
+  | "wav"
+  | "flac"
+  | "ogg"
+
+type InputFormatInfo = {
+  label: string
+  kind: MediaKind // what the container usually holds; the probe decides for a given file
+  extensions: string[]
+}
+
+export const INPUT_FORMATS: Record<InputFormat, InputFormatInfo> = {
+  mp4: { label: "MP4", kind: "video", extensions: ["mp4"] },
+  mov: { label: "MOV", kind: "video", extensions: ["mov", "qt"] },
+  m4v: { label: "M4V", kind: "video", extensions: ["m4v"] },
+  "3gp": { label: "3GP", kind: "video", extensions: ["3gp", "3g2"] },
+  mkv: { label: "MKV", kind: "video", extensions: ["mkv", "mka"] },
+  webm: { label: "WebM", kind: "video", extensions: ["webm"] },
+  avi: { label: "AVI", kind: "video", extensions: ["avi"] },
+  ts: { label: "MPEG-TS", kind: "video", extensions: ["ts", "mts", "m2ts"] },
+  mpg: { label: "MPEG-PS", kind: "video", extensions: ["mpg", "mpeg", "vob"] },
+  m4a: { label: "M4A", kind: "audio", extensions: ["m4a"] },
+  mp3: { label: "MP3", kind: "audio", extensions: ["mp3"] },
+  aac: { label: "AAC", kind: "audio", extensions: ["aac"] },
+  wav: { label: "WAV", kind: "audio", extensions: ["wav"] },
+  flac: { label: "FLAC", kind: "audio", extensions: ["flac"] },
+  ogg: { label: "Ogg", kind: "audio", extensions: ["ogg", "oga", "opus"] },
+}
+
+// For the file picker's accept attribute and the upload hint
+export const ACCEPTED_EXTENSIONS = Object.values(INPUT_FORMATS).flatMap(({ extensions }) =>
+  extensions.map((extension) => `.${extension}`),
+)
+
+// Covers every signature below, including a TS packet sync three packets in
+const SNIFF_LENGTH = 4096
+
+const TS_PACKET_SIZE = 188
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)))
+
+const includesAscii = (bytes: Uint8Array, text: string) => ascii(bytes, 0, bytes.length).includes(text)
+
+// ISO base media files announce their flavour in the ftyp major brand
+function formatFromBrand(brand: string): InputFormat {
+  if (brand === "qt  ") return "mov"
+  if (brand.startsWith("3g")) return "3gp"
+  if (brand === "M4V " || brand === "M4VH" || brand === "M4VP") return "m4v"
+  if (brand === "M4A " || brand === "M4B ") return "m4a"
+  return "mp4"
+}
+
+export function sniffFormat(bytes: Uint8Array): InputFormat | null {
+  if (bytes.length < 12) return null
+  const tag = ascii(bytes, 4, 4)
+
+  if (tag === "ftyp") return formatFromBrand(ascii(bytes, 8, 4))
+  // QuickTime files from older cameras start straight with an atom other than ftyp
+  if (["moov", "mdat", "wide", "free", "skip", "pnot"].includes(tag)) return "mov"
+
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    return includesAscii(bytes.subarray(0, 64), "webm") ? "webm" : "mkv"
+  }
+
+  if (ascii(bytes, 0, 4) === "RIFF") {
+    const form = ascii(bytes, 8, 4)
+    if (form === "AVI ") return "avi"
+    if (form === "WAVE") return "wav"
+    return null
+  }
+
+  if (bytes[0] === 0x00 && bytes[1] === 0x00 && bytes[2] === 0x01 && bytes[3] === 0xba) return "mpg"
+
+  // Transport streams repeat a 0x47 sync byte every packet; M2TS adds a 4-byte timestamp before each
+  for (const offset of [0, 4]) {
+    const packetSize = TS_PACKET_SIZE + offset
+    const synced = [0, 1, 2].every((packet) => bytes[offset + packet * packetSize] === 0x47)
+    if (bytes.length > offset + packetSize * 2 && synced) return "ts"
+  }
+
+  if (ascii(bytes, 0, 4) === "fLaC") return "flac"
+  if (ascii(bytes, 0, 4) === "OggS") return "ogg"
+  if (ascii(bytes, 0, 3) === "ID3") return "mp3"
+
+  if (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) return "aac" // ADTS header, layer bits zero
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return "mp3" // MPEG audio frame sync
+
+  return null
+}
+
+// Reads just the start of the file, so sniffing a multi-gigabyte video costs nothing
+export async function detectMediaFormat(file: Blob): Promise<InputFormat | null> {
+  const buffer = await file.slice(0, SNIFF_LENGTH).arrayBuffer()
+  return sniffFormat(new Uint8Array(buffer))
+}
+
+// Extension for the name FFmpeg sees, which also picks the muxer for trimmed intermediates.
+// Matroska holds nearly any stream, so it stands in for containers only FFmpeg recognised.
+export const getInputExtension = (format: InputFormat | null) => (format ? INPUT_FORMATS[format].extensions[0] : "mkv")
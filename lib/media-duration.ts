@@ -0,0 +1,26 @@
+export type MediaMetadata = {
+  duration: number
+  width: number // 0 for audio-only files, and for video tracks the browser can't decode
+  height: number
+}
+
+// Reads a media file's metadata with a detached <video> element
+export function readMediaMetadata(url: string): Promise<MediaMetadata> {
+  const video = document.createElement("video")
+  video.preload = "metadata"
+
+  return new Promise<MediaMetadata>((resolve, reject) => {
+    video.onloadedmetadata = () =>
+      resolve({ duration: video.duration, width: video.videoWidth, height: video.videoHeight })
+    video.onerror = () => reject(new Error("Failed to load video"))
+    video.src = url
+  }).finally(() => {
+    video.removeAttribute("src")
+    video.load()
+  })
+}
+
+export async function readMediaDuration(url: string): Promise<number> {
+  const { duration } = await readMediaMetadata(url)
+  return duration
+}
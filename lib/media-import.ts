@@ -0,0 +1,88 @@
+import { getInputPath, type FFmpegQueue } from "@/lib/ffmpeg-queue"
+import { INPUT_FORMATS, detectMediaFormat, getInputExtension, type InputFormat } from "@/lib/media-detect"
+import { readMediaMetadata } from "@/lib/media-duration"
+import { createPreviewProxy } from "@/lib/preview-proxy"
+import { probeMedia } from "@/lib/probe"
+
+// Decides whether a file can be edited and how to preview it. Files the browser
+// plays are used as-is; anything else is probed with FFmpeg, rejected if FFmpeg
+// can't read it either, and previewed through a transcoded proxy otherwise.
+
+export type ImportedMedia = {
+  format: InputFormat | null // null when only FFmpeg recognised the container
+  previewUrl: string
+  isProxy: boolean
+  hasVideo: boolean
+  duration: number
+}
+
+export type ImportOptions = {
+  // Reports the proxy transcode so the caller can show its progress or cancel it
+  onProxyJob?: (jobId: string) => void
+}
+
+export class UnsupportedMediaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "UnsupportedMediaError"
+  }
+}
+
+let importCounter = 0
+
+export async function importMedia(
+  file: File,
+  queue: FFmpegQueue,
+  { onProxyJob }: ImportOptions = {},
+): Promise<ImportedMedia> {
+  const format = await detectMediaFormat(file)
+  const url = URL.createObjectURL(file)
+  const metadata = await readMediaMetadata(url).catch(() => null)
+  const playable = metadata !== null && Number.isFinite(metadata.duration)
+
+  if (format && playable && (metadata.width > 0 || INPUT_FORMATS[format].kind === "audio")) {
+    return { format, previewUrl: url, isProxy: false, hasVideo: metadata.width > 0, duration: metadata.duration }
+  }
+
+  // A video container without a picture is either audio-only or holds a codec the browser lacks
+  importCounter += 1
+  const inputName = `import-${importCounter}.${getInputExtension(format)}`
+  try {
+    await queue.registerInput(inputName, file)
+    const probe = await queue.enqueue({
+      label: `Probe ${file.name}`,
+      background: true,
+      run: ({ ffmpeg }) => probeMedia(ffmpeg, getInputPath(inputName)),
+    }).result
+
+    if (!probe || (!probe.hasVideo && !probe.hasAudio)) {
+      throw new UnsupportedMediaError(`${file.name} is not a video or audio file that can be opened`)
+    }
+    if (playable && (metadata.width > 0 || !probe.hasVideo)) {
+      return { format, previewUrl: url, isProxy: false, hasVideo: probe.hasVideo, duration: metadata.duration }
+    }
+
+    URL.revokeObjectURL(url)
+    console.log(`[v0] ${file.name} (${probe.container}) can't be previewed natively, creating a proxy...`)
+    const job = queue.enqueue({
+      label: `Create preview of ${file.name}`,
+      run: ({ ffmpeg }) => createPreviewProxy(ffmpeg, getInputPath(inputName), probe.hasVideo),
+    })
+    onProxyJob?.(job.id)
+
+    const proxyUrl = URL.createObjectURL(await job.result)
+    const proxyMetadata = await readMediaMetadata(proxyUrl)
+    return {
+      format,
+      previewUrl: proxyUrl,
+      isProxy: true,
+      hasVideo: probe.hasVideo,
+      duration: proxyMetadata.duration,
+    }
+  } catch (error) {
+    URL.revokeObjectURL(url)
+    throw error
+  } finally {
+    await queue.releaseInput(inputName)
+  }
+}
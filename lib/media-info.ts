@@ -0,0 +1,238 @@
+// Typed metadata for a source file, read from what `ffmpeg -i` prints (ffmpeg.wasm has
+// no ffprobe). Keyframe positions come from a separate decode pass and are filled in later.
+
+type StreamBase = {
+  index: number
+  codec: string
+  profile: string | null
+  bitrate: number | null // bits per second
+  language: string | null
+  title: string | null
+  isDefault: boolean
+}
+
+export type VideoStreamDetails = StreamBase & {
+  type: "video"
+  pixelFormat: string | null
+  width: number
+  height: number
+  frameRate: number | null
+  rotation: number // degrees clockwise the player should turn the picture
+  isCoverArt: boolean // embedded artwork, stored as a one-frame video stream
+}
+
+export type AudioStreamDetails = StreamBase & {
+  type: "audio"
+  sampleRate: number | null
+  channels: number | null
+  channelLayout: string | null
+}
+
+export type OtherStreamDetails = StreamBase & {
+  type: "subtitle" | "data" | "attachment"
+}
+
+export type StreamDetails = VideoStreamDetails | AudioStreamDetails | OtherStreamDetails
+
+export type ChapterDetails = {
+  start: number
+  end: number
+  title: string | null
+}
+
+export type MediaInfo = {
+  container: string // FFmpeg demuxer name(s), e.g. "matroska,webm"
+  duration: number | null
+  startTime: number
+  bitrate: number | null
+  tags: Record<string, string>
+  streams: StreamDetails[]
+  chapters: ChapterDetails[]
+  // Seconds from the start of the file, like the timeline; null until analysed and for files without video
+  keyframes: number[] | null
+}
+
+const STREAM_TYPES: Record<string, StreamDetails["type"]> = {
+  Video: "video",
+  Audio: "audio",
+  Subtitle: "subtitle",
+  Data: "data",
+  Attachment: "attachment",
+}
+
+const CHANNEL_LAYOUTS: Record<string, number> = {
+  mono: 1,
+  stereo: 2,
+  "2.1": 3,
+  "3.0": 3,
+  quad: 4,
+  "4.0": 4,
+  "5.0": 5,
+  "5.1": 6,
+  "6.1": 7,
+  "7.1": 8,
+}
+
+// Splits "a (x, y), b, c" on the commas outside parentheses
+function splitFields(text: string): string[] {
+  const fields: string[] = []
+  let depth = 0
+  let current = ""
+  for (const char of text) {
+    if (char === "(" || char === "[") depth += 1
+    if (char === ")" || char === "]") depth -= 1
+    if (char === "," && depth === 0) {
+      fields.push(current.trim())
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  if (current.trim()) fields.push(current.trim())
+  return fields
+}
+
+const parseBitrate = (text: string) => {
+  const match = text.match(/(\d+) kb\/s/)
+  return match ? Number(match[1]) * 1000 : null
+}
+
+const parseClockDuration = (text: string) => {
+  const match = text.match(/(\d+):(\d+):([\d.]+)/)
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null
+}
+
+function parseStream(index: number, type: StreamDetails["type"], description: string, language: string | null) {
+  const fields = splitFields(description.replace(/\s*\((default|forced|attached pic|dub|original)\)/g, ""))
+  const [codecField = ""] = fields
+  const codec = codecField.split(" ")[0] || "unknown"
+  // "h264 (High) (avc1 / 0x31637661)": the first group without a codec tag is the profile
+  const profile = codecField.match(/\(([^()/]+)\)/)?.[1] ?? null
+  const base: StreamBase = {
+    index,
+    codec,
+    profile,
+    bitrate: parseBitrate(description),
+    language: language && language !== "und" ? language : null,
+    title: null,
+    isDefault: description.includes("(default)"),
+  }
+
+  if (type === "video") {
+    const isCoverArt = description.includes("(attached pic)")
+    const size = description.match(/, (\d+)x(\d+)/)
+    const fps = description.match(/([\d.]+)(k?) fps/) ?? description.match(/([\d.]+)(k?) tbr/)
+    const video: VideoStreamDetails = {
+      ...base,
+      type,
+      pixelFormat: fields[1] && !/\d+x\d+/.test(fields[1]) ? fields[1].split("(")[0] : null,
+      width: size ? Number(size[1]) : 0,
+      height: size ? Number(size[2]) : 0,
+      frameRate: fps && !isCoverArt ? Number.parseFloat(fps[1]) * (fps[2] ? 1000 : 1) : null,
+      rotation: 0,
+      isCoverArt,
+    }
+    return video
+  }
+
+  if (type === "audio") {
+    const sampleRate = description.match(/(\d+) Hz/)
+    const layoutField = fields.find((field, fieldIndex) => fieldIndex > 0 && fields[fieldIndex - 1].endsWith(" Hz"))
+    const layout = layoutField ?? null
+    const channelCount = layout?.match(/^(\d+) channels/)?.[1]
+    const audio: AudioStreamDetails = {
+      ...base,
+      type,
+      sampleRate: sampleRate ? Number(sampleRate[1]) : null,
+      channelLayout: layout,
+      channels: channelCount ? Number(channelCount) : layout ? CHANNEL_LAYOUTS[layout.split("(")[0]] ?? null : null,
+    }
+    return audio
+  }
+
+  const other: OtherStreamDetails = { ...base, type }
+  return other
+}
+
+// Returns null when FFmpeg couldn't open the input
+export function parseMediaInfo(logs: string[]): MediaInfo | null {
+  const info: MediaInfo = {
+    container: "",
+    duration: null,
+    startTime: 0,
+    bitrate: null,
+    tags: {},
+    streams: [],
+    chapters: [],
+    keyframes: null,
+  }
+  // Metadata and side data apply to the input, chapter or stream printed last
+  let section: MediaInfo | ChapterDetails | StreamDetails | null = null
+
+  for (const line of logs) {
+    const input = line.match(/Input #0, (.+?), from /)
+    if (input) {
+      info.container = input[1]
+      section = info
+      continue
+    }
+    if (!info.container) continue
+
+    const durationLine = line.match(/^\s*Duration: (\S+), start: (-?[\d.]+), bitrate: (.+)$/)
+    if (durationLine) {
+      info.duration = parseClockDuration(durationLine[1])
+      info.startTime = Number.parseFloat(durationLine[2])
+      info.bitrate = parseBitrate(durationLine[3])
+      continue
+    }
+
+    const chapter = line.match(/Chapter #\d+:\d+: start (-?[\d.]+), end (-?[\d.]+)/)
+    if (chapter) {
+      section = { start: Number.parseFloat(chapter[1]), end: Number.parseFloat(chapter[2]), title: null }
+      info.chapters.push(section)
+      continue
+    }
+
+    const stream = line.match(/Stream #0:(\d+)(?:\[\w+\])?(?:\((\w+)\))?: (\w+): (.*)$/)
+    if (stream) {
+      const type = STREAM_TYPES[stream[3]] ?? "data"
+      section = parseStream(Number(stream[1]), type, stream[4], stream[2] ?? null)
+      info.streams.push(section)
+      continue
+    }
+
+    const rotation = line.match(/displaymatrix: rotation of (-?[\d.]+) degrees/)
+    if (rotation && section && "rotation" in section) {
+      // The display matrix angle is counter-clockwise
+      section.rotation = ((-Math.round(Number.parseFloat(rotation[1])) % 360) + 360) % 360
+      continue
+    }
+
+    const tag = line.match(/^\s*(\w[\w-]*)\s*: (.*)$/)
+    if (tag && section) {
+      const [, key, value] = tag
+      if (key === "title" && "title" in section) {
+        section.title = value
+      } else if (key === "rotate" && "rotation" in section) {
+        section.rotation = ((Number(value) % 360) + 360) % 360
+      } else if (section === info) {
+        info.tags[key] = value
+      }
+    }
+  }
+
+  return info.container ? info : null
+}
+
+export const getPrimaryVideoStream = (info: MediaInfo | null) =>
+  info?.streams.find((stream): stream is VideoStreamDetails => stream.type === "video" && !stream.isCoverArt) ?? null
+
+export const getPrimaryAudioStream = (info: MediaInfo | null) =>
+  info?.streams.find((stream): stream is AudioStreamDetails => stream.type === "audio") ?? null
+
+export function formatBitrate(bitsPerSecond: number | null): string {
+  if (bitsPerSecond === null) return "Unknown"
+  return bitsPerSecond >= 1_000_000
+    ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mb/s`
+    : `${Math.round(bitsPerSecond / 1000)} kb/s`
+}
@@ -0,0 +1,64 @@
+// Small helpers around the Origin Private File System, where the app keeps files too
+// large for IndexedDB or memory: finished exports and copies of project sources.
+
+// Not in this TypeScript version's DOM typings yet
+type WritableFileHandle = FileSystemFileHandle & {
+  createWritable?: () => Promise<
+    WritableStream<BufferSource | Blob> & {
+      write: (data: BufferSource | Blob) => Promise<void>
+      close: () => Promise<void>
+    }
+  >
+}
+
+export const isOpfsAvailable = () =>
+  typeof navigator !== "undefined" && typeof navigator.storage?.getDirectory === "function"
+
+export async function getOpfsDirectory(name: string): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory()
+  return root.getDirectoryHandle(name, { create: true })
+}
+
+// Writes the data to directory/name and returns the disk-backed File. Blobs are streamed
+// across, so a multi-gigabyte source never has to be read into memory.
+export async function writeOpfsFile(directoryName: string, name: string, data: Blob | BufferSource): Promise<File> {
+  const directory = await getOpfsDirectory(directoryName)
+  const handle: WritableFileHandle = await directory.getFileHandle(name, { create: true })
+  if (!handle.createWritable) {
+    throw new Error("createWritable is not supported")
+  }
+
+  const writable = await handle.createWritable()
+  if (data instanceof Blob) {
+    // pipeTo closes the file when the stream ends
+    await data.stream().pipeTo(writable)
+  } else {
+    await writable.write(data)
+    await writable.close()
+  }
+
+  return handle.getFile()
+}
+
+export async function readOpfsFile(directoryName: string, name: string): Promise<File> {
+  const directory = await getOpfsDirectory(directoryName)
+  const handle = await directory.getFileHandle(name)
+  return handle.getFile()
+}
+
+// Removes one entry, or the whole directory when no name is given. Missing entries are ignored.
+export async function removeOpfsEntry(directoryName: string, name?: string) {
+  if (!isOpfsAvailable()) return
+
+  try {
+    if (name) {
+      const directory = await getOpfsDirectory(directoryName)
+      await directory.removeEntry(name)
+    } else {
+      const root = await navigator.storage.getDirectory()
+      await root.removeEntry(directoryName, { recursive: true })
+    }
+  } catch {
+    // Nothing stored yet
+  }
+}
@@ -0,0 +1,30 @@
+import { isOpfsAvailable, removeOpfsEntry, writeOpfsFile } from "@/lib/opfs"
+
+// Finished exports are written to the Origin Private File System, so the Blob behind
+// the preview and download is backed by disk rather than by a copy in memory.
+// Browsers without OPFS (or without createWritable) fall back to an in-memory Blob.
+
+const OUTPUT_DIRECTORY = "exports"
+
+let outputCounter = 0
+
+export async function storeOutput(data: Uint8Array, mimeType: string, extension: string): Promise<Blob> {
+  if (!isOpfsAvailable()) {
+    return new Blob([data], { type: mimeType })
+  }
+
+  try {
+    outputCounter += 1
+    const file = await writeOpfsFile(OUTPUT_DIRECTORY, `export-${Date.now()}-${outputCounter}.${extension}`, data)
+    // OPFS files carry no MIME type, which <video> and downloads rely on
+    return file.slice(0, file.size, mimeType)
+  } catch (error) {
+    console.warn("[v0] Could not write export to OPFS, keeping it in memory:", error)
+    return new Blob([data], { type: mimeType })
+  }
+}
+
+// Drops every stored export. Called when the user starts over with a new video.
+export async function clearStoredOutputs() {
+  await removeOpfsEntry(OUTPUT_DIRECTORY)
+}
@@ -0,0 +1,150 @@
+import { escapeFilterValue } from "@/lib/export-format"
+
+// Text boxes and an image watermark burned into the export. Positions and sizes are
+// fractions of the output frame and times are seconds of the output, so the same
+// settings work for the preview, any resolution and any speed change.
+
+export type OverlayFont = "sans" | "sans-light" | "mono" | "mono-bold"
+
+export type TextOverlay = {
+  id: string
+  text: string
+  font: OverlayFont
+  size: number // font size as a fraction of the frame height
+  color: string // #rrggbb
+  x: number // centre of the text, as fractions of the frame
+  y: number
+  start: number
+  end: number
+}
+
+export type WatermarkCorner = "top-left" | "top-right" | "bottom-left" | "bottom-right"
+
+export type Watermark = {
+  id: string // keeps the input name unique when the image is replaced
+  file: File
+  name: string
+  opacity: number // 0..1
+  width: number // as a fraction of the frame width
+  corner: WatermarkCorner
+}
+
+export type OverlaySettings = {
+  texts: TextOverlay[]
+  watermark: Watermark | null
+}
+
+// The fonts ship in public/fonts, so drawtext works without any network
+export const OVERLAY_FONTS: Record<OverlayFont, { label: string; file: string; family: string; weight: number }> = {
+  sans: { label: "Lato", file: "Lato-Regular.ttf", family: "Trimflow Lato", weight: 400 },
+  "sans-light": { label: "Lato Light", file: "Lato-Light.ttf", family: "Trimflow Lato", weight: 300 },
+  mono: { label: "Source Code Pro", file: "SourceCodePro-Regular.ttf", family: "Trimflow Source Code Pro", weight: 400 },
+  "mono-bold": {
+    label: "Source Code Pro Bold",
+    file: "SourceCodePro-Bold.ttf",
+    family: "Trimflow Source Code Pro",
+    weight: 700,
+  },
+}
+
+export const WATERMARK_CORNER_LABELS: Record<WatermarkCorner, string> = {
+  "top-left": "Top left",
+  "top-right": "Top right",
+  "bottom-left": "Bottom left",
+  "bottom-right": "Bottom right",
+}
+
+export const DEFAULT_OVERLAYS: OverlaySettings = { texts: [], watermark: null }
+
+export const TEXT_SIZE_RANGE = { min: 0.02, max: 0.2 }
+
+export const WATERMARK_WIDTH_RANGE = { min: 0.05, max: 0.5 }
+
+// Gap between the watermark and the frame edge, as a fraction of the frame width
+export const WATERMARK_MARGIN = 0.03
+
+let overlayCounter = 0
+
+const createOverlayId = (prefix: string) => {
+  overlayCounter += 1
+  return `${prefix}-${Date.now().toString(36)}-${overlayCounter}`
+}
+
+export function createTextOverlay(start: number, end: number): TextOverlay {
+  return {
+    id: createOverlayId("text"),
+    text: "Title",
+    font: "sans",
+    size: 0.08,
+    color: "#ffffff",
+    x: 0.5,
+    y: 0.5,
+    start,
+    end,
+  }
+}
+
+export function createWatermark(file: File): Watermark {
+  return {
+    id: createOverlayId("watermark"),
+    file,
+    name: file.name,
+    opacity: 0.8,
+    width: 0.15,
+    corner: "bottom-right",
+  }
+}
+
+export const hasOverlays = (settings: OverlaySettings) =>
+  settings.watermark !== null || settings.texts.some((overlay) => overlay.text.trim() !== "")
+
+export const isTextVisible = (overlay: TextOverlay, time: number) => time >= overlay.start && time < overlay.end
+
+// The fonts the text boxes need mounted for the export
+export const getUsedFonts = (settings: OverlaySettings): OverlayFont[] => [
+  ...new Set(settings.texts.filter((overlay) => overlay.text.trim() !== "").map((overlay) => overlay.font)),
+]
+
+const formatNumber = (value: number) => Number(value.toFixed(4)).toString()
+
+// drawtext filters for the text boxes, drawn on the reframed picture before any resize
+export function buildTextFilters(texts: TextOverlay[], fontPaths: Partial<Record<OverlayFont, string>>): string[] {
+  return texts.flatMap((overlay) => {
+    const fontPath = fontPaths[overlay.font]
+    if (overlay.text.trim() === "" || !fontPath) return []
+
+    return [
+      [
+        `drawtext=fontfile=${escapeFilterValue(fontPath)}`,
+        `text=${escapeFilterValue(overlay.text)}`,
+        "expansion=none",
+        `fontsize=h*${formatNumber(overlay.size)}`,
+        `fontcolor=0x${overlay.color.replace("#", "")}`,
+        `x=w*${formatNumber(overlay.x)}-text_w/2`,
+        `y=h*${formatNumber(overlay.y)}-text_h/2`,
+        `enable='between(t,${formatNumber(overlay.start)},${formatNumber(overlay.end)})'`,
+      ].join(":"),
+    ]
+  })
+}
+
+// Graph that lays the watermark image ([wm]) over the picture ([overlay_base]), ending in
+// [overlay_out]. The image is scaled against the picture, so it keeps its share of the width.
+export function buildWatermarkGraph(watermark: Watermark): string {
+  const margin = `W*${WATERMARK_MARGIN}`
+  const x = watermark.corner.endsWith("left") ? margin : `W-w-${margin}`
+  const y = watermark.corner.startsWith("top") ? margin : `H-h-${margin}`
+  return [
+    `[wm]format=rgba,colorchannelmixer=aa=${formatNumber(watermark.opacity)}[overlay_image]`,
+    `[overlay_image][overlay_base]scale2ref=w=main_w*${formatNumber(watermark.width)}:h=ow/dar[overlay_scaled][overlay_main]`,
+    `[overlay_main][overlay_scaled]overlay=x=${x}:y=${y}:shortest=1[overlay_out]`,
+  ].join(";")
+}
+
+export function describeOverlays(settings: OverlaySettings): string | null {
+  const count = settings.texts.filter((overlay) => overlay.text.trim() !== "").length
+  const parts: string[] = []
+  if (count > 0) parts.push(`${count} ${count === 1 ? "text" : "texts"}`)
+  if (settings.watermark) parts.push("watermark")
+  return parts.length > 0 ? parts.join(", ") : null
+}
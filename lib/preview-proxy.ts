@@ -0,0 +1,59 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+import { storeOutput } from "@/lib/output-storage"
+
+// A small H.264/AAC stand-in for sources the <video> element can't play, such as HEVC,
+// ProRes or MPEG-2. It is only used for preview; trims and exports still read the original.
+
+const PROXY_HEIGHT = 480
+
+export async function createPreviewProxy(ffmpeg: FFmpeg, inputFileName: string, hasVideo: boolean): Promise<Blob> {
+  const outputFileName = "proxy.mp4"
+  const videoArgs = hasVideo
+    ? [
+        "-map",
+        "0:v:0",
+        "-vf",
+        `scale=-2:${PROXY_HEIGHT}`,
+        "-c:v",
+        "libx264",
+        "-preset",
+        "ultrafast",
+        "-crf",
+        "30",
+        "-pix_fmt",
+        "yuv420p",
+      ]
+    : ["-vn"]
+
+  try {
+    const exitCode = await ffmpeg.exec([
+      "-i",
+      inputFileName,
+      ...videoArgs,
+      "-map",
+      "0:a:0?",
+      "-c:a",
+      "aac",
+      "-b:a",
+      "128k",
+      "-ac",
+      "2",
+      "-movflags",
+      "+faststart",
+      "-y",
+      outputFileName,
+    ])
+    if (exitCode !== 0) {
+      throw new Error(`Preview proxy failed (FFmpeg exited with code ${exitCode})`)
+    }
+
+    const data = await ffmpeg.readFile(outputFileName)
+    if (typeof data === "string") {
+      throw new Error("Unexpected text output from FFmpeg")
+    }
+    await ffmpeg.deleteFile(outputFileName).catch(() => {})
+    return await storeOutput(data, "video/mp4", "mp4")
+  } finally {
+    await ffmpeg.deleteFile(outputFileName).catch(() => {})
+  }
+}
@@ -0,0 +1,57 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+import { execWithLogs } from "@/lib/ffmpeg-log"
+import { getPrimaryAudioStream, getPrimaryVideoStream, parseMediaInfo, type MediaInfo } from "@/lib/media-info"
+
+export type MediaProbe = {
+  container: string // FFmpeg demuxer name(s), e.g. "matroska,webm"
+  duration: number | null
+  hasVideo: boolean
+  hasAudio: boolean
+}
+
+// Parses the stream dump of `ffmpeg -i`. FFmpeg exits non-zero because no output
+// is given, so only the logs matter here. Returns null when FFmpeg can't open the file.
+export async function probeMediaInfo(ffmpeg: FFmpeg, inputFileName: string): Promise<MediaInfo | null> {
+  const { logs } = await execWithLogs(ffmpeg, ["-hide_banner", "-i", inputFileName])
+  return parseMediaInfo(logs)
+}
+
+// Container and stream presence, which is how unknown or corrupt files are rejected
+export async function probeMedia(ffmpeg: FFmpeg, inputFileName: string): Promise<MediaProbe | null> {
+  const info = await probeMediaInfo(ffmpeg, inputFileName)
+  if (!info) return null
+
+  return {
+    container: info.container,
+    duration: info.duration,
+    hasVideo: getPrimaryVideoStream(info) !== null,
+    hasAudio: getPrimaryAudioStream(info) !== null,
+  }
+}
+
+// Lists keyframe timestamps (in seconds) of the first video stream by decoding keyframes only.
+// showinfo's pts_time is already counted from the start of the file, like the timeline:
+// FFmpeg subtracts the container's start time unless -copyts is given.
+export async function probeKeyframes(ffmpeg: FFmpeg, inputFileName: string): Promise<number[]> {
+  const { logs } = await execWithLogs(ffmpeg, [
+    "-hide_banner",
+    "-skip_frame",
+    "nokey",
+    "-i",
+    inputFileName,
+    "-map",
+    "0:v:0",
+    "-vf",
+    "showinfo",
+    "-f",
+    "null",
+    "-",
+  ])
+
+  return logs
+    .filter((line) => line.includes("Parsed_showinfo"))
+    .map((line) => line.match(/pts_time:\s*(-?[\d.]+)/)?.[1])
+    .filter((value): value is string => value !== undefined)
+    .map((value) => Number.parseFloat(value))
+    .sort((a, b) => a - b)
+}
@@ -0,0 +1,226 @@
+import type { CutSegment } from "@/lib/cut-list"
+import { withExportDefaults, type ExportSettings } from "@/lib/export-format"
+import type { TrimMode } from "@/lib/trim"
+import type { History } from "@/lib/history"
+import { DEFAULT_REFRAME, type ReframeSettings } from "@/lib/reframe"
+import { DEFAULT_AUDIO, type AudioSettings } from "@/lib/audio-settings"
+import { DEFAULT_SPEED, type SpeedSettings } from "@/lib/speed"
+import { DEFAULT_OVERLAYS, type OverlaySettings } from "@/lib/overlays"
+import { DEFAULT_SUBTITLES, type SubtitleSettings } from "@/lib/subtitles"
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from "@/lib/idb"
+import { getFileCacheKey } from "@/lib/media-cache"
+import { isOpfsAvailable, readOpfsFile, removeOpfsEntry, writeOpfsFile } from "@/lib/opfs"
+
+// A project is one source video plus everything the user did to it. Projects live in
+// IndexedDB; the source itself is kept as a file handle where the browser hands one
+// out (Chromium drag and drop), and otherwise as a copy in OPFS.
+
+export type ProjectSource =
+  | { kind: "handle"; handle: FileSystemFileHandle }
+  | { kind: "opfs"; name: string }
+
+export type ProjectEdits = {
+  segments: CutSegment[]
+  exportSettings: ExportSettings
+  trimMode: TrimMode
+  reframe: ReframeSettings
+  audio: AudioSettings
+  speed: SpeedSettings
+  overlays: OverlaySettings
+  subtitles: SubtitleSettings
+}
+
+export type Project = {
+  id: string
+  fileKey: string // getFileCacheKey of the source, to recognise the same file opened again
+  name: string
+  size: number
+  type: string
+  lastModified: number
+  createdAt: number
+  updatedAt: number
+  source: ProjectSource | null // null until the source has been stored
+  edits: ProjectEdits | null // null until the editor has loaded the video
+  history: History<ProjectEdits> | null
+  thumbnail: Blob | null
+}
+
+// Projects saved before a setting existed get its default when they are reopened
+export const withEditDefaults = (edits: ProjectEdits): ProjectEdits => ({
+  ...edits,
+  exportSettings: withExportDefaults(edits.exportSettings),
+  reframe: edits.reframe ?? DEFAULT_REFRAME,
+  audio: edits.audio ?? DEFAULT_AUDIO,
+  speed: edits.speed ?? DEFAULT_SPEED,
+  overlays: edits.overlays ?? DEFAULT_OVERLAYS,
+  subtitles: edits.subtitles ?? DEFAULT_SUBTITLES,
+})
+
+export const restoreHistory = (history: History<ProjectEdits>): History<ProjectEdits> => ({
+  ...history,
+  entries: history.entries.map((entry) => ({ ...entry, state: withEditDefaults(entry.state) })),
+})
+
+// Older projects are deleted (with their OPFS copies) beyond this many
+export const MAX_PROJECTS = 12
+
+const SOURCE_DIRECTORY = "project-sources"
+
+const POSTER_WIDTH = 320
+
+// Not in this TypeScript version's DOM typings yet
+type PermissionedHandle = FileSystemFileHandle & {
+  queryPermission?: (descriptor: { mode: "read" }) => Promise<PermissionState>
+  requestPermission?: (descriptor: { mode: "read" }) => Promise<PermissionState>
+}
+
+type HandleDataTransferItem = DataTransferItem & {
+  getAsFileSystemHandle?: () => Promise<FileSystemHandle | null>
+}
+
+// Must be called while the drop event is being dispatched; resolves to null outside Chromium
+export function getDroppedFileHandle(item: DataTransferItem): Promise<FileSystemFileHandle | null> {
+  const getHandle = (item as HandleDataTransferItem).getAsFileSystemHandle
+  if (item.kind !== "file" || !getHandle) {
+    return Promise.resolve(null)
+  }
+  return getHandle
+    .call(item)
+    .then((handle) => (handle?.kind === "file" ? (handle as FileSystemFileHandle) : null))
+    .catch(() => null)
+}
+
+export function createProject(file: File): Project {
+  const now = Date.now()
+  return {
+    id: `project-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    fileKey: getFileCacheKey(file),
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+    createdAt: now,
+    updatedAt: now,
+    source: null,
+    edits: null,
+    history: null,
+    thumbnail: null,
+  }
+}
+
+export async function listProjects(): Promise<Project[]> {
+  const projects = await idbGetAll<Project>(STORES.projects)
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function findProjectForFile(file: File): Promise<Project | undefined> {
+  const fileKey = getFileCacheKey(file)
+  return (await listProjects()).find((project) => project.fileKey === fileKey)
+}
+
+// Autosave, source storage and thumbnail capture all patch the same record, so
+// updates are applied one at a time to avoid overwriting each other
+let updateChain: Promise<unknown> = Promise.resolve()
+
+export function updateProject(project: Project, patch: Partial<Project> = {}): Promise<Project> {
+  const next = updateChain.then(async () => {
+    const stored = await idbGet<Project>(STORES.projects, project.id)
+    const updated = { ...(stored ?? project), ...patch, updatedAt: Date.now() }
+    await idbPut(STORES.projects, project.id, updated)
+    return updated
+  })
+  updateChain = next.catch(() => {})
+  return next
+}
+
+export async function deleteProject(project: Project) {
+  await idbDelete(STORES.projects, project.id)
+  if (project.source?.kind === "opfs") {
+    await removeOpfsEntry(SOURCE_DIRECTORY, project.source.name)
+  }
+}
+
+// Keeps the most recently used projects and deletes the rest
+export async function pruneProjects(keep = MAX_PROJECTS) {
+  const projects = await listProjects()
+  for (const project of projects.slice(keep)) {
+    await deleteProject(project)
+  }
+}
+
+// Remembers where to find the source again. Copying into OPFS streams the file,
+// so it takes a while for large videos but never loads it into memory.
+export async function storeProjectSource(
+  project: Project,
+  file: File,
+  handle: FileSystemFileHandle | null,
+): Promise<ProjectSource | null> {
+  if (handle) {
+    return { kind: "handle", handle }
+  }
+  if (!isOpfsAvailable()) {
+    return null
+  }
+
+  const name = `${project.id}.${file.name.split(".").pop() ?? "video"}`
+  try {
+    await writeOpfsFile(SOURCE_DIRECTORY, name, file)
+    return { kind: "opfs", name }
+  } catch (error) {
+    console.warn("[v0] Could not copy the source into OPFS:", error)
+    await removeOpfsEntry(SOURCE_DIRECTORY, name)
+    return null
+  }
+}
+
+// Gets the source file back. Handles may need the user to grant read access again,
+// so call this from a click handler.
+export async function openProjectSource(project: Project): Promise<File> {
+  const source = project.source
+  if (!source) {
+    throw new Error("The source video of this project was not saved. Open the file again to continue.")
+  }
+
+  let file: File
+  if (source.kind === "handle") {
+    const handle = source.handle as PermissionedHandle
+    let permission = (await handle.queryPermission?.({ mode: "read" })) ?? "granted"
+    if (permission !== "granted") {
+      permission = (await handle.requestPermission?.({ mode: "read" })) ?? "denied"
+    }
+    if (permission !== "granted") {
+      throw new Error("Permission to read the source video was denied.")
+    }
+    file = await handle.getFile()
+  } else {
+    file = await readOpfsFile(SOURCE_DIRECTORY, source.name)
+  }
+
+  // OPFS copies lose the original name, type and date, which the media cache keys on
+  return new File([file], project.name, { type: project.type, lastModified: project.lastModified })
+}
+
+// A small JPEG of the frame a second in (or halfway through short clips) for the recent projects list
+export function capturePoster(url: string): Promise<Blob | null> {
+  const video = document.createElement("video")
+  video.preload = "auto"
+  video.muted = true
+
+  return new Promise<Blob | null>((resolve) => {
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(1, video.duration / 2)
+    }
+    video.onseeked = () => {
+      const canvas = document.createElement("canvas")
+      canvas.width = POSTER_WIDTH
+      canvas.height = Math.round((POSTER_WIDTH * video.videoHeight) / Math.max(1, video.videoWidth))
+      canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height)
+      canvas.toBlob(resolve, "image/jpeg", 0.7)
+    }
+    video.onerror = () => resolve(null)
+    video.src = url
+  }).finally(() => {
+    video.removeAttribute("src")
+    video.load()
+  })
+}
@@ -0,0 +1,257 @@
+// Rotation, flips, cropping and aspect-ratio reframing, expressed in a way that both the
+// CSS preview and the FFmpeg filter chain can use. The crop rectangle is stored as
+// fractions of the rotated frame, so it doesn't depend on the source (or proxy) size.
+
+export type Rotation = 0 | 90 | 180 | 270
+
+export type AspectPreset = "free" | "16:9" | "9:16" | "1:1" | "4:5" | "4:3"
+
+// "crop" locks the crop box to the aspect ratio; "pad" letterboxes the cropped frame into it
+export type FitMode = "crop" | "pad"
+
+export type PadFill = "black" | "white" | "blur"
+
+export type CropRect = {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type ReframeSettings = {
+  rotation: Rotation // clockwise
+  flipH: boolean
+  flipV: boolean
+  crop: CropRect
+  aspect: AspectPreset
+  fit: FitMode
+  padFill: PadFill
+}
+
+export const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 }
+
+export const DEFAULT_REFRAME: ReframeSettings = {
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  crop: FULL_FRAME,
+  aspect: "free",
+  fit: "crop",
+  padFill: "black",
+}
+
+export const ASPECT_PRESETS: Record<AspectPreset, { label: string; ratio: number | null }> = {
+  free: { label: "Free", ratio: null },
+  "16:9": { label: "16:9 Landscape", ratio: 16 / 9 },
+  "9:16": { label: "9:16 Vertical", ratio: 9 / 16 },
+  "1:1": { label: "1:1 Square", ratio: 1 },
+  "4:5": { label: "4:5 Portrait", ratio: 4 / 5 },
+  "4:3": { label: "4:3 Classic", ratio: 4 / 3 },
+}
+
+export const PAD_FILL_LABELS: Record<PadFill, string> = {
+  black: "Black bars",
+  white: "White bars",
+  blur: "Blurred background",
+}
+
+// Smallest crop edge, as a fraction of the frame
+const MIN_CROP_SIZE = 0.05
+
+export const isFullFrame = (crop: CropRect) => crop.x <= 0 && crop.y <= 0 && crop.width >= 1 && crop.height >= 1
+
+export const isReframed = (settings: ReframeSettings) =>
+  settings.rotation !== 0 ||
+  settings.flipH ||
+  settings.flipV ||
+  !isFullFrame(settings.crop) ||
+  (settings.fit === "pad" && settings.aspect !== "free")
+
+// Frame size after rotation
+export function getRotatedSize(width: number, height: number, rotation: Rotation) {
+  return rotation % 180 === 0 ? { width, height } : { width: height, height: width }
+}
+
+type Size = { width: number; height: number }
+
+// Fits the rotated frame into a preview box. The video element keeps its own orientation,
+// so it is sized unrotated and turned with a CSS transform.
+export function getPreviewLayout(box: Size, frame: Size, rotation: Rotation) {
+  const rotated = getRotatedSize(frame.width, frame.height, rotation)
+  const scale = Math.min(box.width / rotated.width, box.height / rotated.height)
+  const width = rotated.width * scale
+  const height = rotated.height * scale
+  return {
+    frame: { left: (box.width - width) / 2, top: (box.height - height) / 2, width, height },
+    video: { width: frame.width * scale, height: frame.height * scale },
+  }
+}
+
+export const rotateClockwise = (rotation: Rotation): Rotation => ((rotation + 90) % 360) as Rotation
+
+function clampCrop(crop: CropRect): CropRect {
+  const width = Math.min(1, Math.max(MIN_CROP_SIZE, crop.width))
+  const height = Math.min(1, Math.max(MIN_CROP_SIZE, crop.height))
+  return {
+    x: Math.min(1 - width, Math.max(0, crop.x)),
+    y: Math.min(1 - height, Math.max(0, crop.y)),
+    width,
+    height,
+  }
+}
+
+// The largest centred crop of the given pixel aspect ratio inside a frame of `frameAspect`
+export function fitCropToAspect(ratio: number, frameAspect: number): CropRect {
+  // Width and height are fractions of the frame, so the target ratio has to be expressed relative to it
+  const relative = ratio / frameAspect
+  const width = relative >= 1 ? 1 : relative
+  const height = relative >= 1 ? 1 / relative : 1
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height }
+}
+
+// Moves the crop box, keeping it inside the frame
+export const moveCrop = (crop: CropRect, dx: number, dy: number): CropRect =>
+  clampCrop({ ...crop, x: crop.x + dx, y: crop.y + dy })
+
+export type CropHandle = "nw" | "ne" | "sw" | "se"
+
+// Drags one corner to (x, y) in frame fractions, keeping the opposite corner fixed.
+// `ratio` is the locked pixel aspect ratio, if any, and `frameAspect` the rotated frame's.
+export function resizeCrop(
+  crop: CropRect,
+  handle: CropHandle,
+  x: number,
+  y: number,
+  ratio: number | null,
+  frameAspect: number,
+): CropRect {
+  const anchorX = handle.includes("w") ? crop.x + crop.width : crop.x
+  const anchorY = handle.includes("n") ? crop.y + crop.height : crop.y
+  const limitX = handle.includes("w") ? anchorX : 1 - anchorX
+  const limitY = handle.includes("n") ? anchorY : 1 - anchorY
+  let width = Math.min(limitX, Math.max(MIN_CROP_SIZE, Math.abs(x - anchorX)))
+  let height = Math.min(limitY, Math.max(MIN_CROP_SIZE, Math.abs(y - anchorY)))
+
+  if (ratio !== null) {
+    const relative = ratio / frameAspect
+    // Follow whichever edge the pointer pulled further, then shrink to stay in bounds
+    if (width / height > relative) {
+      height = width / relative
+    } else {
+      width = height * relative
+    }
+    const scale = Math.min(1, limitX / width, limitY / height)
+    width *= scale
+    height *= scale
+  }
+
+  return {
+    x: handle.includes("w") ? anchorX - width : anchorX,
+    y: handle.includes("n") ? anchorY - height : anchorY,
+    width,
+    height,
+  }
+}
+
+// Applies an aspect preset to the current settings, re-centring the crop when it locks the ratio
+export function withAspect(settings: ReframeSettings, aspect: AspectPreset, frameAspect: number): ReframeSettings {
+  const ratio = ASPECT_PRESETS[aspect].ratio
+  return {
+    ...settings,
+    aspect,
+    crop: ratio !== null && settings.fit === "crop" ? fitCropToAspect(ratio, frameAspect) : settings.crop,
+  }
+}
+
+// Rotating swaps the frame's axes, so a crop drawn on the old orientation no longer applies
+export function withRotation(settings: ReframeSettings, rotation: Rotation, frameAspect: number): ReframeSettings {
+  const next = { ...settings, rotation, crop: FULL_FRAME }
+  const ratio = ASPECT_PRESETS[settings.aspect].ratio
+  return ratio !== null && settings.fit === "crop" ? { ...next, crop: fitCropToAspect(ratio, frameAspect) } : next
+}
+
+// Even dimensions, which 4:2:0 encoders require. Crops round down to stay inside the
+// frame; pads round up so they are never smaller than it.
+const evenDown = (expression: string) => `trunc((${expression})/2)*2`
+const evenUp = (expression: string) => `ceil((${expression})/2)*2`
+
+// Video filters for the finishing pass, in order: orientation, crop, then letterbox
+export function buildReframeFilters(settings: ReframeSettings): string[] {
+  const filters: string[] = []
+
+  if (settings.rotation === 90) filters.push("transpose=clock")
+  if (settings.rotation === 180) filters.push("hflip", "vflip")
+  if (settings.rotation === 270) filters.push("transpose=cclock")
+  if (settings.flipH) filters.push("hflip")
+  if (settings.flipV) filters.push("vflip")
+
+  const { crop } = settings
+  if (!isFullFrame(crop)) {
+    const width = evenDown(`iw*${crop.width.toFixed(4)}`)
+    const height = evenDown(`ih*${crop.height.toFixed(4)}`)
+    filters.push(`crop=w='${width}':h='${height}':x='iw*${crop.x.toFixed(4)}':y='ih*${crop.y.toFixed(4)}'`)
+  }
+
+  const ratio = ASPECT_PRESETS[settings.aspect].ratio
+  if (settings.fit === "pad" && ratio !== null) {
+    const r = ratio.toFixed(6)
+    const width = evenUp(`max(iw,ih*${r})`)
+    const height = evenUp(`max(ih,iw/${r})`)
+
+    if (settings.padFill === "blur") {
+      // The frame over a blurred copy of itself, scaled up to cover the padded size
+      filters.push(
+        [
+          "split[reframe_bg][reframe_fg]",
+          `[reframe_bg]scale=w='${width}':h='${height}':force_original_aspect_ratio=increase,crop=w='${evenDown(
+            `min(iw,ih*${r})`,
+          )}':h='${evenDown(`min(ih,iw/${r})`)}',boxblur=20:5[reframe_blur]`,
+          "[reframe_blur][reframe_fg]overlay=x=(W-w)/2:y=(H-h)/2",
+        ].join(";"),
+      )
+    } else {
+      filters.push(`pad=w='${width}':h='${height}':x=(ow-iw)/2:y=(oh-ih)/2:color=${settings.padFill}`)
+    }
+  }
+
+  return filters
+}
+
+// The exported frame as fractions of the rotated source frame: the crop box, widened or
+// heightened by the padding. With padding it can reach outside the source frame.
+export function getOutputFrame(settings: ReframeSettings, frameAspect: number): CropRect {
+  const { crop } = settings
+  const ratio = ASPECT_PRESETS[settings.aspect].ratio
+  if (settings.fit !== "pad" || ratio === null) return crop
+
+  const cropAspect = (crop.width / crop.height) * frameAspect
+  const width = cropAspect < ratio ? (crop.width * ratio) / cropAspect : crop.width
+  const height = cropAspect > ratio ? (crop.height * cropAspect) / ratio : crop.height
+  return {
+    x: crop.x - (width - crop.width) / 2,
+    y: crop.y - (height - crop.height) / 2,
+    width,
+    height,
+  }
+}
+
+// Pixel size of the exported picture before any resizing
+export function getOutputSize(settings: ReframeSettings, frame: Size): Size {
+  const rotated = getRotatedSize(frame.width, frame.height, settings.rotation)
+  const output = getOutputFrame(settings, rotated.width / rotated.height)
+  return { width: Math.round(rotated.width * output.width), height: Math.round(rotated.height * output.height) }
+}
+
+export function describeReframe(settings: ReframeSettings): string | null {
+  if (!isReframed(settings)) return null
+
+  const parts: string[] = []
+  if (settings.rotation !== 0) parts.push(`Rotated ${settings.rotation}°`)
+  if (settings.flipH) parts.push("Flipped horizontally")
+  if (settings.flipV) parts.push("Flipped vertically")
+  if (!isFullFrame(settings.crop)) parts.push("Cropped")
+  if (settings.aspect !== "free") {
+    parts.push(settings.fit === "pad" ? `${settings.aspect} with ${PAD_FILL_LABELS[settings.padFill].toLowerCase()}` : settings.aspect)
+  }
+  return parts.join(" · ")
+}
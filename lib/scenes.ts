@@ -0,0 +1,96 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+
+// Shot boundaries from FFmpeg's scene-change score. The file is analysed once, keeping
+// every frame that scores above a low floor; the sensitivity slider then only filters
+// that list, so moving it needs no second pass.
+
+export type SceneChange = {
+  time: number
+  score: number // 0..1, how different the frame is from the one before
+}
+
+// Frames scoring below this are never a cut, whatever the sensitivity
+const MIN_SCENE_SCORE = 0.05
+
+// Frames are compared at this width; finer detail only adds noise and decoding time
+const ANALYSIS_WIDTH = 160
+
+// A flash or a fade scores on several frames in a row; only the strongest within this many seconds is kept
+const MIN_SCENE_GAP = 0.5
+
+export const DEFAULT_SCENE_SENSITIVITY = 0.5
+
+// Sensitivity 0..1 onto a score threshold: 0 keeps only hard cuts, 1 also catches soft transitions
+export const getSceneThreshold = (sensitivity: number) => 0.6 - sensitivity * 0.5
+
+// metadata=print writes "frame:12 pts:6144 pts_time:0.4" followed by "lavfi.scene_score=0.31"
+export function parseSceneScores(text: string): SceneChange[] {
+  const changes: SceneChange[] = []
+  let time: number | null = null
+
+  for (const line of text.split(/\r?\n/)) {
+    const frame = /pts_time:(-?[\d.]+)/.exec(line)
+    if (frame) {
+      time = Number(frame[1])
+      continue
+    }
+    const score = /^lavfi\.scene_score=([\d.]+)/.exec(line.trim())
+    if (score && time !== null && Number.isFinite(time)) {
+      changes.push({ time: Math.max(0, time), score: Number(score[1]) })
+      time = null
+    }
+  }
+
+  return changes
+}
+
+// Scores every frame of the first video track against the one before it
+export async function detectSceneChanges(ffmpeg: FFmpeg, inputFileName: string): Promise<SceneChange[]> {
+  const scoresFileName = "scene-scores.txt"
+
+  try {
+    const exitCode = await ffmpeg.exec([
+      "-i",
+      inputFileName,
+      "-map",
+      "0:v:0",
+      "-vf",
+      [
+        `scale=${ANALYSIS_WIDTH}:-2`,
+        `select=gt(scene\\,${MIN_SCENE_SCORE})`,
+        `metadata=mode=print:key=lavfi.scene_score:file=${scoresFileName}`,
+      ].join(","),
+      "-f",
+      "null",
+      "-",
+    ])
+    if (exitCode !== 0) {
+      throw new Error(`Scene detection failed (FFmpeg exited with code ${exitCode})`)
+    }
+
+    // No file at all means no frame got past the floor
+    const data = await ffmpeg.readFile(scoresFileName, "utf8").catch(() => "")
+    return parseSceneScores(typeof data === "string" ? data : new TextDecoder().decode(data))
+  } finally {
+    await ffmpeg.deleteFile(scoresFileName).catch(() => {})
+  }
+}
+
+// Boundary times at the given sensitivity, in time order. Of changes closer together than
+// MIN_SCENE_GAP only the strongest is kept.
+export function getSceneBoundaries(changes: SceneChange[], sensitivity: number): number[] {
+  const threshold = getSceneThreshold(sensitivity)
+  const kept: SceneChange[] = []
+
+  for (const change of changes) {
+    if (change.score < threshold) continue
+    const previous = kept[kept.length - 1]
+    if (previous && change.time - previous.time < MIN_SCENE_GAP) {
+      if (change.score > previous.score) kept[kept.length - 1] = change
+    } else {
+      kept.push(change)
+    }
+  }
+
+  return kept.map((change) => change.time)
+}
@@ -0,0 +1,100 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+import { MIN_SEGMENT_LENGTH, createSegment, type CutSegment, type TimeRange } from "@/lib/cut-list"
+import { execWithLogs } from "@/lib/ffmpeg-log"
+
+// Dead-air removal: FFmpeg's silencedetect finds the quiet stretches of the first audio
+// track, the user reviews them, and the accepted ones become remove segments in the cut
+// list so the next export leaves them all out in a single render.
+
+export type SilenceSettings = {
+  thresholdDb: number // anything quieter counts as silence
+  minDuration: number // seconds of silence before a pause is worth cutting
+  padding: number // seconds of the pause kept on each side, so speech isn't clipped
+}
+
+export type SilentRange = {
+  id: string
+  start: number
+  end: number
+  accepted: boolean
+}
+
+export const DEFAULT_SILENCE: SilenceSettings = { thresholdDb: -35, minDuration: 0.7, padding: 0.15 }
+
+export const SILENCE_THRESHOLD_RANGE = { min: -60, max: -20, step: 1 }
+export const SILENCE_DURATION_RANGE = { min: 0.2, max: 3, step: 0.1 }
+export const SILENCE_PADDING_RANGE = { min: 0, max: 0.5, step: 0.05 }
+
+let silenceCounter = 0
+
+const createSilentRange = (start: number, end: number): SilentRange => {
+  silenceCounter += 1
+  return { id: `silence-${Date.now().toString(36)}-${silenceCounter}`, start, end, accepted: true }
+}
+
+// silencedetect logs "silence_start: 1.23" and later "silence_end: 2.5 | silence_duration: 1.27".
+// A silence still running at the end of the file has no end line.
+export function parseSilenceLog(logs: string[], duration: number): SilentRange[] {
+  const ranges: SilentRange[] = []
+  let start: number | null = null
+
+  for (const line of logs) {
+    const opened = /silence_start:\s*(-?[\d.]+)/.exec(line)
+    if (opened) {
+      start = Math.max(0, Number(opened[1]))
+      continue
+    }
+    const closed = /silence_end:\s*(-?[\d.]+)/.exec(line)
+    if (closed && start !== null) {
+      ranges.push(createSilentRange(start, Math.min(duration, Number(closed[1]))))
+      start = null
+    }
+  }
+  if (start !== null && duration - start > 0) {
+    ranges.push(createSilentRange(start, duration))
+  }
+
+  return ranges.filter((range) => Number.isFinite(range.start) && Number.isFinite(range.end) && range.end > range.start)
+}
+
+export async function detectSilence(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  { thresholdDb, minDuration }: SilenceSettings,
+  duration: number,
+): Promise<SilentRange[]> {
+  const { exitCode, logs } = await execWithLogs(ffmpeg, [
+    "-i",
+    inputFileName,
+    "-map",
+    "0:a:0",
+    "-af",
+    `silencedetect=noise=${thresholdDb}dB:d=${minDuration}`,
+    "-f",
+    "null",
+    "-",
+  ])
+  if (exitCode !== 0) {
+    throw new Error(`Silence detection failed (FFmpeg exited with code ${exitCode}). Does the file have audio?`)
+  }
+  return parseSilenceLog(logs, duration)
+}
+
+// The part of a silence that is cut: the padding stays on both sides, except at the
+// very start and end of the file where there is nothing to lead into
+export function getCutRange(range: TimeRange, padding: number, duration: number): TimeRange | null {
+  const start = range.start <= 0 ? 0 : range.start + padding
+  const end = range.end >= duration ? duration : range.end - padding
+  return end - start >= MIN_SEGMENT_LENGTH ? { start, end } : null
+}
+
+// The accepted silences, padded, as ranges to cut
+export function getAcceptedCuts(ranges: SilentRange[], padding: number, duration: number): TimeRange[] {
+  return ranges
+    .filter((range) => range.accepted)
+    .map((range) => getCutRange(range, padding, duration))
+    .filter((range): range is TimeRange => range !== null)
+}
+
+export const toRemoveSegments = (cuts: TimeRange[]): CutSegment[] =>
+  cuts.map((cut) => createSegment("remove", cut.start, cut.end))
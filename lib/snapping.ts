@@ -0,0 +1,83 @@
+import type { CutSegment, SegmentEdge } from "@/lib/cut-list"
+
+// Magnetic snapping for the in/out handles of the trim timeline
+
+export type SnapTargetKind = "keyframe" | "playhead" | "marker" | "scene"
+
+export type SnapTarget = {
+  time: number
+  kind: SnapTargetKind
+}
+
+// How close (in screen pixels) a handle has to come before it snaps
+export const SNAP_DISTANCE_PX = 10
+
+export const SNAP_TARGET_LABELS: Record<SnapTargetKind, string> = {
+  keyframe: "Keyframe",
+  playhead: "Playhead",
+  marker: "Marker",
+  scene: "Scene change",
+}
+
+// Index of the last value <= time in a sorted list, or -1
+export function findPreviousIndex(sorted: number[], time: number): number {
+  let low = 0
+  let high = sorted.length - 1
+  let result = -1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (sorted[middle] <= time) {
+      result = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  return result
+}
+
+function nearestTime(sorted: number[], time: number): number | null {
+  const index = findPreviousIndex(sorted, time)
+  const candidates = [sorted[index], sorted[index + 1]].filter((value) => value !== undefined)
+  if (candidates.length === 0) return null
+  return candidates.reduce((best, value) => (Math.abs(value - time) < Math.abs(best - time) ? value : best))
+}
+
+// Everything the dragged handle can snap to, except the handle itself
+export function getSnapTargets(
+  time: number,
+  { keyframes, scenes, playhead, segments, dragged }: {
+    keyframes: number[] | null
+    scenes: number[] | null
+    playhead: number
+    segments: CutSegment[]
+    dragged: { id: string; edge: SegmentEdge }
+  },
+): SnapTarget[] {
+  const targets: SnapTarget[] = [{ time: playhead, kind: "playhead" }]
+
+  for (const segment of segments) {
+    if (segment.id !== dragged.id || dragged.edge !== "start") targets.push({ time: segment.start, kind: "marker" })
+    if (segment.id !== dragged.id || dragged.edge !== "end") targets.push({ time: segment.end, kind: "marker" })
+  }
+
+  // Keyframes and scene changes can number in the thousands, so only the closest of each is a candidate
+  const keyframe = keyframes ? nearestTime(keyframes, time) : null
+  if (keyframe !== null) targets.push({ time: keyframe, kind: "keyframe" })
+  const scene = scenes ? nearestTime(scenes, time) : null
+  if (scene !== null) targets.push({ time: scene, kind: "scene" })
+
+  return targets
+}
+
+// The closest target within `tolerance` seconds, if any
+export function findSnapTarget(time: number, targets: SnapTarget[], tolerance: number): SnapTarget | null {
+  let best: SnapTarget | null = null
+  for (const target of targets) {
+    const distance = Math.abs(target.time - time)
+    if (distance <= tolerance && (!best || distance < Math.abs(best.time - time))) {
+      best = target
+    }
+  }
+  return best
+}
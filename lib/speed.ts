@@ -0,0 +1,179 @@
+import type { CutSegment, TimeRange } from "@/lib/cut-list"
+
+// Retiming for the export: a constant speed for the whole clip, per-segment speeds on
+// top of it, and playing the result backwards. The finishing pass cuts the trimmed file
+// into pieces of constant speed, retimes each (setpts for video, pitch-preserving atempo
+// for audio) and joins them again.
+
+export type SpeedSettings = {
+  rate: number // applies to the whole output, multiplied with each segment's own speed
+  reverse: boolean
+}
+
+// A stretch of the trimmed file, in its own time, that plays at one speed
+export type RetimePiece = {
+  start: number
+  end: number
+  speed: number
+}
+
+export const DEFAULT_SPEED: SpeedSettings = { rate: 1, reverse: false }
+
+export const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4]
+
+export const SPEED_PRESETS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4]
+
+export const formatSpeed = (speed: number) => `${speed}×`
+
+// The segment that decides the speed of a stretch: the last keep segment covering it
+const findSpeedSegment = (segments: CutSegment[], time: number) => {
+  for (let index = segments.length - 1; index >= 0; index--) {
+    const segment = segments[index]
+    if (segment.kind === "keep" && time >= segment.start && time <= segment.end) return segment
+  }
+  return undefined
+}
+
+// Splits the kept ranges wherever the segment speed changes, in the trimmed file's time
+export function getRetimePieces(ranges: TimeRange[], segments: CutSegment[], rate: number): RetimePiece[] {
+  const pieces: RetimePiece[] = []
+  let offset = 0
+
+  for (const range of ranges) {
+    const boundaries = [range.start, range.end]
+    for (const segment of segments) {
+      if (segment.kind !== "keep") continue
+      for (const time of [segment.start, segment.end]) {
+        if (time > range.start && time < range.end) boundaries.push(time)
+      }
+    }
+    boundaries.sort((a, b) => a - b)
+
+    for (let index = 1; index < boundaries.length; index++) {
+      const [start, end] = [boundaries[index - 1], boundaries[index]]
+      if (end - start <= 0) continue
+
+      const speed = (findSpeedSegment(segments, (start + end) / 2)?.speed ?? 1) * rate
+      const previous = pieces[pieces.length - 1]
+      const pieceStart = offset + (start - range.start)
+      const pieceEnd = offset + (end - range.start)
+      if (previous && previous.speed === speed && Math.abs(previous.end - pieceStart) < 1e-6) {
+        previous.end = pieceEnd
+      } else {
+        pieces.push({ start: pieceStart, end: pieceEnd, speed })
+      }
+    }
+    offset += range.end - range.start
+  }
+
+  return pieces
+}
+
+// The same pieces over the source the ranges come from, counted from `origin`, for a pass
+// that cuts the source itself. A piece that spans two ranges is split where they meet.
+export function getSourcePieces(pieces: RetimePiece[], ranges: TimeRange[], origin: number): RetimePiece[] {
+  const sourcePieces: RetimePiece[] = []
+  let offset = 0
+
+  for (const range of ranges) {
+    const length = range.end - range.start
+    for (const piece of pieces) {
+      const start = Math.max(piece.start, offset)
+      const end = Math.min(piece.end, offset + length)
+      if (end - start <= 1e-6) continue
+      const shift = range.start - offset - origin
+      sourcePieces.push({ start: start + shift, end: end + shift, speed: piece.speed })
+    }
+    offset += length
+  }
+
+  return sourcePieces
+}
+
+export const getRetimedDuration = (pieces: RetimePiece[]) =>
+  pieces.reduce((total, piece) => total + (piece.end - piece.start) / piece.speed, 0)
+
+// Where a moment of the trimmed file ends up in the retimed output
+export function getRetimedTime(pieces: RetimePiece[], reverse: boolean, time: number): number {
+  let output = 0
+  for (const piece of pieces) {
+    if (time < piece.end) {
+      output += Math.max(0, time - piece.start) / piece.speed
+      break
+    }
+    output += (piece.end - piece.start) / piece.speed
+  }
+  return reverse ? getRetimedDuration(pieces) - output : output
+}
+
+export const isRetimed = (pieces: RetimePiece[], reverse: boolean) =>
+  reverse || pieces.some((piece) => piece.speed !== 1)
+
+// atempo only takes 0.5–2 per instance in older FFmpeg builds, so bigger changes are chained
+export function getAtempoFilters(speed: number): string[] {
+  const filters: string[] = []
+  let remaining = speed
+  while (remaining > 2) {
+    filters.push("atempo=2")
+    remaining /= 2
+  }
+  while (remaining < 0.5) {
+    filters.push("atempo=0.5")
+    remaining /= 0.5
+  }
+  if (Math.abs(remaining - 1) > 1e-6) {
+    filters.push(`atempo=${Number(remaining.toFixed(6))}`)
+  }
+  return filters
+}
+
+const formatTime = (seconds: number) => Number(seconds.toFixed(6)).toString()
+
+// Filter graph from [0:v] and [0:a] to the retimed [rv] and [ra]
+export function buildRetimeGraph(
+  pieces: RetimePiece[],
+  reverse: boolean,
+  { video, audio }: { video: boolean; audio: boolean },
+): string {
+  const chains: string[] = []
+  const count = pieces.length
+  const labels = pieces.map((_, index) => `${video ? `[rv${index}]` : ""}${audio ? `[ra${index}]` : ""}`)
+
+  if (video) {
+    const outputs = pieces.map((_, index) => `[v${index}]`).join("")
+    chains.push(`[0:v]setpts=PTS-STARTPTS${count > 1 ? `,split=${count}${outputs}` : outputs}`)
+  }
+  if (audio) {
+    const outputs = pieces.map((_, index) => `[a${index}]`).join("")
+    chains.push(`[0:a]asetpts=PTS-STARTPTS${count > 1 ? `,asplit=${count}${outputs}` : outputs}`)
+  }
+
+  pieces.forEach((piece, index) => {
+    const range = `start=${formatTime(piece.start)}:end=${formatTime(piece.end)}`
+    if (video) {
+      const filters = [`trim=${range}`, "setpts=PTS-STARTPTS", ...(reverse ? ["reverse"] : [])]
+      if (piece.speed !== 1) filters.push(`setpts=PTS/${Number(piece.speed.toFixed(6))}`)
+      chains.push(`[v${index}]${filters.join(",")}[rv${index}]`)
+    }
+    if (audio) {
+      const filters = [`atrim=${range}`, "asetpts=PTS-STARTPTS", ...(reverse ? ["areverse"] : [])]
+      filters.push(...getAtempoFilters(piece.speed))
+      chains.push(`[a${index}]${filters.join(",")}[ra${index}]`)
+    }
+  })
+
+  // Played backwards, the last piece comes first
+  const order = reverse ? [...labels].reverse() : labels
+  const outputs = `${video ? "[rv]" : ""}${audio ? "[ra]" : ""}`
+  chains.push(`${order.join("")}concat=n=${count}:v=${video ? 1 : 0}:a=${audio ? 1 : 0}${outputs}`)
+
+  return chains.join(";")
+}
+
+export function describeSpeed(settings: SpeedSettings, pieces: RetimePiece[]): string | null {
+  const parts: string[] = []
+  if (settings.rate !== 1) parts.push(formatSpeed(settings.rate))
+  if (pieces.some((piece) => piece.speed !== settings.rate)) parts.push("per-segment speeds")
+  if (settings.reverse) parts.push("reversed")
+  return parts.length > 0 ? parts.join(", ") : null
+}
@@ -0,0 +1,229 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+import type { TimeRange } from "@/lib/cut-list"
+import { escapeFilterValue } from "@/lib/export-format"
+import { createZip } from "@/lib/zip"
+
+// Still images out of the source: a single frame at full resolution, a contact sheet
+// of evenly spaced frames with their timestamps, and every Nth frame as a ZIP. Frames
+// are decoded by FFmpeg from the source itself, never read back from the preview.
+
+export type StillFormat = "png" | "jpeg" | "webp"
+
+export type ContactSheetOptions = {
+  columns: number
+  rows: number
+  tileWidth: number
+  format: StillFormat
+}
+
+export type FrameSequenceOptions = {
+  every: number // keep one frame in this many
+  format: StillFormat
+}
+
+type StillFormatInfo = {
+  label: string
+  extension: string
+  mimeType: string
+  encoderArgs: string[]
+}
+
+export const STILL_FORMATS: Record<StillFormat, StillFormatInfo> = {
+  png: { label: "PNG", extension: "png", mimeType: "image/png", encoderArgs: [] },
+  jpeg: { label: "JPEG", extension: "jpg", mimeType: "image/jpeg", encoderArgs: ["-q:v", "2"] },
+  webp: {
+    label: "WebP",
+    extension: "webp",
+    mimeType: "image/webp",
+    encoderArgs: ["-c:v", "libwebp", "-quality", "90"],
+  },
+}
+
+export const DEFAULT_CONTACT_SHEET: ContactSheetOptions = { columns: 4, rows: 4, tileWidth: 320, format: "jpeg" }
+
+export const DEFAULT_FRAME_SEQUENCE: FrameSequenceOptions = { every: 10, format: "png" }
+
+export const CONTACT_SHEET_SIZES = [2, 3, 4, 5, 6, 8]
+
+export const CONTACT_SHEET_TILE_WIDTHS = [240, 320, 480, 640]
+
+export const FRAME_SEQUENCE_STEPS = [1, 2, 5, 10, 15, 25, 30, 60, 100]
+
+// Full-size frames are kept in memory until they are zipped, so long sequences are cut off
+export const MAX_SEQUENCE_FRAMES = 300
+
+const TILE_GAP = 6
+
+// How many frames a sequence over the range holds, before the cap
+export const getSequenceFrameCount = (range: TimeRange, frameRate: number, every: number) =>
+  Math.max(1, Math.ceil(((range.end - range.start) * frameRate) / every))
+
+async function readImage(ffmpeg: FFmpeg, fileName: string, mimeType: string): Promise<Blob> {
+  const data = await ffmpeg.readFile(fileName)
+  await ffmpeg.deleteFile(fileName).catch(() => {})
+  if (typeof data === "string" || data.byteLength === 0) {
+    throw new Error("FFmpeg did not return an image")
+  }
+  return new Blob([data], { type: mimeType })
+}
+
+// The frame shown at `time`, at the source's own resolution
+export async function grabFrame(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  time: number,
+  format: StillFormat,
+): Promise<Blob> {
+  const info = STILL_FORMATS[format]
+  const outputFileName = `still.${info.extension}`
+
+  const exitCode = await ffmpeg.exec([
+    "-ss",
+    time.toFixed(3),
+    "-i",
+    inputFileName,
+    "-frames:v",
+    "1",
+    ...info.encoderArgs,
+    "-y",
+    outputFileName,
+  ])
+  if (exitCode !== 0) {
+    throw new Error(`Frame grab failed at ${time.toFixed(2)}s (FFmpeg exited with code ${exitCode})`)
+  }
+
+  return readImage(ffmpeg, outputFileName, info.mimeType)
+}
+
+type ContactSheetContext = {
+  fontPath: string // font for the timestamps
+  formatTime: (seconds: number) => string
+  onProgress?: (progress: number) => void
+}
+
+// A columns × rows grid of frames spread evenly over the range, each stamped with its
+// time. Every tile is its own input seek, like the timeline thumbnails.
+export async function createContactSheet(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  range: TimeRange,
+  { columns, rows, tileWidth, format }: ContactSheetOptions,
+  { fontPath, formatTime, onProgress }: ContactSheetContext,
+): Promise<Blob> {
+  const info = STILL_FORMATS[format]
+  const count = columns * rows
+  const tileNames = Array.from({ length: count }, (_, index) => `sheet-tile-${String(index).padStart(3, "0")}.png`)
+  const outputFileName = `contact-sheet.${info.extension}`
+
+  try {
+    for (let index = 0; index < count; index++) {
+      const time = range.start + ((index + 0.5) / count) * (range.end - range.start)
+      const stamp = [
+        `fontfile=${escapeFilterValue(fontPath)}`,
+        `text=${escapeFilterValue(formatTime(time))}`,
+        "expansion=none",
+        "fontsize=h*0.08",
+        "fontcolor=white",
+        "box=1",
+        "boxcolor=black@0.6",
+        "boxborderw=4",
+        "x=8",
+        "y=h-th-8",
+      ].join(":")
+      const exitCode = await ffmpeg.exec([
+        "-ss",
+        time.toFixed(3),
+        "-i",
+        inputFileName,
+        "-frames:v",
+        "1",
+        "-vf",
+        `scale=${tileWidth}:-2,drawtext=${stamp}`,
+        "-y",
+        tileNames[index],
+      ])
+      if (exitCode !== 0) {
+        throw new Error(`Contact sheet frame at ${time.toFixed(2)}s failed (FFmpeg exited with code ${exitCode})`)
+      }
+      onProgress?.((index + 1) / (count + 1))
+    }
+
+    const exitCode = await ffmpeg.exec([
+      "-framerate",
+      "1",
+      "-i",
+      "sheet-tile-%03d.png",
+      "-vf",
+      `tile=${columns}x${rows}:padding=${TILE_GAP}:margin=${TILE_GAP}:color=0x18181b`,
+      "-frames:v",
+      "1",
+      ...info.encoderArgs,
+      "-y",
+      outputFileName,
+    ])
+    if (exitCode !== 0) {
+      throw new Error(`Contact sheet assembly failed (FFmpeg exited with code ${exitCode})`)
+    }
+    onProgress?.(1)
+
+    return await readImage(ffmpeg, outputFileName, info.mimeType)
+  } finally {
+    for (const name of tileNames) {
+      await ffmpeg.deleteFile(name).catch(() => {})
+    }
+  }
+}
+
+// Every `every`th frame of the range at full resolution, zipped. Returns the archive and
+// how many frames it holds.
+export async function exportFrameSequence(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  range: TimeRange,
+  { every, format }: FrameSequenceOptions,
+): Promise<{ zip: Blob; frameCount: number }> {
+  const info = STILL_FORMATS[format]
+  const directory = "frame-sequence"
+  await ffmpeg.createDir(directory)
+
+  try {
+    const exitCode = await ffmpeg.exec([
+      "-ss",
+      range.start.toFixed(3),
+      "-i",
+      inputFileName,
+      "-t",
+      (range.end - range.start).toFixed(3),
+      ...(every > 1 ? ["-vf", `select=not(mod(n\\,${every}))`] : []),
+      "-fps_mode",
+      "vfr",
+      "-frames:v",
+      String(MAX_SEQUENCE_FRAMES),
+      ...info.encoderArgs,
+      "-y",
+      `${directory}/frame-%05d.${info.extension}`,
+    ])
+    if (exitCode !== 0) {
+      throw new Error(`Frame export failed (FFmpeg exited with code ${exitCode})`)
+    }
+
+    const names = (await ffmpeg.listDir(directory))
+      .filter((entry) => !entry.isDir)
+      .map((entry) => entry.name)
+      .sort()
+    if (names.length === 0) {
+      throw new Error("The range holds no frames to export")
+    }
+
+    const entries = []
+    for (const name of names) {
+      entries.push({ name, data: await readImage(ffmpeg, `${directory}/${name}`, info.mimeType) })
+    }
+    return { zip: await createZip(entries), frameCount: entries.length }
+  } finally {
+    for (const entry of await ffmpeg.listDir(directory).catch(() => [])) {
+      if (!entry.isDir) await ffmpeg.deleteFile(`${directory}/${entry.name}`).catch(() => {})
+    }
+    await ffmpeg.deleteDir(directory).catch(() => {})
+  }
+}
@@ -0,0 +1,337 @@
+import type { TimeRange } from "@/lib/cut-list"
+import { escapeFilterValue } from "@/lib/export-format"
+import { getRetimedTime, type RetimePiece } from "@/lib/speed"
+
+// Subtitle files loaded next to the video. Cues are kept in source time, like the cut
+// list, and are only shifted to the output when exporting: cut away parts disappear,
+// kept parts move up, and speed changes stretch them.
+
+export type SubtitleFormat = "srt" | "vtt" | "ass"
+
+// "soft" muxes a subtitle stream, "burn" draws the cues into the picture and "file"
+// hands over a retimed subtitle file next to the export
+export type SubtitleMode = "soft" | "burn" | "file"
+
+export type SubtitleCue = {
+  id: string
+  start: number
+  end: number
+  text: string // lines separated by \n; ASS override tags are kept as they are
+  assFields?: string[] // the other fields of an ASS Dialogue line, to write it back unchanged
+}
+
+export type SubtitleTrack = {
+  name: string
+  format: SubtitleFormat
+  cues: SubtitleCue[]
+  assHeader?: string // everything before the dialogue lines: script info, styles, the Format line
+}
+
+export type SubtitleSettings = {
+  track: SubtitleTrack | null
+  mode: SubtitleMode
+}
+
+export const DEFAULT_SUBTITLES: SubtitleSettings = { track: null, mode: "soft" }
+
+export const SUBTITLE_MODE_LABELS: Record<SubtitleMode, string> = {
+  soft: "Subtitle track",
+  burn: "Burned in",
+  file: "Separate file",
+}
+
+export const SUBTITLE_EXTENSIONS = [".srt", ".vtt", ".ass", ".ssa"]
+
+// Shortest cue the editor makes or keeps after shifting
+export const MIN_CUE_DURATION = 0.1
+
+// Burned-in SRT and VTT cues use the bundled sans font; ASS files bring their own styles
+export const BURN_FONT_NAME = "Lato"
+
+export class SubtitleFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SubtitleFileError"
+  }
+}
+
+let cueCounter = 0
+
+export const createCueId = () => {
+  cueCounter += 1
+  return `cue-${Date.now().toString(36)}-${cueCounter}`
+}
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000
+
+// 00:01:02,345 (SRT), 01:02.345 (VTT, hours optional) and 0:01:02.34 (ASS)
+function parseCueTime(text: string): number | null {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/.exec(text.trim())
+  if (!match) return null
+  const [hours, mins, secs] = [match[1] ?? "0", match[2], match[3]].map(Number)
+  const fraction = match[4] ? Number(`0.${match[4]}`) : 0
+  return round(hours * 3600 + mins * 60 + secs + fraction)
+}
+
+function parseTimingLine(line: string): { start: number; end: number } | null {
+  const match = /^\s*(\S+)\s+-->\s+(\S+)/.exec(line)
+  if (!match) return null
+  const start = parseCueTime(match[1])
+  const end = parseCueTime(match[2])
+  return start !== null && end !== null && end > start ? { start, end } : null
+}
+
+// SRT and VTT share the block layout: an optional identifier, the timing line, then text
+function parseBlocks(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = []
+  for (const block of text.split(/\n\s*\n/)) {
+    const lines = block.split("\n")
+    const timingIndex = lines.findIndex((line) => line.includes("-->"))
+    if (timingIndex === -1 || timingIndex > 1) continue
+
+    const timing = parseTimingLine(lines[timingIndex])
+    if (!timing) continue
+    cues.push({ id: createCueId(), ...timing, text: lines.slice(timingIndex + 1).join("\n").trim() })
+  }
+  return cues
+}
+
+// Splits a Dialogue line into its fields; the text is last and may itself hold commas
+function splitAssFields(line: string, count: number): string[] {
+  const fields: string[] = []
+  let rest = line
+  for (let index = 0; index < count - 1; index++) {
+    const comma = rest.indexOf(",")
+    if (comma === -1) break
+    fields.push(rest.slice(0, comma))
+    rest = rest.slice(comma + 1)
+  }
+  fields.push(rest)
+  return fields
+}
+
+function parseAss(text: string): { cues: SubtitleCue[]; assHeader: string } {
+  const lines = text.split("\n")
+  const eventsIndex = lines.findIndex((line) => line.trim().toLowerCase() === "[events]")
+  if (eventsIndex === -1) throw new SubtitleFileError("The ASS file has no [Events] section.")
+
+  const formatIndex = lines.findIndex((line, index) => index > eventsIndex && /^format:/i.test(line.trim()))
+  if (formatIndex === -1) throw new SubtitleFileError("The ASS file has no event Format line.")
+
+  const format = lines[formatIndex]
+    .slice(lines[formatIndex].indexOf(":") + 1)
+    .split(",")
+    .map((field) => field.trim().toLowerCase())
+  const startField = format.indexOf("start")
+  const endField = format.indexOf("end")
+  const textField = format.indexOf("text")
+  if (startField === -1 || endField === -1 || textField !== format.length - 1) {
+    throw new SubtitleFileError("The ASS event format is missing Start, End or Text.")
+  }
+
+  const cues: SubtitleCue[] = []
+  for (const line of lines.slice(formatIndex + 1)) {
+    const match = /^dialogue:\s*(.*)$/i.exec(line.trim())
+    if (!match) continue
+
+    const fields = splitAssFields(match[1], format.length)
+    const start = parseCueTime(fields[startField] ?? "")
+    const end = parseCueTime(fields[endField] ?? "")
+    if (start === null || end === null || end <= start) continue
+    cues.push({
+      id: createCueId(),
+      start,
+      end,
+      text: (fields[textField] ?? "").replace(/\\N/gi, "\n"),
+      assFields: fields,
+    })
+  }
+
+  return { cues, assHeader: lines.slice(0, formatIndex + 1).join("\n") }
+}
+
+const getSubtitleFormat = (fileName: string): SubtitleFormat | null => {
+  const extension = fileName.split(".").pop()?.toLowerCase()
+  if (extension === "srt" || extension === "vtt") return extension
+  if (extension === "ass" || extension === "ssa") return "ass"
+  return null
+}
+
+// Reads an SRT, WebVTT or ASS/SSA file. The content decides over the extension where it can.
+export function parseSubtitleFile(text: string, fileName: string): SubtitleTrack {
+  const normalized = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n")
+  const format = normalized.startsWith("WEBVTT")
+    ? "vtt"
+    : /^\s*\[script info\]/i.test(normalized)
+      ? "ass"
+      : getSubtitleFormat(fileName)
+  if (!format) {
+    throw new SubtitleFileError(`${fileName} is not an SRT, VTT or ASS file.`)
+  }
+
+  const parsed = format === "ass" ? parseAss(normalized) : { cues: parseBlocks(normalized), assHeader: undefined }
+  if (parsed.cues.length === 0) {
+    throw new SubtitleFileError(`${fileName} has no cues.`)
+  }
+
+  return {
+    name: fileName,
+    format,
+    cues: sortCues(parsed.cues),
+    assHeader: parsed.assHeader,
+  }
+}
+
+const sortCues = (cues: SubtitleCue[]) => [...cues].sort((a, b) => a.start - b.start)
+
+// Edits one cue, keeping it at least MIN_CUE_DURATION long and the list in time order
+export function updateCue(track: SubtitleTrack, id: string, patch: Partial<Omit<SubtitleCue, "id">>): SubtitleTrack {
+  return {
+    ...track,
+    cues: sortCues(
+      track.cues.map((cue) => {
+        if (cue.id !== id) return cue
+        const next = { ...cue, ...patch }
+        if (next.end - next.start >= MIN_CUE_DURATION) return next
+        // Whichever edge moved gives way
+        return patch.start !== undefined
+          ? { ...next, start: round(next.end - MIN_CUE_DURATION) }
+          : { ...next, end: round(next.start + MIN_CUE_DURATION) }
+      }),
+    ),
+  }
+}
+
+// A new cue at the playhead, ending before the next one where it can
+export function addCueAt(track: SubtitleTrack, time: number, duration: number): { track: SubtitleTrack; id: string } {
+  const next = track.cues.find((cue) => cue.start > time)
+  const end = Math.min(duration, time + 2, next && next.start - time >= MIN_CUE_DURATION ? next.start : Infinity)
+  const start = Math.max(0, Math.min(time, end - MIN_CUE_DURATION))
+  const cue: SubtitleCue = { id: createCueId(), start: round(start), end: round(end), text: "" }
+  return { track: { ...track, cues: sortCues([...track.cues, cue]) }, id: cue.id }
+}
+
+export const removeCue = (track: SubtitleTrack, id: string): SubtitleTrack => ({
+  ...track,
+  cues: track.cues.filter((cue) => cue.id !== id),
+})
+
+// Text as it appears on screen, without ASS override tags or VTT markup
+export const getCueDisplayText = (cue: SubtitleCue) =>
+  cue.text.replace(/\{\\[^}]*\}/g, "").replace(/<[^>]+>/g, "").replace(/\\h/g, " ")
+
+export const findCueAt = (cues: SubtitleCue[], time: number) =>
+  cues.find((cue) => time >= cue.start && time < cue.end)
+
+// Where the cues land in the export. A cue keeps the parts of it that survive the cut;
+// kept ranges are joined back to back, so those parts always form one stretch.
+export function retimeCues(
+  cues: SubtitleCue[],
+  ranges: TimeRange[],
+  pieces: RetimePiece[],
+  reverse: boolean,
+): SubtitleCue[] {
+  const shifted: SubtitleCue[] = []
+
+  for (const cue of cues) {
+    let offset = 0
+    let start: number | null = null
+    let end: number | null = null
+    for (const range of ranges) {
+      const overlapStart = Math.max(cue.start, range.start)
+      const overlapEnd = Math.min(cue.end, range.end)
+      if (overlapEnd > overlapStart) {
+        start ??= offset + overlapStart - range.start
+        end = offset + overlapEnd - range.start
+      }
+      offset += range.end - range.start
+    }
+    if (start === null || end === null) continue
+
+    const [outputStart, outputEnd] = [getRetimedTime(pieces, reverse, start), getRetimedTime(pieces, reverse, end)].sort(
+      (a, b) => a - b,
+    )
+    if (outputEnd - outputStart < MIN_CUE_DURATION) continue
+    shifted.push({ ...cue, start: round(outputStart), end: round(outputEnd) })
+  }
+
+  return shifted.sort((a, b) => a.start - b.start)
+}
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, "0")
+
+function formatCueTime(seconds: number, format: SubtitleFormat): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMs / 3_600_000)
+  const mins = pad(Math.floor((totalMs % 3_600_000) / 60_000))
+  const secs = pad(Math.floor((totalMs % 60_000) / 1000))
+  const ms = totalMs % 1000
+  if (format === "ass") return `${hours}:${mins}:${secs}.${pad(Math.floor(ms / 10))}`
+  return `${pad(hours)}:${mins}:${secs}${format === "srt" ? "," : "."}${pad(ms, 3)}`
+}
+
+const DEFAULT_ASS_HEADER = [
+  "[Script Info]",
+  "ScriptType: v4.00+",
+  "",
+  "[V4+ Styles]",
+  "Format: Name, Fontname, Fontsize, PrimaryColour, OutlineColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV",
+  `Style: Default,${BURN_FONT_NAME},20,&H00FFFFFF,&H00000000,&H80000000,0,0,1,2,1,2,10,10,20`,
+  "",
+  "[Events]",
+  "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+].join("\n")
+
+function formatAssDialogue(cue: SubtitleCue, header: string): string {
+  const formatLine = header.split("\n").pop() ?? ""
+  const format = formatLine
+    .slice(formatLine.indexOf(":") + 1)
+    .split(",")
+    .map((field) => field.trim().toLowerCase())
+  // Cues added in the editor take the default style
+  const fields = cue.assFields
+    ? [...cue.assFields]
+    : format.map((field) => (field === "style" ? "Default" : field === "layer" || field.startsWith("margin") ? "0" : ""))
+  fields[format.indexOf("start")] = formatCueTime(cue.start, "ass")
+  fields[format.indexOf("end")] = formatCueTime(cue.end, "ass")
+  fields[format.length - 1] = cue.text.replace(/\n/g, "\\N")
+  return `Dialogue: ${fields.join(",")}`
+}
+
+// Writes cues back in the track's own format
+export function formatSubtitleFile(track: SubtitleTrack, cues: SubtitleCue[]): string {
+  if (track.format === "ass") {
+    const header = track.assHeader ?? DEFAULT_ASS_HEADER
+    return `${[header, ...cues.map((cue) => formatAssDialogue(cue, header))].join("\n")}\n`
+  }
+
+  const blocks = cues.map((cue, index) => {
+    const timing = `${formatCueTime(cue.start, track.format)} --> ${formatCueTime(cue.end, track.format)}`
+    return track.format === "srt" ? `${index + 1}\n${timing}\n${cue.text}` : `${timing}\n${cue.text}`
+  })
+  return `${track.format === "vtt" ? "WEBVTT\n\n" : ""}${blocks.join("\n\n")}\n`
+}
+
+// The track as a file timed to the export
+export const buildSubtitleFile = (
+  track: SubtitleTrack,
+  ranges: TimeRange[],
+  pieces: RetimePiece[],
+  reverse: boolean,
+) => formatSubtitleFile(track, retimeCues(track.cues, ranges, pieces, reverse))
+
+// libass filter that draws the file into the picture. Without fontconfig it only knows the
+// fonts in `fontsDir`, so SRT and VTT cues are set in the bundled font.
+export function buildSubtitleBurnFilter(fileName: string, format: SubtitleFormat, fontsDir: string | null): string {
+  return [
+    `subtitles=filename=${escapeFilterValue(fileName)}`,
+    ...(fontsDir ? [`fontsdir=${escapeFilterValue(fontsDir)}`] : []),
+    ...(format !== "ass" ? [`force_style='FontName=${BURN_FONT_NAME}'`] : []),
+  ].join(":")
+}
+
+export function describeSubtitles(settings: SubtitleSettings): string | null {
+  const { track } = settings
+  if (!track) return null
+  return `${track.cues.length} ${track.cues.length === 1 ? "cue" : "cues"}, ${SUBTITLE_MODE_LABELS[settings.mode].toLowerCase()}`
+}
@@ -0,0 +1,116 @@
+// Time display for the editor: millisecond clock or SMPTE timecode
+
+export type TimeFormat = "clock" | "smpte"
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, "0")
+
+// h:mm:ss.mmm
+export function formatClock(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMs / 3_600_000)
+  const mins = Math.floor((totalMs % 3_600_000) / 60_000)
+  const secs = Math.floor((totalMs % 60_000) / 1000)
+  const ms = totalMs % 1000
+  return `${hours}:${pad(mins)}:${pad(secs)}.${pad(ms, 3)}`
+}
+
+// NTSC rates (29.97, 59.94) use drop-frame timecode so the clock stays in sync with real time
+const isDropFrameRate = (frameRate: number) => [29.97, 59.94].some((rate) => Math.abs(frameRate - rate) < 0.01)
+
+// hh:mm:ss:ff, or hh:mm:ss;ff for drop-frame
+export function formatSmpte(seconds: number, frameRate: number): string {
+  const nominalRate = Math.round(frameRate)
+  let frameNumber = Math.max(0, Math.floor(seconds * frameRate + 1e-6))
+
+  const dropFrame = isDropFrameRate(frameRate)
+  if (dropFrame) {
+    // Skip frame numbers 0 and 1 (2 and 3 at 59.94) every minute except every tenth minute
+    const dropped = nominalRate / 15
+    const framesPer10Minutes = Math.round(frameRate * 600)
+    const framesPerMinute = nominalRate * 60 - dropped
+    const tens = Math.floor(frameNumber / framesPer10Minutes)
+    const remainder = frameNumber % framesPer10Minutes
+    frameNumber +=
+      dropped * 9 * tens + (remainder > dropped ? dropped * Math.floor((remainder - dropped) / framesPerMinute) : 0)
+  }
+
+  const frames = frameNumber % nominalRate
+  const totalSeconds = Math.floor(frameNumber / nominalRate)
+  const hours = Math.floor(totalSeconds / 3600)
+  const mins = Math.floor((totalSeconds % 3600) / 60)
+  const secs = totalSeconds % 60
+
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}${dropFrame ? ";" : ":"}${pad(frames)}`
+}
+
+export function formatTimecode(seconds: number, format: TimeFormat, frameRate: number | null): string {
+  return format === "smpte" && frameRate ? formatSmpte(seconds, frameRate) : formatClock(seconds)
+}
+
+// Inverse of formatSmpte. Accepts ":" or ";" before the frames; ";" (or an NTSC rate) means drop-frame.
+export function parseSmpte(text: string, frameRate: number): number | null {
+  const match = /^(\d{1,2}):(\d{2}):(\d{2})([:;.])(\d{2,3})$/.exec(text.trim())
+  if (!match) return null
+
+  const [hours, mins, secs, frames] = [match[1], match[2], match[3], match[5]].map(Number)
+  const nominalRate = Math.round(frameRate)
+  let frameNumber = ((hours * 60 + mins) * 60 + secs) * nominalRate + frames
+
+  if (match[4] === ";" || isDropFrameRate(frameRate)) {
+    const totalMinutes = hours * 60 + mins
+    frameNumber -= (nominalRate / 15) * (totalMinutes - Math.floor(totalMinutes / 10))
+  }
+
+  return frameNumber / frameRate
+}
+
+// Reads "90", "1:30", "0:01:30.5" or "00:01:30.500" as seconds; null when it isn't a time
+export function parseTime(text: string): number | null {
+  const parts = text.trim().split(":")
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) return null
+
+  return parts.reduce((total, part) => total * 60 + Number.parseFloat(part), 0)
+}
+
+// Tick spacings the ruler may use, finest first
+const TICK_STEPS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600]
+
+export type RulerTick = {
+  time: number
+  major: boolean
+}
+
+// Picks a step that keeps labelled ticks at least `minLabelSpacing` pixels apart
+export function getRulerTicks(
+  viewStart: number,
+  viewEnd: number,
+  widthPx: number,
+  minLabelSpacing = 80,
+): { step: number; ticks: RulerTick[] } {
+  const span = viewEnd - viewStart
+  if (span <= 0 || widthPx <= 0) return { step: 1, ticks: [] }
+
+  const pxPerSecond = widthPx / span
+  const step = TICK_STEPS.find((candidate) => candidate * pxPerSecond >= minLabelSpacing) ?? TICK_STEPS[TICK_STEPS.length - 1]
+  const minorStep = step / 5
+  const ticks: RulerTick[] = []
+
+  const first = Math.ceil(viewStart / minorStep)
+  const last = Math.floor(viewEnd / minorStep)
+  for (let index = first; index <= last; index++) {
+    const time = index * minorStep
+    ticks.push({ time, major: index % 5 === 0 })
+  }
+
+  return { step, ticks }
+}
+
+// Compact ruler labels: only as much precision as the tick step needs
+export function formatRulerLabel(seconds: number, step: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const mins = Math.floor((seconds % 3600) / 60)
+  const secs = seconds % 60
+  const decimals = step >= 1 ? 0 : step >= 0.1 ? 1 : 2
+  const secText = decimals === 0 ? pad(Math.floor(secs + 1e-6)) : secs.toFixed(decimals).padStart(3 + decimals, "0")
+  return hours > 0 ? `${hours}:${pad(mins)}:${secText}` : `${mins}:${secText}`
+}
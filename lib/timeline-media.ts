@@ -0,0 +1,101 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+import { execWithLogs } from "@/lib/ffmpeg-log"
+
+export const THUMBNAIL_COUNT = 20
+export const WAVEFORM_BUCKETS = 1200
+
+const THUMBNAIL_HEIGHT = 72
+
+// Grabs evenly spaced frames, each from its own input seek so long files don't get decoded end to end
+export async function generateThumbnails(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  duration: number,
+  count = THUMBNAIL_COUNT,
+): Promise<Blob[]> {
+  const thumbnails: Blob[] = []
+  const thumbFileName = "thumb.jpg"
+
+  for (let index = 0; index < count; index++) {
+    const time = ((index + 0.5) / count) * duration
+    const exitCode = await ffmpeg.exec([
+      "-ss",
+      time.toFixed(3),
+      "-i",
+      inputFileName,
+      "-frames:v",
+      "1",
+      "-vf",
+      `scale=-2:${THUMBNAIL_HEIGHT}`,
+      "-q:v",
+      "5",
+      "-y",
+      thumbFileName,
+    ])
+    if (exitCode !== 0) {
+      throw new Error(`Thumbnail extraction failed at ${time.toFixed(2)}s`)
+    }
+
+    const data = await ffmpeg.readFile(thumbFileName)
+    thumbnails.push(new Blob([data], { type: "image/jpeg" }))
+  }
+
+  await ffmpeg.deleteFile(thumbFileName).catch(() => {})
+  return thumbnails
+}
+
+function computePeaks(pcm: ArrayBuffer, buckets: number): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./waveform.worker.ts", import.meta.url))
+    worker.onmessage = (event: MessageEvent<Float32Array>) => {
+      resolve(event.data)
+      worker.terminate()
+    }
+    worker.onerror = (event) => {
+      reject(new Error(event.message || "Waveform worker failed"))
+      worker.terminate()
+    }
+    worker.postMessage({ pcm, buckets }, [pcm])
+  })
+}
+
+// Decodes the first audio track to low-rate mono PCM inside FFmpeg, then reduces it to peaks in a worker.
+// Returns null for files without audio and throws when the decode fails.
+export async function generateWaveform(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  duration: number,
+  buckets = WAVEFORM_BUCKETS,
+): Promise<Float32Array | null> {
+  // Enough samples per bucket for a faithful peak, without decoding a 90 minute file at full rate
+  const sampleRate = Math.min(8000, Math.max(1000, Math.ceil((buckets * 50) / Math.max(duration, 1))))
+  const pcmFileName = "waveform.pcm"
+
+  const { exitCode, logs } = await execWithLogs(ffmpeg, [
+    "-i",
+    inputFileName,
+    "-map",
+    "0:a:0",
+    "-ac",
+    "1",
+    "-ar",
+    sampleRate.toString(),
+    "-f",
+    "s16le",
+    "-y",
+    pcmFileName,
+  ])
+  if (exitCode !== 0) {
+    // The map fails up front when there is no audio stream to pick
+    if (logs.some((line) => line.includes("matches no streams"))) return null
+    throw new Error(`Waveform extraction failed (FFmpeg exited with code ${exitCode})`)
+  }
+
+  const data = await ffmpeg.readFile(pcmFileName)
+  await ffmpeg.deleteFile(pcmFileName).catch(() => {})
+  if (typeof data === "string" || data.byteLength === 0) {
+    return null
+  }
+
+  return computePeaks(data.buffer as ArrayBuffer, buckets)
+}
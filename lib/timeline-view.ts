@@ -0,0 +1,45 @@
+// The visible window of the trim timeline, in source seconds
+
+export type TimelineView = {
+  start: number
+  end: number
+}
+
+// Closest zoom: this many seconds across the whole timeline width
+export const MIN_VIEW_SPAN = 0.5
+
+export const getFullView = (duration: number): TimelineView => ({ start: 0, end: duration })
+
+export const getViewSpan = (view: TimelineView) => view.end - view.start
+
+function clampView(start: number, span: number, duration: number): TimelineView {
+  const clampedSpan = Math.min(duration, Math.max(Math.min(MIN_VIEW_SPAN, duration), span))
+  const clampedStart = Math.max(0, Math.min(start, duration - clampedSpan))
+  return { start: clampedStart, end: clampedStart + clampedSpan }
+}
+
+// Zooms by `factor` (>1 zooms in) while keeping `anchor` at the same screen position
+export function zoomView(view: TimelineView, factor: number, anchor: number, duration: number): TimelineView {
+  const span = getViewSpan(view)
+  const nextSpan = span / factor
+  const anchorRatio = span > 0 ? (anchor - view.start) / span : 0
+  return clampView(anchor - anchorRatio * nextSpan, nextSpan, duration)
+}
+
+export function panView(view: TimelineView, deltaSeconds: number, duration: number): TimelineView {
+  return clampView(view.start + deltaSeconds, getViewSpan(view), duration)
+}
+
+// Pans the smallest amount that brings `time` into view
+export function revealTime(view: TimelineView, time: number, duration: number): TimelineView {
+  const span = getViewSpan(view)
+  if (time >= view.start && time <= view.end) return view
+  return clampView(time < view.start ? time : time - span, span, duration)
+}
+
+export const timeToViewPercent = (time: number, view: TimelineView) => {
+  const span = getViewSpan(view)
+  return span > 0 ? ((time - view.start) / span) * 100 : 0
+}
+
+export const ratioToViewTime = (ratio: number, view: TimelineView) => view.start + ratio * getViewSpan(view)
@@ -0,0 +1,449 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+import type { TimeRange } from "@/lib/cut-list"
+import { execWithLogs } from "@/lib/ffmpeg-log"
+import {
+  getPrimaryAudioStream,
+  getPrimaryVideoStream,
+  type MediaInfo,
+  type VideoStreamDetails,
+} from "@/lib/media-info"
+import { probeKeyframes, probeMediaInfo } from "@/lib/probe"
+
+// "fast" stream-copies and snaps to keyframes, "precise" cuts on the exact frame
+export type TrimMode = "fast" | "precise"
+
+// How the export was actually produced
+export type TrimMethod = "copy" | "smart" | "reencode"
+
+export const TRIM_MODE_OPTIONS: { value: TrimMode; label: string; hint: string }[] = [
+  { value: "fast", label: "Fast", hint: "Stream copy. Cuts snap to the nearest keyframe." },
+  { value: "precise", label: "Precise", hint: "Frame-accurate. Re-encodes only around the cut points." },
+]
+
+export const TRIM_METHOD_LABELS: Record<TrimMethod, string> = {
+  copy: "Stream copy",
+  smart: "Smart render",
+  reencode: "Full re-encode",
+}
+
+export type TrimResult = {
+  method: TrimMethod
+  reason: string
+}
+
+// Called before each FFmpeg pass so callers can scale per-pass progress
+export type TrimStepCallback = (step: number, totalSteps: number) => void
+
+export type TrimOptions = {
+  mode?: TrimMode
+  onStep?: TrimStepCallback
+  // An earlier analysis of the input, which saves probing codec and keyframes again
+  mediaInfo?: MediaInfo | null
+}
+
+// A piece of the output: either copied packet-for-packet or re-encoded
+type TrimPiece = TimeRange & { encode: boolean }
+
+// The source streams a smart render reads, by their index in the input
+type SmartRenderStreams = {
+  videoIndex: number
+  videoArgs: string[]
+  pieceExtension: string
+  audioIndex: number | null
+}
+
+// Encoders for the codecs that can be smart-rendered
+const SMART_RENDER_ENCODERS: Record<string, string[]> = {
+  h264: ["-c:v", "libx264", "-preset", "veryfast", "-crf", "18"],
+  hevc: ["-c:v", "libx265", "-preset", "veryfast", "-crf", "20"],
+  vp9: ["-c:v", "libvpx-vp9", "-crf", "24", "-b:v", "0", "-deadline", "realtime"],
+  vp8: ["-c:v", "libvpx", "-crf", "10", "-b:v", "2M"],
+}
+
+// Encoder profile names for the profiles FFmpeg prints in the stream dump. VP8 and VP9
+// have none to match: the profile follows from the pixel format.
+const SMART_RENDER_PROFILES: Record<string, Record<string, string> | null> = {
+  h264: {
+    "Constrained Baseline": "baseline",
+    Baseline: "baseline",
+    Main: "main",
+    High: "high",
+    "High 10": "high10",
+    "High 4:2:2": "high422",
+    "High 4:4:4 Predictive": "high444",
+  },
+  hevc: { Main: "main", "Main 10": "main10" },
+  vp9: null,
+  vp8: null,
+}
+
+// The pieces are joined from MPEG-TS for H.264 and HEVC: every piece carries its own parameter
+// sets in-band and they share the 90 kHz timebase, so the decoder switches cleanly from the
+// re-encoded head to the copied packets. VP8 and VP9 frames describe themselves, so WebM will do.
+const SMART_RENDER_PIECE_EXTENSIONS: Record<string, string> = { h264: "ts", hevc: "ts", vp9: "webm", vp8: "webm" }
+
+// How far the joined output may be off the planned length before it counts as broken
+const SMART_RENDER_DURATION_TOLERANCE = 0.5
+
+// Cut points closer than this to a keyframe are treated as on the keyframe
+export const KEYFRAME_TOLERANCE = 0.02
+
+const getExtension = (fileName: string) => fileName.split(".").pop() || "mp4"
+
+async function execOrThrow(ffmpeg: FFmpeg, args: string[]) {
+  const exitCode = await ffmpeg.exec(args)
+  if (exitCode !== 0) {
+    throw new Error(`FFmpeg exited with code ${exitCode}`)
+  }
+}
+
+export const copyRangeArgs = (
+  range: TimeRange,
+  inputFileName: string,
+  outputFileName: string,
+  streamArgs: string[] = [],
+) => [
+  "-ss",
+  range.start.toString(),
+  "-to",
+  range.end.toString(),
+  "-i",
+  inputFileName,
+  ...streamArgs,
+  "-c",
+  "copy",
+  "-avoid_negative_ts",
+  "make_zero",
+  outputFileName,
+]
+
+// Seeking on the input decodes from the previous keyframe, so the first frame is exact
+export const encodeRangeArgs = (
+  range: TimeRange,
+  inputFileName: string,
+  outputFileName: string,
+  videoArgs: string[],
+  audioArgs: string[],
+) => [
+  "-ss",
+  range.start.toString(),
+  "-i",
+  inputFileName,
+  "-t",
+  (range.end - range.start).toString(),
+  ...videoArgs,
+  ...audioArgs,
+  "-avoid_negative_ts",
+  "make_zero",
+  outputFileName,
+]
+
+export const fullReencodeArgs = (outputFileName: string) => {
+  if (getExtension(outputFileName) === "webm") {
+    return { video: SMART_RENDER_ENCODERS.vp9, audio: ["-c:a", "libopus"] }
+  }
+  return { video: SMART_RENDER_ENCODERS.h264, audio: ["-c:a", "aac", "-b:a", "192k"] }
+}
+
+// The sound of every range, cut on the sample and encoded in one pass, so it stays in sync
+// with the smart-rendered video wherever its pieces are joined
+function rangesAudioArgs(
+  ranges: TimeRange[],
+  inputFileName: string,
+  outputFileName: string,
+  streamIndex: number,
+  audioArgs: string[],
+) {
+  const trims = ranges.map(
+    (range, index) => `[a${index}]atrim=start=${range.start}:end=${range.end},asetpts=PTS-STARTPTS[t${index}]`,
+  )
+  const split = ranges.map((_, index) => `[a${index}]`).join("")
+  const joined = ranges.map((_, index) => `[t${index}]`).join("")
+  const graph = [
+    `[0:${streamIndex}]asplit=${ranges.length}${split}`,
+    ...trims,
+    `${joined}concat=n=${ranges.length}:v=0:a=1[a]`,
+  ].join(";")
+  return ["-i", inputFileName, "-filter_complex", graph, "-map", "[a]", ...audioArgs, outputFileName]
+}
+
+// Encoder options that reproduce the source's profile and pixel format, so the re-encoded
+// heads match the copied video. Null when the source can't be matched.
+function getMatchedEncoderArgs(stream: VideoStreamDetails): string[] | null {
+  const encoder = SMART_RENDER_ENCODERS[stream.codec]
+  const profiles = SMART_RENDER_PROFILES[stream.codec]
+  if (!encoder || profiles === undefined || !stream.pixelFormat) return null
+  if (profiles === null) return [...encoder, "-pix_fmt", stream.pixelFormat]
+
+  const profile = stream.profile ? profiles[stream.profile] : undefined
+  return profile ? [...encoder, "-profile:v", profile, "-pix_fmt", stream.pixelFormat] : null
+}
+
+// Where a stream-copy cut really starts: seeking the input with -c copy begins at the
+// keyframe at or before the in point, or at the start of the file if there is none
+export function getCopyCutStart(start: number, keyframes: number[]): number {
+  return keyframes.filter((time) => time <= start + KEYFRAME_TOLERANCE).pop() ?? 0
+}
+
+// Splits each range at its first keyframe: the head up to the keyframe is
+// re-encoded, everything after it is copied.
+function planSmartRender(ranges: TimeRange[], keyframes: number[]): TrimPiece[] {
+  return ranges.flatMap((range) => {
+    const keyframe = keyframes.find((time) => time >= range.start - KEYFRAME_TOLERANCE && time < range.end)
+
+    if (keyframe === undefined) {
+      return [{ ...range, encode: true }]
+    }
+    if (keyframe - range.start <= KEYFRAME_TOLERANCE) {
+      return [{ ...range, encode: false }]
+    }
+    return [
+      { start: range.start, end: keyframe, encode: true },
+      { start: keyframe, end: range.end, encode: false },
+    ]
+  })
+}
+
+// Renders every piece to its own file and joins them with the concat demuxer.
+// A single piece is written straight to the output.
+async function renderPieces(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  outputFileName: string,
+  pieces: TrimPiece[],
+  encodeArgs: { video: string[]; audio: string[] },
+  onStep?: TrimStepCallback,
+) {
+  const argsFor = (piece: TrimPiece, target: string) =>
+    piece.encode
+      ? encodeRangeArgs(piece, inputFileName, target, encodeArgs.video, encodeArgs.audio)
+      : copyRangeArgs(piece, inputFileName, target)
+
+  if (pieces.length === 1) {
+    onStep?.(0, 1)
+    await execOrThrow(ffmpeg, argsFor(pieces[0], outputFileName))
+    return
+  }
+
+  const extension = getExtension(outputFileName)
+  const totalSteps = pieces.length + 1
+  const partFileNames = pieces.map((_, index) => `part-${index}.${extension}`)
+  const listFileName = "concat-list.txt"
+
+  try {
+    for (const [index, piece] of pieces.entries()) {
+      onStep?.(index, totalSteps)
+      console.log(`[v0] ${piece.encode ? "Encoding" : "Cutting"} piece ${index + 1}/${pieces.length}...`)
+      await execOrThrow(ffmpeg, argsFor(piece, partFileNames[index]))
+    }
+
+    await ffmpeg.writeFile(listFileName, partFileNames.map((name) => `file '${name}'`).join("\n"))
+
+    onStep?.(pieces.length, totalSteps)
+    console.log("[v0] Joining pieces...")
+    await execOrThrow(ffmpeg, ["-f", "concat", "-safe", "0", "-i", listFileName, "-c", "copy", outputFileName])
+  } finally {
+    for (const name of [...partFileNames, listFileName]) {
+      await ffmpeg.deleteFile(name).catch(() => {})
+    }
+  }
+}
+
+// Renders the video piece by piece (copied or re-encoded) and the sound in a single pass,
+// then joins the pieces with the concat demuxer and muxes the sound in
+async function renderSmartPieces(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  outputFileName: string,
+  ranges: TimeRange[],
+  pieces: TrimPiece[],
+  { videoIndex, videoArgs, pieceExtension, audioIndex }: SmartRenderStreams,
+  onStep?: TrimStepCallback,
+) {
+  const totalSteps = pieces.length + (audioIndex === null ? 1 : 2)
+  const partFileNames = pieces.map((_, index) => `part-${index}.${pieceExtension}`)
+  const audioFileName = "smart-audio.mka"
+  const listFileName = "concat-list.txt"
+  const videoMap = ["-map", `0:${videoIndex}`]
+
+  try {
+    for (const [index, piece] of pieces.entries()) {
+      onStep?.(index, totalSteps)
+      console.log(`[v0] ${piece.encode ? "Encoding" : "Cutting"} piece ${index + 1}/${pieces.length}...`)
+      await execOrThrow(
+        ffmpeg,
+        piece.encode
+          ? encodeRangeArgs(piece, inputFileName, partFileNames[index], [...videoMap, ...videoArgs], ["-an"])
+          : copyRangeArgs(piece, inputFileName, partFileNames[index], videoMap),
+      )
+    }
+
+    if (audioIndex !== null) {
+      onStep?.(pieces.length, totalSteps)
+      console.log("[v0] Encoding audio...")
+      const audioArgs = fullReencodeArgs(outputFileName).audio
+      await execOrThrow(ffmpeg, rangesAudioArgs(ranges, inputFileName, audioFileName, audioIndex, audioArgs))
+    }
+
+    // Each piece is placed by its planned length, the same length its sound was cut to
+    const list = pieces.map((piece, index) => `file '${partFileNames[index]}'\nduration ${piece.end - piece.start}`)
+    await ffmpeg.writeFile(listFileName, list.join("\n"))
+
+    onStep?.(totalSteps - 1, totalSteps)
+    console.log("[v0] Joining pieces...")
+    await execOrThrow(ffmpeg, [
+      "-f",
+      "concat",
+      "-safe",
+      "0",
+      "-i",
+      listFileName,
+      ...(audioIndex === null ? [] : ["-i", audioFileName]),
+      "-map",
+      "0:v:0",
+      ...(audioIndex === null ? [] : ["-map", "1:a:0"]),
+      "-c",
+      "copy",
+      outputFileName,
+    ])
+  } finally {
+    for (const name of [...partFileNames, audioFileName, listFileName]) {
+      await ffmpeg.deleteFile(name).catch(() => {})
+    }
+  }
+}
+
+// Checks the joined output before it is handed over: the right codec and length, and a clean
+// decode of a second around every join, where mismatched pieces would show up as errors
+async function verifySmartRender(
+  ffmpeg: FFmpeg,
+  outputFileName: string,
+  pieces: TrimPiece[],
+  codec: string,
+): Promise<boolean> {
+  const info = await probeMediaInfo(ffmpeg, outputFileName)
+  const expected = pieces.reduce((total, piece) => total + piece.end - piece.start, 0)
+  if (
+    !info ||
+    getPrimaryVideoStream(info)?.codec !== codec ||
+    info.duration === null ||
+    Math.abs(info.duration - expected) > SMART_RENDER_DURATION_TOLERANCE
+  ) {
+    console.warn("[v0] Smart-rendered output doesn't match the plan:", info)
+    return false
+  }
+
+  let join = 0
+  for (const piece of pieces.slice(0, -1)) {
+    join += piece.end - piece.start
+    const { exitCode, logs } = await execWithLogs(ffmpeg, [
+      "-v",
+      "error",
+      "-ss",
+      Math.max(0, join - 0.5).toString(),
+      "-i",
+      outputFileName,
+      "-t",
+      "1",
+      "-map",
+      "0:v:0",
+      "-f",
+      "null",
+      "-",
+    ])
+    const errors = logs.filter((line) => line.trim())
+    if (exitCode !== 0 || errors.length > 0) {
+      console.warn(`[v0] Smart-rendered join at ${join.toFixed(2)}s doesn't decode cleanly:`, errors)
+      return false
+    }
+  }
+  return true
+}
+
+// Returns the reason instead of a result when the source can't be smart-rendered
+async function smartRender(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  outputFileName: string,
+  ranges: TimeRange[],
+  mediaInfo: MediaInfo | null,
+  onStep?: TrimStepCallback,
+): Promise<TrimResult | string> {
+  const info = mediaInfo ?? (await probeMediaInfo(ffmpeg, inputFileName))
+  const stream = getPrimaryVideoStream(info)
+  const pieceExtension = stream ? SMART_RENDER_PIECE_EXTENSIONS[stream.codec] : undefined
+  if (!stream || !pieceExtension) {
+    return "The source codec can't be smart-rendered, so the whole range was re-encoded."
+  }
+
+  const keyframes = mediaInfo?.keyframes ?? (await probeKeyframes(ffmpeg, inputFileName))
+  if (keyframes.length === 0) {
+    return "The source's keyframes couldn't be read, so the whole range was re-encoded."
+  }
+
+  const pieces = planSmartRender(ranges, keyframes)
+  const encodedPieces = pieces.filter((piece) => piece.encode)
+
+  // Cuts on keyframes are exact with a plain stream copy, which keeps the original sound too
+  if (encodedPieces.length === 0) {
+    await renderPieces(ffmpeg, inputFileName, outputFileName, pieces, fullReencodeArgs(outputFileName), onStep)
+    return { method: "copy", reason: "Every cut point already sits on a keyframe, so nothing had to be re-encoded." }
+  }
+
+  const videoArgs = getMatchedEncoderArgs(stream)
+  if (!videoArgs) {
+    return `The source's ${stream.codec} profile or pixel format can't be matched, so the whole range was re-encoded.`
+  }
+
+  const audioStream = getPrimaryAudioStream(info)
+  const streams = { videoIndex: stream.index, videoArgs, pieceExtension, audioIndex: audioStream?.index ?? null }
+  await renderSmartPieces(ffmpeg, inputFileName, outputFileName, ranges, pieces, streams, onStep)
+
+  if (!(await verifySmartRender(ffmpeg, outputFileName, pieces, stream.codec))) {
+    await ffmpeg.deleteFile(outputFileName).catch(() => {})
+    return "The smart-rendered joins didn't decode cleanly, so the whole range was re-encoded."
+  }
+
+  const encodedSeconds = encodedPieces.reduce((total, piece) => total + piece.end - piece.start, 0)
+  return {
+    method: "smart",
+    reason: `Re-encoded ${encodedSeconds.toFixed(2)}s of ${stream.codec} video around ${encodedPieces.length} cut ${
+      encodedPieces.length === 1 ? "point" : "points"
+    } to match the source, stream-copied the rest and re-encoded the sound in one pass.`,
+  }
+}
+
+export async function trimRanges(
+  ffmpeg: FFmpeg,
+  inputFileName: string,
+  outputFileName: string,
+  ranges: TimeRange[],
+  { mode = "fast", onStep, mediaInfo = null }: TrimOptions = {},
+): Promise<TrimResult> {
+  if (ranges.length === 0) {
+    throw new Error("Nothing to export. Add at least one segment to keep.")
+  }
+
+  const reencode = fullReencodeArgs(outputFileName)
+
+  if (mode === "fast") {
+    const pieces = ranges.map((range) => ({ ...range, encode: false }))
+    await renderPieces(ffmpeg, inputFileName, outputFileName, pieces, reencode, onStep)
+    return { method: "copy", reason: "Stream copy is fastest but starts each cut on the nearest keyframe." }
+  }
+
+  let fallbackReason: string
+  try {
+    const result = await smartRender(ffmpeg, inputFileName, outputFileName, ranges, mediaInfo, onStep)
+    if (typeof result !== "string") return result
+    fallbackReason = result
+  } catch (error) {
+    console.warn("[v0] Smart rendering failed, falling back to full re-encode:", error)
+    fallbackReason = "Smart rendering failed for this file, so the whole range was re-encoded."
+    await ffmpeg.deleteFile(outputFileName).catch(() => {})
+  }
+
+  const pieces = ranges.map((range) => ({ ...range, encode: true }))
+  await renderPieces(ffmpeg, inputFileName, outputFileName, pieces, reencode, onStep)
+  return { method: "reencode", reason: fallbackReason }
+}
@@ -0,0 +1,26 @@
+// Reduces signed 16-bit mono PCM to one peak amplitude (0..1) per bucket
+
+type WaveformRequest = {
+  pcm: ArrayBuffer
+  buckets: number
+}
+
+self.onmessage = (event: MessageEvent<WaveformRequest>) => {
+  const { pcm, buckets } = event.data
+  const samples = new Int16Array(pcm, 0, Math.floor(pcm.byteLength / 2))
+  const peaks = new Float32Array(buckets)
+  const samplesPerBucket = samples.length / buckets
+
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const from = Math.floor(bucket * samplesPerBucket)
+    const to = Math.min(samples.length, Math.floor((bucket + 1) * samplesPerBucket))
+    let peak = 0
+    for (let i = from; i < to; i++) {
+      const value = Math.abs(samples[i])
+      if (value > peak) peak = value
+    }
+    peaks[bucket] = peak / 32768
+  }
+
+  self.postMessage(peaks, { transfer: [peaks.buffer] })
+}
@@ -0,0 +1,119 @@
+// Minimal ZIP writer for bundling exports. Entries are stored uncompressed (video is
+// already compressed) and the archive is a Blob made of the entries' own Blobs, so
+// outputs kept in OPFS are only streamed once to compute their checksums.
+
+export type ZipEntry = {
+  name: string
+  data: Blob
+}
+
+// Offsets and sizes are 32-bit without the ZIP64 extension
+const MAX_ZIP_SIZE = 0xffffffff
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+async function crc32(blob: Blob): Promise<number> {
+  const reader = blob.stream().getReader()
+  let crc = 0xffffffff
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    for (let i = 0; i < value.length; i++) {
+      crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8)
+    }
+  }
+
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time fields
+function getDosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+type EntryHeader = {
+  name: Uint8Array
+  crc: number
+  size: number
+  offset: number
+}
+
+// Fields shared by the local file header and the central directory record, from "version needed" on
+function writeCommonFields(view: DataView, at: number, header: EntryHeader, stamp: { time: number; date: number }) {
+  view.setUint16(at, 20, true) // version needed to extract
+  view.setUint16(at + 2, 0x0800, true) // UTF-8 file names
+  view.setUint16(at + 4, 0, true) // stored, no compression
+  view.setUint16(at + 6, stamp.time, true)
+  view.setUint16(at + 8, stamp.date, true)
+  view.setUint32(at + 10, header.crc, true)
+  view.setUint32(at + 14, header.size, true)
+  view.setUint32(at + 18, header.size, true)
+  view.setUint16(at + 22, header.name.length, true)
+  view.setUint16(at + 24, 0, true) // extra field length
+}
+
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const stamp = getDosDateTime(new Date())
+  const parts: BlobPart[] = []
+  const headers: EntryHeader[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const header = { name: encoder.encode(entry.name), crc: await crc32(entry.data), size: entry.data.size, offset }
+
+    const local = new Uint8Array(30 + header.name.length)
+    const view = new DataView(local.buffer)
+    view.setUint32(0, 0x04034b50, true)
+    writeCommonFields(view, 4, header, stamp)
+    local.set(header.name, 30)
+
+    parts.push(local, entry.data)
+    headers.push(header)
+    offset += local.length + header.size
+  }
+
+  const directoryOffset = offset
+  for (const header of headers) {
+    const record = new Uint8Array(46 + header.name.length)
+    const view = new DataView(record.buffer)
+    view.setUint32(0, 0x02014b50, true)
+    view.setUint16(4, 20, true) // version made by
+    writeCommonFields(view, 6, header, stamp)
+    // comment length, disk number, internal and external attributes stay zero
+    view.setUint32(42, header.offset, true)
+    record.set(header.name, 46)
+
+    parts.push(record)
+    offset += record.length
+  }
+
+  if (offset > MAX_ZIP_SIZE) {
+    throw new Error("The archive would be larger than 4GB. Download the files one by one instead.")
+  }
+
+  const end = new Uint8Array(22)
+  const view = new DataView(end.buffer)
+  view.setUint32(0, 0x06054b50, true)
+  view.setUint16(8, headers.length, true)
+  view.setUint16(10, headers.length, true)
+  view.setUint32(12, offset - directoryOffset, true)
+  view.setUint32(16, directoryOffset, true)
+  parts.push(end)
+
+  return new Blob(parts, { type: "application/zip" })
+}
@@ -0,0 +1,21 @@
+// Copies the FFmpeg WebAssembly core into public/ so the editor can load it
+// from its own origin instead of a CDN. Runs after every install.
+import { copyFileSync, existsSync, mkdirSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..")
+const source = join(root, "node_modules", "@ffmpeg", "core", "dist", "umd")
+const target = join(root, "public", "ffmpeg")
+
+if (!existsSync(source)) {
+  console.warn("[copy-ffmpeg-core] @ffmpeg/core is not installed, skipping")
+  process.exit(0)
+}
+
+mkdirSync(target, { recursive: true })
+for (const file of ["ffmpeg-core.js", "ffmpeg-core.wasm"]) {
+  copyFileSync(join(source, file), join(target, file))
+}
+
+console.log(`[copy-ffmpeg-core] Copied FFmpeg core to ${target}`)